@@ -1,11 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { VersionHistoryPanel } from './components/VersionHistory/VersionHistoryPanel';
-import { saveVersion, getVersions, deleteVersion } from './services/versionControl';
-import { ProjectVersion } from './types';
+import { saveVersion, getVersions, deleteVersion, clearHistory } from './services/versionControl';
+import { loadWorkspace, scheduleWorkspaceSave, flushWorkspaceSave, subscribePersistence, PersistenceStatus } from './services/persistence';
+import { getResumableRun, getRunProgress, clearRuns, deleteRun } from './services/workflowRuns';
+import { subscribeUsage, applyUsageEntry, formatCost } from './services/usageTracker';
+import { clearProjectLedger, createBudgetGuard, isBudgetExceeded } from './services/budget';
+import { setPreferredModel } from './services/providerRouter';
+import { startHealthMonitor } from './services/providerHealth';
+import { setRetrievalSources, sourcesFromInputs, sourcesFromFolder, sourcesFromBlocks, clearRetrievalIndex } from './services/retrieval';
+import { ModelChoice, ProjectVersion, WorkflowRun } from './types';
 import { ChatInterface } from './components/ChatInterface';
 import { Canvas } from './components/Canvas';
 import { ModelSelector } from './components/ModelSelector';
 import { ReviewPanel } from './components/ReviewPanel';
+import { UsageReport } from './components/UsageReport';
 import { GlassPanel } from './components/ui/GlassPanel';
 import { AnimatedBackground } from './components/ui/AnimatedBackground';
 import { InputHub } from './components/InputHub/InputHub';
@@ -14,19 +22,22 @@ import { ActivityBar, ActivityView } from './components/ActivityBar';
 import { PrimarySidebar } from './components/PrimarySidebar';
 import {
   Project, Message, MessageRole, BlockType, ContentBlock, AgentLog, AgentRole,
-  ModelProvider, BlockStatus, WorkflowPhase, ProjectSettings, RevisionEntry, Blueprint, EditorAction
+  BlockStatus, WorkflowPhase, ProjectSettings, RevisionEntry, Blueprint, EditorAction, GenerateOptions
 } from './types';
 import { InputHubState, InputStatus, InputType } from './types/inputs';
-import { generateChatMessage, generateBlockContent, suggestImprovement } from './services/geminiService';
+import { generateChatMessage, suggestImprovement } from './services/geminiService';
+import { generateImage, getImageProvider, parseImageCommand, ImageCommand } from './services/imageRegistry';
 import { runMultiAgentWorkflow, refineContent } from './services/agentOrchestrator';
 import { downloadAsHtml, downloadMetadata } from './services/bookExporter';
+import { downloadAsEpub } from './services/epubBuilder';
+import { downloadAsDocx } from './services/docxExporter';
 import { synthesizeInputs } from './services/synthesizer';
 import { BookMetadata } from './services/workspaceManager';
 import { ProjectContext } from './services/folderContext';
 import {
   PanelLeftClose, PanelRightClose, Download, FileText,
   BookOpen, ClipboardList, Sparkles, Brain, Zap, Menu, Save, Clock,
-  MessageSquare
+  MessageSquare, RotateCcw, DollarSign, X
 } from 'lucide-react';
 
 // Import design system
@@ -34,6 +45,7 @@ import './styles/design-system.css';
 
 // Initialize AI providers
 import './services/providers';
+import './services/imageProviders';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -92,66 +104,192 @@ const App: React.FC = () => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [showChat, setShowChat] = useState(true);
   const [showReviewPanel, setShowReviewPanel] = useState(false);
+  const [showUsageReport, setShowUsageReport] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSynthesizing, setIsSynthesizing] = useState(false);
   const [viewMode, setViewMode] = useState<'input' | 'blueprint' | 'canvas'>('input');
+  const [streamingBlocks, setStreamingBlocks] = useState<Record<string, ContentBlock>>({});
+  const workflowAbortRef = useRef<AbortController | null>(null);
+  const [resumableRun, setResumableRun] = useState<WorkflowRun | null>(null);
 
   // Folder Context
   const [folderContext, setFolderContext] = useState<ProjectContext | null>(null);
 
   // Model selection
-  const [selectedProvider, setSelectedProvider] = useState<ModelProvider | 'auto'>('auto');
+  const [selectedModel, setSelectedModel] = useState<ModelChoice | 'auto'>('auto');
+
+  // Every routed call tries the selected model first (unless the project overrides the task)
+  useEffect(() => {
+    setPreferredModel(selectedModel);
+  }, [selectedModel]);
+
+  // Background provider pings feed the status badges and the router's health ordering
+  useEffect(() => startHealthMonitor(), []);
 
   // Version Control State
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [projectVersions, setProjectVersions] = useState<ProjectVersion[]>([]);
 
+  // Persistence State
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageStatus, setStorageStatus] = useState<PersistenceStatus>('idle');
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Usage from calls that carry no projectId is charged to the project open at the time
+  const activeProjectIdRef = useRef(activeProjectId);
+  activeProjectIdRef.current = activeProjectId;
+
+  // Restore the saved workspace once on startup. If it cannot be read, stay
+  // un-hydrated: auto-save would otherwise replace the stored projects with the seed
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace().then(saved => {
+      if (cancelled) return;
+      if (saved) {
+        setProjects(saved.projects);
+        setActiveProjectId(saved.activeProjectId);
+        setMessages(saved.chatHistory);
+        setAgentLogs(saved.agentLogs);
+        setInputHubStates(saved.inputHubStates);
+      }
+      setIsHydrated(true);
+    }).catch(error => {
+      if (cancelled) return;
+      console.error('[Persistence] Failed to load workspace:', error);
+      setStorageStatus('error');
+      setStorageError(`Saved projects could not be loaded, so nothing will be saved this session. Reload to try again. (${error instanceof Error ? error.message : String(error)})`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    return subscribePersistence((status, error, result) => {
+      setStorageStatus(status);
+      setStorageError(status === 'error' ? error || 'Failed to save' : null);
+      // The save only fit after trimming the logs; keep the same, or every save would overflow again
+      const keep = result?.logsTrimmedTo;
+      if (keep) {
+        setAgentLogs(prev => Object.fromEntries(Object.entries(prev).map(([id, logs]) => [id, logs.slice(-keep)])));
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    return subscribeUsage(entry => {
+      const projectId = entry.projectId || activeProjectIdRef.current;
+      if (!projectId) return;
+      setProjects(prev => prev.map(p => p.id === projectId
+        ? { ...p, usage: applyUsageEntry(p.usage, entry) }
+        : p
+      ));
+    });
+  }, []);
+
+  // Auto-save (debounced in the persistence service); skipped until hydrated
+  // so the seed project never overwrites stored data
+  useEffect(() => {
+    if (!isHydrated) return;
+    scheduleWorkspaceSave({
+      activeProjectId,
+      projects,
+      chatHistory: messages,
+      agentLogs,
+      inputHubStates
+    });
+  }, [isHydrated, activeProjectId, projects, messages, agentLogs, inputHubStates]);
+
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') void flushWorkspaceSave();
+    };
+    const handleUnload = () => {
+      void flushWorkspaceSave();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('beforeunload', handleUnload);
+    };
+  }, []);
+
+  // Look for an interrupted or failed run whenever a workflow settles
+  useEffect(() => {
+    if (!isHydrated || !activeProjectId || isGenerating) return;
+    let cancelled = false;
+    getResumableRun(activeProjectId).then(run => {
+      if (!cancelled) setResumableRun(run);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isHydrated, activeProjectId, isGenerating]);
+
   const activeProject = projects.find(p => p.id === activeProjectId) || null;
 
+  // Keep the retrieval index in step with the inputs, folder files and blocks the agents draw on
+  const activeBlocks = activeProject?.blocks;
+  const activeInputItems = activeProjectId ? inputHubStates[activeProjectId]?.items : undefined;
+  useEffect(() => {
+    if (!activeProjectId) return;
+    setRetrievalSources(activeProjectId, [
+      ...sourcesFromInputs(activeInputItems || []),
+      ...sourcesFromFolder(folderContext),
+      ...sourcesFromBlocks(activeBlocks || [])
+    ]);
+  }, [activeProjectId, activeInputItems, folderContext, activeBlocks]);
+
   // Create book metadata from current project
   const bookMetadata: BookMetadata = {
     title: activeProject?.title || 'Untitled',
     author: activeProject?.settings.bookMetadata?.author || 'Unknown Author',
     description: activeProject?.description || '',
     genre: activeProject?.settings.bookMetadata?.genre || 'General',
-    language: 'en',
+    language: activeProject?.settings.bookMetadata?.language || 'en',
+    isbn: activeProject?.settings.bookMetadata?.isbn || undefined,
     keywords: [],
     chapters: []
   };
 
   // Version Control Handlers
-  const handleToggleHistory = () => {
+  const handleToggleHistory = async () => {
     if (!showVersionHistory && activeProject) {
-      setProjectVersions(getVersions(activeProject.id));
+      setProjectVersions(await getVersions(activeProject.id));
     }
     setShowVersionHistory(!showVersionHistory);
   };
 
-  const handleSaveVersion = () => {
+  const handleSaveVersion = async () => {
     if (!activeProject) return;
     try {
       const label = prompt('Name this version (optional):') || 'Manual Save';
-      saveVersion(activeProject, 'manual', label);
-      setProjectVersions(getVersions(activeProject.id));
+      await saveVersion(activeProject, 'manual', label);
+      setProjectVersions(await getVersions(activeProject.id));
       alert('Version saved successfully!');
     } catch (e) {
       alert('Failed to save version. Storage limit may be reached.');
     }
   };
 
-  const handleRestoreVersion = (version: ProjectVersion) => {
+  const handleRestoreVersion = async (version: ProjectVersion) => {
     if (!activeProject) return;
-    saveVersion(activeProject, 'auto', 'Pre-Restore Backup');
+    try {
+      await saveVersion(activeProject, 'auto', 'Pre-Restore Backup');
+    } catch (e) {
+      console.warn('Pre-restore backup failed:', e);
+    }
     const restored = { ...version.snapshot, id: activeProject.id };
     setProjects(prev => prev.map(p => p.id === activeProject.id ? restored : p));
     setShowVersionHistory(false);
     alert(`Restored version: ${version.label}`);
   };
 
-  const handleDeleteVersion = (versionId: string) => {
+  const handleDeleteVersion = async (versionId: string) => {
     if (!activeProject) return;
-    deleteVersion(activeProject.id, versionId);
-    setProjectVersions(getVersions(activeProject.id));
+    await deleteVersion(activeProject.id, versionId);
+    setProjectVersions(await getVersions(activeProject.id));
   };
 
   const currentMessages = activeProjectId ? (messages[activeProjectId] || []) : [];
@@ -194,6 +332,10 @@ const App: React.FC = () => {
     if (activeProjectId === id) {
       setActiveProjectId(newProjects.length > 0 ? newProjects[0].id : null);
     }
+    clearHistory(id).catch(err => console.warn('Failed to clear version history:', err));
+    clearRuns(id).catch(err => console.warn('Failed to clear workflow runs:', err));
+    clearRetrievalIndex(id);
+    clearProjectLedger(id);
   };
 
   const addAgentLog = (projectId: string, log: AgentLog) => {
@@ -203,6 +345,23 @@ const App: React.FC = () => {
     }));
   };
 
+  // Each synthesis / KDP / social action runs against the active project's budget
+  const getCallOptions = (): GenerateOptions => {
+    if (!activeProject) return {};
+    const projectId = activeProject.id;
+    return {
+      projectId,
+      taskModels: activeProject.settings.taskModels,
+      budget: createBudgetGuard(activeProject, message => addAgentLog(projectId, {
+        id: generateId(),
+        timestamp: Date.now(),
+        agent: AgentRole.PROJECT_MANAGER,
+        message: `Budget warning: ${message}`,
+        status: 'warning'
+      }))
+    };
+  };
+
   const handleInputHubStateChange = (state: InputHubState) => {
     if (!activeProjectId) return;
     setInputHubStates(prev => ({
@@ -223,7 +382,7 @@ const App: React.FC = () => {
     setIsSynthesizing(true);
 
     try {
-      const result = await synthesizeInputs(currentInputHubState.items);
+      const result = await synthesizeInputs(currentInputHubState.items, getCallOptions());
 
       setInputHubStates(prev => ({
         ...prev,
@@ -303,11 +462,39 @@ const App: React.FC = () => {
 
     } catch (error) {
       console.error('Synthesis error:', error);
+      if (isBudgetExceeded(error)) {
+        addAgentLog(activeProjectId, {
+          id: generateId(),
+          timestamp: Date.now(),
+          agent: AgentRole.PROJECT_MANAGER,
+          message: 'Synthesis stopped: budget cap reached.',
+          metadata: error.message,
+          status: 'failed'
+        });
+      }
     } finally {
       setIsSynthesizing(false);
     }
   };
 
+  // Workflow blocks land in the project as each task checkpoints, so an
+  // interrupted run never loses finished chapters
+  const appendWorkflowBlock = (projectId: string) => (block: ContentBlock) => {
+    const reviewBlock: ContentBlock = { ...block, status: BlockStatus.PENDING_REVIEW, revisionHistory: block.revisionHistory || [] };
+    setProjects(prev => prev.map(p => p.id === projectId
+      ? { ...p, blocks: [...p.blocks, reviewBlock], lastModified: Date.now() }
+      : p));
+  };
+
+  // Several chapters may be drafting at once; drafts are keyed by their block id
+  const handleDraftUpdate = (draft: ContentBlock) => {
+    setStreamingBlocks(prev => ({ ...prev, [draft.id]: draft }));
+  };
+
+  const handleCancelGeneration = () => {
+    workflowAbortRef.current?.abort();
+  };
+
   const handleSendMessage = async (text: string) => {
     if (!activeProjectId) return;
 
@@ -333,25 +520,24 @@ const App: React.FC = () => {
           ? `${text}\n\n[SYNTHESIS CONTEXT]\n${synthesisContext}\n\n[GUIDELINES]\n${guidelines.join('\n')}`
           : text;
 
+        const controller = new AbortController();
+        workflowAbortRef.current = controller;
+
         const newBlocks = await runMultiAgentWorkflow(enhancedRequest, activeProject, (log) => {
           addAgentLog(activeProjectId, log);
+        }, undefined, {
+          onDraftUpdate: handleDraftUpdate,
+          onBlockComplete: appendWorkflowBlock(activeProjectId),
+          signal: controller.signal
         });
 
         if (newBlocks.length > 0) {
-          const blocksWithStatus: ContentBlock[] = newBlocks.map(block => ({
-            ...block,
-            status: BlockStatus.PENDING_REVIEW,
-            revisionHistory: []
-          }));
-
-          const updatedProject = {
-            ...activeProject,
-            blocks: [...activeProject.blocks, ...blocksWithStatus],
-            lastModified: Date.now()
-          };
-          setProjects(prev => prev.map(p => p.id === activeProjectId ? updatedProject : p));
-          responseText = `✅ **Created ${blocksWithStatus.length} piece(s)!**\n\nOpen the Review Panel to approve or refine each one.`;
+          responseText = controller.signal.aborted
+            ? `⏹️ **Generation cancelled.** Kept ${newBlocks.length} completed piece(s) for review.`
+            : `✅ **Created ${newBlocks.length} piece(s)!**\n\nOpen the Review Panel to approve or refine each one.`;
           setShowReviewPanel(true);
+        } else if (controller.signal.aborted) {
+          responseText = "⏹️ **Generation cancelled** before any content was completed.";
         } else {
           responseText = "The swarm encountered an issue. Try again or rephrase your request.";
         }
@@ -371,13 +557,26 @@ const App: React.FC = () => {
       const errorMsg: Message = { id: generateId(), role: MessageRole.MODEL, content: "Connection interrupted. Please try again.", timestamp: Date.now() };
       setMessages(prev => ({ ...prev, [activeProjectId]: [...updatedMessages, errorMsg] }));
     } finally {
+      workflowAbortRef.current = null;
+      setStreamingBlocks({});
       setIsGenerating(false);
     }
   };
 
-  const handleGenerateImage = async (prompt: string) => {
+  const handleGenerateImage = async (input: string) => {
     if (!activeProjectId || !activeProject) return;
 
+    const userMsg: Message = { id: generateId(), role: MessageRole.USER, content: `/image ${input}`, timestamp: Date.now() };
+    let command: ImageCommand;
+    try {
+      command = parseImageCommand(input, activeProject.settings.imageDefaults);
+    } catch (e) {
+      const errorMsg: Message = { id: generateId(), role: MessageRole.MODEL, content: (e as Error).message, timestamp: Date.now() };
+      setMessages(prev => ({ ...prev, [activeProjectId]: [...currentMessages, userMsg, errorMsg] }));
+      return;
+    }
+    const { request, provider } = command;
+
     const placeholderId = generateId();
     const placeholderBlock: ContentBlock = {
       id: placeholderId,
@@ -395,7 +594,6 @@ const App: React.FC = () => {
     setIsGenerating(true);
 
     try {
-      const userMsg: Message = { id: generateId(), role: MessageRole.USER, content: `/image ${prompt}`, timestamp: Date.now() };
       setMessages(prev => ({ ...prev, [activeProjectId]: [...currentMessages, userMsg] }));
 
       addAgentLog(activeProjectId, {
@@ -406,45 +604,47 @@ const App: React.FC = () => {
         status: 'working'
       });
 
-      const base64Image = await generateBlockContent(prompt, activeProject.blocks, 'image');
-
-      if (base64Image) {
-        const updatedBlock: ContentBlock = {
-          ...placeholderBlock,
-          content: base64Image,
-          status: BlockStatus.PENDING_REVIEW,
-          metadata: { prompt, agentSignature: 'Visionary Agent' }
-        };
-
-        const finalProject = {
-          ...activeProject,
-          blocks: activeProject.blocks.map(b => b.id === placeholderId ? updatedBlock : b)
-        };
-        setProjects(prev => prev.map(p => p.id === activeProjectId ? finalProject : p));
+      const image = await generateImage({ ...request, projectId: activeProjectId }, provider);
+
+      const updatedBlock: ContentBlock = {
+        ...placeholderBlock,
+        content: image.dataUrl,
+        status: BlockStatus.PENDING_REVIEW,
+        metadata: {
+          prompt: request.prompt,
+          agentSignature: 'Visionary Agent',
+          modelUsed: image.modelId,
+          image: image.metadata
+        }
+      };
 
-        addAgentLog(activeProjectId, {
-          id: generateId(),
-          timestamp: Date.now(),
-          agent: AgentRole.VISIONARY,
-          message: 'Visual rendered successfully.',
-          status: 'success'
-        });
+      const finalProject = {
+        ...activeProject,
+        blocks: activeProject.blocks.map(b => b.id === placeholderId ? updatedBlock : b)
+      };
+      setProjects(prev => prev.map(p => p.id === activeProjectId ? finalProject : p));
 
-        const modelMsg: Message = { id: generateId(), role: MessageRole.MODEL, content: "✨ Image generated!", timestamp: Date.now() };
-        setMessages(prev => ({ ...prev, [activeProjectId]: [...currentMessages, userMsg, modelMsg] }));
-      } else {
-        addAgentLog(activeProjectId, {
-          id: generateId(),
-          timestamp: Date.now(),
-          agent: AgentRole.VISIONARY,
-          message: 'Generation failed.',
-          status: 'failed'
-        });
-        setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, blocks: p.blocks.filter(b => b.id !== placeholderId) } : p));
-      }
+      addAgentLog(activeProjectId, {
+        id: generateId(),
+        timestamp: Date.now(),
+        agent: AgentRole.VISIONARY,
+        message: `Visual rendered by ${getImageProvider(image.provider)?.displayName || image.provider}.`,
+        status: 'success'
+      });
 
+      const modelMsg: Message = { id: generateId(), role: MessageRole.MODEL, content: "✨ Image generated!", timestamp: Date.now() };
+      setMessages(prev => ({ ...prev, [activeProjectId]: [...currentMessages, userMsg, modelMsg] }));
     } catch (e) {
       console.error(e);
+      addAgentLog(activeProjectId, {
+        id: generateId(),
+        timestamp: Date.now(),
+        agent: AgentRole.VISIONARY,
+        message: 'Generation failed.',
+        status: 'failed'
+      });
+      const errorMsg: Message = { id: generateId(), role: MessageRole.MODEL, content: `Image generation failed: ${(e as Error).message}`, timestamp: Date.now() };
+      setMessages(prev => ({ ...prev, [activeProjectId]: [...currentMessages, userMsg, errorMsg] }));
       setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, blocks: p.blocks.filter(b => b.id !== placeholderId) } : p));
     } finally {
       setIsGenerating(false);
@@ -482,32 +682,30 @@ const App: React.FC = () => {
         [activeProjectId!]: [...currentMessages, userMsg]
       }));
 
+      const controller = new AbortController();
+      workflowAbortRef.current = controller;
+
       const newBlocks = await runMultiAgentWorkflow(
         "Generate content based on the attached blueprint.",
         activeProject,
         (log) => addAgentLog(activeProjectId!, log),
-        activeProject.blueprint
+        activeProject.blueprint,
+        {
+          onDraftUpdate: handleDraftUpdate,
+          onBlockComplete: appendWorkflowBlock(activeProject.id),
+          signal: controller.signal
+        }
       );
 
       if (newBlocks.length > 0) {
-        const blocksWithStatus: ContentBlock[] = newBlocks.map(block => ({
-          ...block,
-          status: BlockStatus.PENDING_REVIEW,
-          revisionHistory: []
-        }));
-
-        const updatedProject = {
-          ...activeProject,
-          blocks: [...activeProject.blocks, ...blocksWithStatus],
-          lastModified: Date.now(),
-          workflowPhase: WorkflowPhase.EXECUTION
-        };
-        setProjects(prev => prev.map(p => p.id === activeProjectId ? updatedProject : p));
+        setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, workflowPhase: WorkflowPhase.EXECUTION } : p));
 
         const successMsg: Message = {
           id: generateId(),
           role: MessageRole.MODEL,
-          content: `✅ Generated ${blocksWithStatus.length} chapters from your blueprint!`,
+          content: controller.signal.aborted
+            ? `⏹️ Generation cancelled. Kept ${newBlocks.length} completed chapters.`
+            : `✅ Generated ${newBlocks.length} chapters from your blueprint!`,
           timestamp: Date.now()
         };
         setMessages(prev => ({ ...prev, [activeProjectId!]: [...(messages[activeProjectId!] || []), successMsg] }));
@@ -516,7 +714,9 @@ const App: React.FC = () => {
         const errorMsg: Message = {
           id: generateId(),
           role: MessageRole.MODEL,
-          content: "Generation failed or produced no content.",
+          content: controller.signal.aborted
+            ? "Generation cancelled before any chapter was completed."
+            : "Generation failed or produced no content.",
           timestamp: Date.now()
         };
         setMessages(prev => ({ ...prev, [activeProjectId!]: [...(messages[activeProjectId!] || []), errorMsg] }));
@@ -525,10 +725,69 @@ const App: React.FC = () => {
     } catch (error) {
       console.error("Blueprint generation error:", error);
     } finally {
+      workflowAbortRef.current = null;
+      setStreamingBlocks({});
       setIsGenerating(false);
     }
   };
 
+  const handleResumeRun = async () => {
+    if (!activeProject || !resumableRun) return;
+    const projectId = activeProject.id;
+    const { completed, total } = getRunProgress(resumableRun);
+
+    setIsGenerating(true);
+    setViewMode('canvas');
+    setShowReviewPanel(true);
+
+    try {
+      const controller = new AbortController();
+      workflowAbortRef.current = controller;
+
+      const newBlocks = await runMultiAgentWorkflow(
+        resumableRun.userRequest,
+        activeProject,
+        (log) => addAgentLog(projectId, log),
+        activeProject.blueprint,
+        {
+          onDraftUpdate: handleDraftUpdate,
+          onBlockComplete: appendWorkflowBlock(projectId),
+          signal: controller.signal,
+          resumeRunId: resumableRun.id
+        }
+      );
+
+      const resumeMsg: Message = {
+        id: generateId(),
+        role: MessageRole.MODEL,
+        content: controller.signal.aborted
+          ? `⏹️ Resume cancelled. Kept ${newBlocks.length} newly completed piece(s).`
+          : `🔁 Resumed run (${completed}/${total} were already done) and completed ${newBlocks.length} more piece(s).`,
+        timestamp: Date.now()
+      };
+      setMessages(prev => ({ ...prev, [projectId]: [...(prev[projectId] || []), resumeMsg] }));
+    } catch (error) {
+      console.error("Resume error:", error);
+    } finally {
+      workflowAbortRef.current = null;
+      setStreamingBlocks({});
+      setIsGenerating(false);
+    }
+  };
+
+  // Drop the checkpoint of a run the user will not resume; an older unfinished run, if any, is offered next
+  const handleDiscardRun = async () => {
+    if (!activeProjectId || !resumableRun) return;
+    const projectId = activeProjectId;
+    try {
+      await deleteRun(resumableRun.id);
+    } catch (error) {
+      console.error('Failed to discard workflow run:', error);
+      return;
+    }
+    setResumableRun(await getResumableRun(projectId));
+  };
+
   const handleMagicEdit = async (blockId: string, action: EditorAction) => {
     if (!activeProject) return;
 
@@ -693,6 +952,24 @@ const App: React.FC = () => {
     downloadAsHtml(activeProject);
   };
 
+  const handleExportEpub = () => {
+    if (!activeProject) return;
+    try {
+      downloadAsEpub(activeProject, bookMetadata);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'EPUB export failed.');
+    }
+  };
+
+  const handleExportDocx = () => {
+    if (!activeProject) return;
+    try {
+      downloadAsDocx(activeProject, bookMetadata);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'DOCX export failed.');
+    }
+  };
+
   const handleExportMetadata = () => {
     if (!activeProject) return;
     downloadMetadata(activeProject);
@@ -721,7 +998,9 @@ const App: React.FC = () => {
         isSynthesizing={isSynthesizing}
         onFolderContextLoaded={handleFolderContextLoaded}
         projectName={activeProject?.title || 'New Project'}
+        project={activeProject}
         bookMetadata={bookMetadata}
+        getCallOptions={getCallOptions}
       />
 
       {/* Main Area */}
@@ -762,13 +1041,57 @@ const App: React.FC = () => {
 
             {/* Model Selector */}
             <ModelSelector
-              selectedProvider={selectedProvider}
-              onSelectProvider={setSelectedProvider}
+              selectedModel={selectedModel}
+              onSelectModel={setSelectedModel}
               compact
             />
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Storage Status */}
+            {storageStatus === 'error' && (
+              <div
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-red-500/10 border border-red-500/20"
+                title={storageError || undefined}
+              >
+                <div className="w-1.5 h-1.5 rounded-full bg-red-400" />
+                <span className="text-[10px] text-red-400 font-medium">{isHydrated ? 'Not Saved' : 'Storage Unavailable'}</span>
+              </div>
+            )}
+
+            {/* Resume Interrupted Run */}
+            {resumableRun && !isGenerating && (
+              <div className="flex items-center rounded-full bg-amber-500/10 border border-amber-500/20 text-amber-400">
+                <button
+                  onClick={handleResumeRun}
+                  className="flex items-center gap-1.5 pl-2.5 pr-1.5 py-1 rounded-l-full hover:bg-amber-500/20 transition-colors"
+                  title={`Unfinished run: ${resumableRun.userRequest}`}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  <span className="text-[10px] font-medium">
+                    Resume ({getRunProgress(resumableRun).completed}/{getRunProgress(resumableRun).total})
+                  </span>
+                </button>
+                <button
+                  onClick={handleDiscardRun}
+                  className="pl-1 pr-2 py-1 rounded-r-full border-l border-amber-500/20 hover:bg-amber-500/20 transition-colors"
+                  title="Discard this run"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+
+            {/* Usage & Cost */}
+            <button
+              onClick={() => setShowUsageReport(!showUsageReport)}
+              className={`flex items-center gap-1 px-2 py-1 rounded-lg transition-all ${showUsageReport ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
+              title="Usage & Cost"
+            >
+              <DollarSign className="w-3.5 h-3.5" />
+              <span className="text-[10px] font-mono">{formatCost(activeProject?.usage?.total.cost || 0).slice(1)}</span>
+            </button>
+
             {/* AI Status */}
             <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/20">
               <div className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
@@ -797,6 +1120,20 @@ const App: React.FC = () => {
                   <BookOpen className="w-4 h-4 text-indigo-400" />
                   Export eBook
                 </button>
+                <button
+                  onClick={handleExportEpub}
+                  className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-300 hover:bg-white/5 transition-colors"
+                >
+                  <BookOpen className="w-4 h-4 text-emerald-400" />
+                  Export EPUB
+                </button>
+                <button
+                  onClick={handleExportDocx}
+                  className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-300 hover:bg-white/5 transition-colors"
+                >
+                  <FileText className="w-4 h-4 text-sky-400" />
+                  Export Manuscript (DOCX)
+                </button>
                 <button
                   onClick={handleExportMetadata}
                   className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-300 hover:bg-white/5 transition-colors"
@@ -840,6 +1177,7 @@ const App: React.FC = () => {
                 onAddBlock={handleAddBlock}
                 onAutoExpand={(id) => handleMagicEdit(id, 'expand')}
                 onMagicEdit={handleMagicEdit}
+                streamingBlocks={Object.values(streamingBlocks)}
               />
             )}
           </div>
@@ -869,6 +1207,25 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Usage Report */}
+          {showUsageReport && activeProject && (
+            <div className="w-72 border-l border-white/[0.06] bg-[rgba(10,10,15,0.95)] backdrop-blur-xl flex-shrink-0">
+              <div className="h-10 border-b border-white/[0.06] flex items-center justify-between px-3">
+                <div className="flex items-center gap-2">
+                  <DollarSign className="w-3.5 h-3.5 text-emerald-400" />
+                  <span className="text-xs font-medium text-white">Usage & Cost</span>
+                </div>
+                <button
+                  onClick={() => setShowUsageReport(false)}
+                  className="p-1 hover:bg-white/10 rounded text-gray-500 transition-colors"
+                >
+                  <PanelRightClose className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <UsageReport usage={activeProject.usage} blocks={activeProject.blocks} budget={activeProject.settings.budget} />
+            </div>
+          )}
+
           {/* Chat (Right) */}
           {showChat && (
             <div className="w-80 border-l border-white/[0.06] bg-[rgba(10,10,15,0.95)] backdrop-blur-xl flex-shrink-0 z-10">
@@ -878,6 +1235,7 @@ const App: React.FC = () => {
                 onSendMessage={handleSendMessage}
                 isGenerating={isGenerating}
                 onGenerateImage={handleGenerateImage}
+                onCancel={handleCancelGeneration}
               />
             </div>
           )}
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { AgentLog } from '../types';
 import { Terminal, Cpu, PenTool, Eye, CheckCircle, Database } from 'lucide-react';
+import { formatCost, formatTokens, totalTokens } from '../services/usageTracker';
 
 interface AgentTerminalProps {
   logs: AgentLog[];
@@ -59,10 +60,25 @@ export const AgentTerminal: React.FC<AgentTerminalProps> = ({ logs }) => {
                  <div className="flex items-center gap-2 mb-1">
                    <span className={`font-bold ${getColor(log.agent).split(' ')[0]}`}>{log.agent}</span>
                    <span className="text-gray-600 text-[10px]">{new Date(log.timestamp).toLocaleTimeString()}</span>
+                   {log.repaired && (
+                     <span className="px-1.5 py-0.5 rounded text-[9px] uppercase tracking-wider text-amber-400 bg-amber-400/10 border border-amber-400/20" title="Output failed schema validation and was repaired">
+                       JSON repaired
+                     </span>
+                   )}
                  </div>
                  <div className="text-gray-300 leading-relaxed">
                    {log.message}
                  </div>
+
+                 {(log.modelUsed || log.usage) && (
+                   <div className="mt-1 text-[10px] text-gray-600" title={log.usage?.estimated ? 'Token count estimated from text length' : undefined}>
+                     {[
+                       log.modelUsed,
+                       log.usage && `${log.usage.estimated ? '~' : ''}${formatTokens(totalTokens(log.usage))} tokens`,
+                       log.usage && formatCost(log.usage.cost)
+                     ].filter(Boolean).join(' · ')}
+                   </div>
+                 )}
                  
                  {log.metadata && (
                    <div className="mt-2 p-2 rounded bg-vibe-800/30 border border-vibe-800 text-gray-500 text-[10px] whitespace-pre-wrap font-mono">
@@ -0,0 +1,231 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { Lock, Unlock, Eye, EyeOff, Check, AlertCircle, Loader2, Trash2, ShieldCheck } from 'lucide-react';
+import { ImageProviderName, ModelProvider } from '../types';
+import { getProvider } from '../services/modelRegistry';
+import { getImageProvider } from '../services/imageRegistry';
+import {
+    ProviderKeys,
+    applyKeys,
+    clearStoredKeys,
+    getActiveKeys,
+    hasStoredKeys,
+    isVaultUnlocked,
+    refreshAvailability,
+    saveKeys,
+    unlockKeys
+} from '../services/apiKeyVault';
+import { getProviderHealth, subscribeHealth } from '../services/providerHealth';
+import { HealthBadge } from './ui/HealthBadge';
+
+const KEY_FIELDS: { provider: ModelProvider | ImageProviderName; label: string; placeholder: string }[] = [
+    { provider: ModelProvider.GEMINI, label: 'Google Gemini', placeholder: 'AIza...' },
+    { provider: ModelProvider.GROQ, label: 'Groq', placeholder: 'gsk_...' },
+    { provider: ModelProvider.DEEPSEEK, label: 'DeepSeek', placeholder: 'sk-...' },
+    { provider: ModelProvider.MISTRAL, label: 'Mistral', placeholder: 'API key' },
+    { provider: ModelProvider.OPENROUTER, label: 'OpenRouter', placeholder: 'sk-or-...' },
+    { provider: ModelProvider.HUGGINGFACE, label: 'Hugging Face', placeholder: 'hf_...' },
+    { provider: ModelProvider.LOCAL, label: 'Local Server URL', placeholder: 'http://localhost:11434/v1' },
+    { provider: ImageProviderName.SD_WEBUI, label: 'Stable Diffusion WebUI URL', placeholder: 'http://127.0.0.1:7860' }
+];
+
+// Fields that take a server address rather than a secret
+const URL_FIELDS: string[] = [ModelProvider.LOCAL, ImageProviderName.SD_WEBUI];
+
+const isImageOnly = (provider: ModelProvider | ImageProviderName): provider is ImageProviderName =>
+    !Object.values(ModelProvider).includes(provider as ModelProvider);
+
+const isConfigured = (provider: ModelProvider | ImageProviderName): boolean | undefined =>
+    isImageOnly(provider) ? getImageProvider(provider)?.isConfigured() : getProvider(provider)?.isConfigured();
+
+const inputClass = 'w-full px-3 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-sm text-white focus:border-indigo-500 focus:outline-none';
+
+export const ApiKeyManager: React.FC = () => {
+    const [locked, setLocked] = useState(() => hasStoredKeys() && !isVaultUnlocked());
+    const [keys, setKeys] = useState<ProviderKeys>(getActiveKeys);
+    const [passphrase, setPassphrase] = useState('');
+    const [revealed, setRevealed] = useState<Set<ModelProvider | ImageProviderName>>(new Set());
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [savedAt, setSavedAt] = useState<number | null>(null);
+    const [, refreshBadges] = useReducer((n: number) => n + 1, 0);
+
+    // Re-render the status badges as health checks come in
+    useEffect(() => subscribeHealth(refreshBadges), []);
+
+    const handleUnlock = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            const stored = await unlockKeys(passphrase);
+            setKeys(stored);
+            applyKeys(stored);
+            setLocked(false);
+            await refreshAvailability();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await saveKeys(keys, passphrase);
+            applyKeys(keys);
+            setSavedAt(Date.now());
+            await refreshAvailability();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleForget = () => {
+        if (!confirm('Delete the saved API keys from this browser? Providers fall back to the .env keys.')) return;
+        clearStoredKeys();
+        setKeys({});
+        setPassphrase('');
+        setLocked(false);
+        setSavedAt(null);
+    };
+
+    const toggleReveal = (provider: ModelProvider | ImageProviderName) => {
+        setRevealed(prev => {
+            const next = new Set(prev);
+            if (next.has(provider)) next.delete(provider);
+            else next.add(provider);
+            return next;
+        });
+    };
+
+    const renderStatus = (provider: ModelProvider | ImageProviderName) => {
+        if (isImageOnly(provider)) {
+            // Image servers are not health-checked; show whether a URL is set
+            return isConfigured(provider)
+                ? <span className="text-[10px] text-emerald-400 flex items-center gap-1"><Check className="w-3 h-3" /> Set</span>
+                : <span className="text-[10px] text-gray-500">Not set</span>;
+        }
+        if (isBusy && isConfigured(provider)) {
+            return <Loader2 className="w-3.5 h-3.5 text-gray-500 animate-spin" />;
+        }
+        return <HealthBadge health={getProviderHealth(provider)} showLatency />;
+    };
+
+    return (
+        <div className="flex-1 p-4 overflow-y-auto space-y-4">
+            {locked ? (
+                /* Unlock Saved Keys */
+                <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-gray-300">
+                        <Lock className="w-4 h-4 text-indigo-400" />
+                        Saved keys are locked
+                    </div>
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+                        className={inputClass}
+                        placeholder="Passphrase"
+                        autoFocus
+                    />
+                    <button
+                        onClick={handleUnlock}
+                        disabled={!passphrase || isBusy}
+                        className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-sm text-white font-medium disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                    >
+                        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+                        Unlock
+                    </button>
+                </div>
+            ) : (
+                <>
+                    {/* Provider Keys */}
+                    {KEY_FIELDS.map(({ provider, label, placeholder }) => {
+                        const usingEnv = !keys[provider] && isConfigured(provider);
+                        const isUrl = URL_FIELDS.includes(provider);
+                        return (
+                            <div key={provider} className="space-y-1.5">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">{label}</label>
+                                    {renderStatus(provider)}
+                                </div>
+                                <div className="relative">
+                                    <input
+                                        type={isUrl || revealed.has(provider) ? 'text' : 'password'}
+                                        value={keys[provider] || ''}
+                                        onChange={(e) => setKeys({ ...keys, [provider]: e.target.value })}
+                                        className={`${inputClass} ${isUrl ? '' : 'pr-9'}`}
+                                        placeholder={usingEnv ? 'Using the .env value' : placeholder}
+                                        autoComplete="off"
+                                        spellCheck={false}
+                                    />
+                                    {!isUrl && (
+                                        <button
+                                            onClick={() => toggleReveal(provider)}
+                                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-gray-300"
+                                            title={revealed.has(provider) ? 'Hide' : 'Show'}
+                                        >
+                                            {revealed.has(provider) ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {/* Save */}
+                    <div className="pt-2 border-t border-white/[0.06] space-y-3">
+                        <div className="space-y-1.5">
+                            <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Passphrase</label>
+                            <input
+                                type="password"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                className={inputClass}
+                                placeholder="Encrypts the keys at rest"
+                            />
+                            <p className="text-[10px] text-gray-500">
+                                Needed to unlock the keys next session. It is never stored; a forgotten passphrase means re-entering the keys.
+                            </p>
+                        </div>
+                        <button
+                            onClick={handleSave}
+                            disabled={!passphrase || isBusy}
+                            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-sm text-white font-medium disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                            Save & Test Keys
+                        </button>
+                        {savedAt && !isBusy && !error && (
+                            <p className="text-xs text-emerald-400 flex items-center gap-1.5">
+                                <Check className="w-3.5 h-3.5" /> Saved and applied. No rebuild needed.
+                            </p>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {error && (
+                <div className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {error}
+                </div>
+            )}
+
+            {hasStoredKeys() && (
+                <button
+                    onClick={handleForget}
+                    className="w-full py-2 text-xs text-gray-500 hover:text-red-400 transition-colors flex items-center justify-center gap-1.5"
+                >
+                    <Trash2 className="w-3.5 h-3.5" /> Forget saved keys
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ApiKeyManager;
@@ -4,10 +4,23 @@ import {
     BookOpen, GripVertical, Plus, RefreshCw, Save,
     Trash2, ChevronDown, ChevronRight, PenTool, Brain, Sparkles, Users, User, Map, Package
 } from 'lucide-react';
-import { Blueprint, BlueprintSection, ProjectSettings, CharacterProfile, Location, Item } from '../../types';
+import { Blueprint, BlueprintSection, ProjectSettings, ProjectBudget, CharacterProfile, Location, Item, AgentRole, ModelProvider, TaskType, ImageDefaults } from '../../types';
 import { AGENT_PERSONAS } from '../../services/agentPersonas';
+import { DEFAULT_MAX_CONCURRENT_TASKS, MAX_CONCURRENT_TASKS_LIMIT } from '../../services/concurrency';
+import { getModelsByProvider } from '../../services/providers';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getImageProviders } from '../../services/imageRegistry';
 import { GlassPanel } from '../ui/GlassPanel';
 
+// Tasks whose model can be pinned per project (images have their own defaults below)
+const MODEL_OVERRIDE_TASKS: { task: TaskType; label: string }[] = [
+    { task: 'planning', label: 'Planning Model' },
+    { task: 'writing', label: 'Writing Model' },
+    { task: 'editing', label: 'Editing Model' },
+    { task: 'critique', label: 'Critique Model' },
+    { task: 'synthesis', label: 'Synthesis Model' },
+    { task: 'quick_response', label: 'Quick Response Model' }
+];
+
 interface BlueprintEditorProps {
     blueprint: Blueprint;
     settings: ProjectSettings;
@@ -44,6 +57,48 @@ export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({
         });
     };
 
+    // Empty input clears the cap
+    const handleBudgetChange = (field: Exclude<keyof ProjectBudget, 'warnAt'>, value: string) => {
+        onUpdateSettings({
+            ...settings,
+            budget: {
+                ...settings.budget,
+                [field]: value === '' ? undefined : Math.max(0, Number(value))
+            }
+        });
+    };
+
+    // Options are encoded as "provider/modelId"; model ids may themselves contain slashes
+    const handleTaskModelChange = (task: TaskType, value: string) => {
+        const taskModels = { ...settings.taskModels };
+        if (value === 'auto') {
+            delete taskModels[task];
+        } else {
+            const separator = value.indexOf('/');
+            const provider = (separator === -1 ? value : value.slice(0, separator)) as ModelProvider;
+            const modelId = separator === -1 ? undefined : value.slice(separator + 1);
+            taskModels[task] = { provider, modelId };
+        }
+        onUpdateSettings({ ...settings, taskModels });
+    };
+
+    const taskModelValue = (task: TaskType): string => {
+        const choice = settings.taskModels?.[task];
+        if (!choice) return 'auto';
+        return choice.modelId ? `${choice.provider}/${choice.modelId}` : choice.provider;
+    };
+
+    // Empty value clears the default
+    const handleImageDefaultChange = (field: keyof ImageDefaults, value: string) => {
+        onUpdateSettings({
+            ...settings,
+            imageDefaults: {
+                ...settings.imageDefaults,
+                [field]: value === '' ? undefined : value
+            }
+        });
+    };
+
     const handleBlueprintMetaChange = (field: keyof Blueprint, value: string) => {
         onUpdateBlueprint({
             ...blueprint,
@@ -240,6 +295,36 @@ export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({
                                 </select>
                             </div>
 
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Author</label>
+                                <input
+                                    value={settings.bookMetadata?.author || ''}
+                                    onChange={(e) => handleSettingChange('author', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="Pen name"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Language</label>
+                                <input
+                                    value={settings.bookMetadata?.language || ''}
+                                    onChange={(e) => handleSettingChange('language', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="en"
+                                />
+                            </div>
+
+                            <div className="col-span-2 space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">ISBN</label>
+                                <input
+                                    value={settings.bookMetadata?.isbn || ''}
+                                    onChange={(e) => handleSettingChange('isbn', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="978-... (optional; EPUBs get a generated identifier otherwise)"
+                                />
+                            </div>
+
                             <div className="space-y-2">
                                 <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Genre</label>
                                 <input
@@ -270,6 +355,168 @@ export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({
                                 />
                             </div>
 
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Parallel Chapters</label>
+                                <select
+                                    value={settings.maxConcurrentTasks ?? DEFAULT_MAX_CONCURRENT_TASKS}
+                                    onChange={(e) => onUpdateSettings({ ...settings, maxConcurrentTasks: Number(e.target.value) })}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                                >
+                                    {Array.from({ length: MAX_CONCURRENT_TASKS_LIMIT }, (_, i) => i + 1).map(n => (
+                                        <option key={n} value={n} className="bg-gray-900 text-white">
+                                            {n === 1 ? '1 (sequential)' : `${n} at once`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Auto-Revision</label>
+                                <select
+                                    value={settings.maxRevisionRounds ?? 0}
+                                    onChange={(e) => onUpdateSettings({ ...settings, maxRevisionRounds: Number(e.target.value) })}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                                >
+                                    {[0, 1, 2, 3].map(n => (
+                                        <option key={n} value={n} className="bg-gray-900 text-white">
+                                            {n === 0 ? 'Off' : `Up to ${n} round${n > 1 ? 's' : ''}`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Revised By</label>
+                                <select
+                                    value={settings.revisionAgent ?? AgentRole.WRITER}
+                                    onChange={(e) => onUpdateSettings({ ...settings, revisionAgent: e.target.value as AgentRole.WRITER | AgentRole.EDITOR })}
+                                    disabled={!settings.maxRevisionRounds}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none disabled:opacity-40"
+                                >
+                                    <option value={AgentRole.WRITER} className="bg-gray-900 text-white">Writer (full rewrite)</option>
+                                    <option value={AgentRole.EDITOR} className="bg-gray-900 text-white">Editor (targeted fixes)</option>
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Run Budget (USD)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={settings.budget?.maxRunCost ?? ''}
+                                    onChange={(e) => handleBudgetChange('maxRunCost', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="No limit"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Project Budget (USD)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    value={settings.budget?.maxProjectCost ?? ''}
+                                    onChange={(e) => handleBudgetChange('maxProjectCost', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="No limit"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Run Token Cap</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={10000}
+                                    value={settings.budget?.maxRunTokens ?? ''}
+                                    onChange={(e) => handleBudgetChange('maxRunTokens', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="No limit"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Project Token Cap</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={100000}
+                                    value={settings.budget?.maxProjectTokens ?? ''}
+                                    onChange={(e) => handleBudgetChange('maxProjectTokens', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="No limit"
+                                />
+                            </div>
+
+                            {MODEL_OVERRIDE_TASKS.map(({ task, label }) => (
+                                <div key={task} className="space-y-2">
+                                    <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">{label}</label>
+                                    <select
+                                        value={taskModelValue(task)}
+                                        onChange={(e) => handleTaskModelChange(task, e.target.value)}
+                                        className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                                    >
+                                        <option value="auto" className="bg-gray-900 text-white">Auto (best for task)</option>
+                                        {Object.values(ModelProvider).map(provider => {
+                                            const models = getModelsByProvider(provider);
+                                            return (
+                                                <optgroup key={provider} label={provider} className="bg-gray-900 text-white">
+                                                    {models.length === 0 ? (
+                                                        <option value={provider}>Default model</option>
+                                                    ) : models.map(model => (
+                                                        <option key={model.modelId} value={`${provider}/${model.modelId}`}>
+                                                            {model.displayName}
+                                                        </option>
+                                                    ))}
+                                                </optgroup>
+                                            );
+                                        })}
+                                    </select>
+                                </div>
+                            ))}
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Image Provider</label>
+                                <select
+                                    value={settings.imageDefaults?.provider || ''}
+                                    onChange={(e) => handleImageDefaultChange('provider', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                                >
+                                    <option value="" className="bg-gray-900 text-white">Auto (first configured)</option>
+                                    {getImageProviders().map(provider => (
+                                        <option key={provider.name} value={provider.name} className="bg-gray-900 text-white">
+                                            {provider.displayName}{provider.isConfigured() ? '' : ' (not configured)'}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Image Aspect Ratio</label>
+                                <select
+                                    value={settings.imageDefaults?.aspectRatio || DEFAULT_ASPECT_RATIO}
+                                    onChange={(e) => handleImageDefaultChange('aspectRatio', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                                >
+                                    {ASPECT_RATIOS.map(ratio => (
+                                        <option key={ratio} value={ratio} className="bg-gray-900 text-white">{ratio}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="col-span-2 space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Image Negative Prompt</label>
+                                <input
+                                    type="text"
+                                    value={settings.imageDefaults?.negativePrompt || ''}
+                                    onChange={(e) => handleImageDefaultChange('negativePrompt', e.target.value)}
+                                    className="w-full px-4 py-2 bg-white/[0.03] border border-white/[0.1] rounded-xl text-white focus:border-indigo-500 focus:outline-none"
+                                    placeholder="e.g. text, watermark, blurry (override per image with /image ... --no ...)"
+                                />
+                            </div>
+
                             <div className="col-span-2 space-y-2">
                                 <label className="text-xs uppercase tracking-widest text-gray-500 font-semibold">Summary / Premise</label>
                                 <textarea
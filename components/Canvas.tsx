@@ -3,6 +3,10 @@ import { Project, ContentBlock, BlockType, BlockStatus, EditorAction } from '../
 import { Edit3, Image as ImageIcon, Move, Plus, Wand2, X, Check, Clock, AlertCircle, BookOpen, FileText, Download, Printer, ChevronDown } from 'lucide-react';
 import { Button } from './ui/Button';
 import ReactMarkdown from 'react-markdown';
+import { MARKDOWN_HAST_OPTIONS, remarkBookExtensions } from '../services/markdown';
+
+// Same footnotes, small caps and scene breaks as the exports
+const REMARK_PLUGINS = [remarkBookExtensions];
 
 // Enhanced Status badge component with glow
 const StatusBadge: React.FC<{ status: BlockStatus }> = ({ status }) => {
@@ -50,6 +54,7 @@ interface CanvasProps {
   onAddBlock: (type: BlockType) => void;
   onAutoExpand: (blockId: string) => void;
   onMagicEdit?: (blockId: string, action: EditorAction) => void;
+  streamingBlocks?: ContentBlock[]; // Live Writer drafts while a workflow runs
 }
 
 export const Canvas: React.FC<CanvasProps> = ({
@@ -58,7 +63,8 @@ export const Canvas: React.FC<CanvasProps> = ({
   onRemoveBlock,
   onAddBlock,
   onAutoExpand,
-  onMagicEdit
+  onMagicEdit,
+  streamingBlocks = []
 }) => {
   const [readMode, setReadMode] = useState(false);
   const [activeMagicBlock, setActiveMagicBlock] = useState<string | null>(null);
@@ -181,7 +187,7 @@ export const Canvas: React.FC<CanvasProps> = ({
               {block.type === BlockType.TEXT ? (
                 readMode ? (
                   <div className="prose prose-invert prose-lg max-w-none font-serif leading-loose text-gray-300 print:text-black">
-                    <ReactMarkdown>{typeof block.content === 'string' ? block.content : ''}</ReactMarkdown>
+                    <ReactMarkdown remarkPlugins={REMARK_PLUGINS} remarkRehypeOptions={MARKDOWN_HAST_OPTIONS}>{typeof block.content === 'string' ? block.content : ''}</ReactMarkdown>
                   </div>
                 ) : (
                   <div className="relative">
@@ -195,20 +201,45 @@ export const Canvas: React.FC<CanvasProps> = ({
                   </div>
                 )
               ) : block.type === BlockType.IMAGE ? (
-                <div className={`relative rounded-lg overflow-hidden border border-vibe-800 bg-black aspect-video flex items-center justify-center transition-colors ${!readMode ? 'group-hover:border-vibe-600' : ''}`}>
-                  {block.content ? (
-                    <img src={block.content} alt="Visual block" className="w-full h-full object-cover" />
-                  ) : (
-                    <div className="text-center text-gray-600">
-                      <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                      <p className="text-xs">Waiting for generation...</p>
-                    </div>
+                <figure>
+                  <div
+                    className={`relative rounded-lg overflow-hidden border border-vibe-800 bg-black flex items-center justify-center transition-colors ${block.metadata?.image ? '' : 'aspect-video'} ${!readMode ? 'group-hover:border-vibe-600' : ''}`}
+                    style={block.metadata?.image ? { aspectRatio: block.metadata.image.aspectRatio.replace(':', ' / ') } : undefined}
+                  >
+                    {block.content ? (
+                      <img src={block.content} alt={block.metadata?.prompt || 'Visual block'} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="text-center text-gray-600">
+                        <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                        <p className="text-xs">Waiting for generation...</p>
+                      </div>
+                    )}
+                  </div>
+                  {!readMode && block.metadata?.image && (
+                    <figcaption className="mt-2 text-[10px] font-mono text-gray-500 truncate" title={block.metadata.prompt}>
+                      {block.metadata.image.modelId} · {block.metadata.image.aspectRatio}
+                      {block.metadata.image.seed !== undefined && ` · seed ${block.metadata.image.seed}`}
+                      {block.metadata.image.negativePrompt && ` · no: ${block.metadata.image.negativePrompt}`}
+                    </figcaption>
                   )}
-                </div>
+                </figure>
               ) : null}
             </div>
           ))}
 
+          {/* Live Drafts - streamed from Writer agents */}
+          {streamingBlocks.filter(draft => !project.blocks.some(b => b.id === draft.id)).map(streamingBlock => (
+            <div key={streamingBlock.id} className="relative rounded-lg border border-indigo-500/20 bg-indigo-500/[0.03] p-4 print:hidden">
+              <div className="flex items-center gap-2 mb-3 text-[10px] font-mono uppercase tracking-widest text-indigo-300">
+                <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse" />
+                Writing{streamingBlock.metadata?.title ? `: ${streamingBlock.metadata.title}` : '...'}
+              </div>
+              <div className="prose prose-invert prose-lg max-w-none font-serif leading-loose text-gray-300">
+                <ReactMarkdown remarkPlugins={REMARK_PLUGINS} remarkRehypeOptions={MARKDOWN_HAST_OPTIONS}>{streamingBlock.content}</ReactMarkdown>
+              </div>
+            </div>
+          ))}
+
           {/* Add Block Trigger - Hidden in Print */}
           {!readMode && (
             <div className="h-20 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity duration-300 print:hidden">
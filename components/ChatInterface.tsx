@@ -3,7 +3,7 @@ import ReactMarkdown from 'react-markdown';
 import { Message, MessageRole, AgentLog } from '../types';
 import {
   Send, RefreshCw, ThumbsUp, ThumbsDown, Copy, Check,
-  ChevronUp, Sparkles, Mic, Plus
+  ChevronUp, Sparkles, Mic, Plus, Square
 } from 'lucide-react';
 import { AgentTerminal } from './AgentTerminal';
 
@@ -13,6 +13,7 @@ interface ChatInterfaceProps {
   onSendMessage: (text: string) => void;
   isGenerating: boolean;
   onGenerateImage: (prompt: string) => void;
+  onCancel?: () => void; // Stops a running agent workflow
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -20,7 +21,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   agentLogs,
   onSendMessage,
   isGenerating,
-  onGenerateImage
+  onGenerateImage,
+  onCancel
 }) => {
   const [input, setInput] = useState('');
   const [showTerminal, setShowTerminal] = useState(false);
@@ -304,23 +306,34 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <Mic className="w-4 h-4" />
               </button>
 
-              <button
-                type="submit"
-                disabled={!input.trim() || isGenerating}
-                className={`
-                  p-1.5 rounded-lg transition-all
-                  ${input.trim() && !isGenerating
-                    ? 'bg-indigo-600 text-white hover:bg-indigo-500'
-                    : 'text-gray-600'
-                  }
-                `}
-              >
-                {isGenerating ? (
-                  <RefreshCw className="w-4 h-4 animate-spin" />
-                ) : (
-                  <Send className="w-4 h-4" />
-                )}
-              </button>
+              {isGenerating && onCancel ? (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="p-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-all"
+                  title="Stop generation"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() || isGenerating}
+                  className={`
+                    p-1.5 rounded-lg transition-all
+                    ${input.trim() && !isGenerating
+                      ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                      : 'text-gray-600'
+                    }
+                  `}
+                >
+                  {isGenerating ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4" />
+                  )}
+                </button>
+              )}
             </div>
           </div>
         </form>
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import {
     BookOpen, Sparkles, Tag, List, FileText,
     Copy, Check, AlertCircle, Loader2, RefreshCw,
-    Package, Ruler
+    Package, Ruler, Printer, Image as ImageIcon, Download
 } from 'lucide-react';
 import { GlassPanel } from './ui/GlassPanel';
 import { ProgressBar } from './ui/ProgressBar';
@@ -12,18 +12,27 @@ import {
     formatForKDP,
     calculateCoverSpecs,
     KDPMetadata,
-    POPULAR_CATEGORIES
+    POPULAR_CATEGORIES,
+    TRIM_SIZES
 } from '../services/kdpHelper';
+import { downloadPrintInterior } from '../services/printInterior';
+import { CoverDesign, downloadCover, renderCover } from '../services/coverComposer';
 import { BookMetadata } from '../services/workspaceManager';
+import { isBudgetExceeded } from '../services/budget';
+import { BlockType, GenerateOptions, Project } from '../types';
 
 interface KDPPanelProps {
+    project?: Project | null; // Typeset for the print interior
     bookMetadata: BookMetadata;
     onMetadataUpdate?: (metadata: KDPMetadata) => void;
+    getCallOptions?: () => GenerateOptions; // Fresh budget per generation
 }
 
 export const KDPPanel: React.FC<KDPPanelProps> = ({
+    project,
     bookMetadata,
-    onMetadataUpdate
+    onMetadataUpdate,
+    getCallOptions
 }) => {
     const [kdpMetadata, setKdpMetadata] = useState<KDPMetadata | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
@@ -31,26 +40,39 @@ export const KDPPanel: React.FC<KDPPanelProps> = ({
     const [copied, setCopied] = useState(false);
     const [activeTab, setActiveTab] = useState<'metadata' | 'cover' | 'preview'>('metadata');
     const [pageCount, setPageCount] = useState(200);
+    const [trimSize, setTrimSize] = useState('6x9');
+    const [paperType, setPaperType] = useState<'white' | 'cream'>('cream');
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [interiorPages, setInteriorPages] = useState<number | null>(null);
+    const [coverArtId, setCoverArtId] = useState('');
+    const [showGuides, setShowGuides] = useState(true);
+    const [coverPreview, setCoverPreview] = useState<string | null>(null);
+    const [isComposing, setIsComposing] = useState(false);
+    const [coverError, setCoverError] = useState<string | null>(null);
+    const [budgetError, setBudgetError] = useState<string | null>(null);
 
     const handleGenerate = async () => {
         setIsGenerating(true);
         setProgress(0);
+        setBudgetError(null);
 
-        try {
-            // Simulate progress
-            const progressInterval = setInterval(() => {
-                setProgress(prev => Math.min(prev + 10, 90));
-            }, 500);
+        // Simulate progress
+        const progressInterval = setInterval(() => {
+            setProgress(prev => Math.min(prev + 10, 90));
+        }, 500);
 
-            const metadata = await generateKDPMetadata(bookMetadata);
+        try {
+            const metadata = await generateKDPMetadata(bookMetadata, getCallOptions?.());
 
-            clearInterval(progressInterval);
             setProgress(100);
             setKdpMetadata(metadata);
             onMetadataUpdate?.(metadata);
         } catch (error) {
+            if (isBudgetExceeded(error)) setBudgetError(error.message);
             console.error('Error generating KDP metadata:', error);
         } finally {
+            clearInterval(progressInterval);
             setIsGenerating(false);
         }
     };
@@ -63,12 +85,56 @@ export const KDPPanel: React.FC<KDPPanelProps> = ({
         }
     };
 
+    // The typeset page count replaces the estimate, so the cover specs match the interior
+    const handleExportInterior = async () => {
+        if (!project) return;
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            const interior = await downloadPrintInterior(project, bookMetadata, { trimSize });
+            setPageCount(interior.pageCount);
+            setInteriorPages(interior.pageCount);
+        } catch (error) {
+            console.error('Error exporting print interior:', error);
+            setExportError(error instanceof Error ? error.message : 'Print export failed');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     const validation = kdpMetadata ? validateKDPMetadata(kdpMetadata) : null;
-    const coverSpecs = calculateCoverSpecs(pageCount);
+    const coverSpecs = calculateCoverSpecs(pageCount, trimSize, paperType);
+
+    const imageBlocks = project?.blocks.filter(b => b.type === BlockType.IMAGE && b.content) ?? [];
+    const coverDesign: CoverDesign = {
+        title: bookMetadata.title,
+        subtitle: bookMetadata.subtitle,
+        author: bookMetadata.author,
+        blurb: kdpMetadata?.description || bookMetadata.description,
+        artUrl: (imageBlocks.find(b => b.id === coverArtId) ?? imageBlocks[0])?.content
+    };
+
+    const handleCover = async (action: 'preview' | 'png' | 'pdf') => {
+        setIsComposing(true);
+        setCoverError(null);
+        try {
+            if (action === 'preview') {
+                const canvas = await renderCover(coverSpecs, { ...coverDesign, showGuides });
+                setCoverPreview(canvas.toDataURL('image/jpeg', 0.7));
+            } else {
+                await downloadCover(coverSpecs, coverDesign, action);
+            }
+        } catch (error) {
+            console.error('Error composing cover:', error);
+            setCoverError(error instanceof Error ? error.message : 'Cover export failed');
+        } finally {
+            setIsComposing(false);
+        }
+    };
 
     const tabs = [
         { id: 'metadata', label: 'Metadata', icon: <Tag className="w-4 h-4" /> },
-        { id: 'cover', label: 'Cover Specs', icon: <Ruler className="w-4 h-4" /> },
+        { id: 'cover', label: 'Print', icon: <Ruler className="w-4 h-4" /> },
         { id: 'preview', label: 'Preview', icon: <FileText className="w-4 h-4" /> }
     ];
 
@@ -134,6 +200,14 @@ export const KDPPanel: React.FC<KDPPanelProps> = ({
                             </div>
                         )}
 
+                        {/* Budget Stop */}
+                        {budgetError && !isGenerating && (
+                            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                {budgetError}
+                            </div>
+                        )}
+
                         {/* Generated Metadata */}
                         {kdpMetadata && (
                             <div className="space-y-4 animate-fade-in-up">
@@ -223,10 +297,61 @@ export const KDPPanel: React.FC<KDPPanelProps> = ({
 
                 {activeTab === 'cover' && (
                     <div className="space-y-4">
+                        {/* Trim Size & Paper */}
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-mono">
+                                    Trim Size
+                                </label>
+                                <select
+                                    value={trimSize}
+                                    onChange={(e) => {
+                                        setTrimSize(e.target.value);
+                                        setInteriorPages(null);
+                                    }}
+                                    className="w-full px-4 py-3 bg-white/[0.03] border border-white/[0.08] rounded-xl text-white focus:border-orange-500 focus:outline-none"
+                                >
+                                    {Object.keys(TRIM_SIZES).map(size => (
+                                        <option key={size} value={size}>{size.replace('x', '" × ')}"</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-xs uppercase tracking-widest text-gray-500 font-mono">
+                                    Paper
+                                </label>
+                                <select
+                                    value={paperType}
+                                    onChange={(e) => setPaperType(e.target.value as 'white' | 'cream')}
+                                    className="w-full px-4 py-3 bg-white/[0.03] border border-white/[0.08] rounded-xl text-white focus:border-orange-500 focus:outline-none"
+                                >
+                                    <option value="cream">Cream</option>
+                                    <option value="white">White</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Print Interior */}
+                        <button
+                            onClick={handleExportInterior}
+                            disabled={!project || isExporting}
+                            className="w-full py-3 bg-gradient-to-r from-orange-500 to-red-500 rounded-xl text-white font-semibold disabled:opacity-50 hover:shadow-lg hover:shadow-orange-500/30 transition-all flex items-center justify-center gap-3"
+                        >
+                            {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Printer className="w-5 h-5" />}
+                            {isExporting ? 'Typesetting...' : 'Export Print Interior (PDF)'}
+                        </button>
+
+                        {exportError && !isExporting && (
+                            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                {exportError}
+                            </div>
+                        )}
+
                         {/* Page Count Input */}
                         <div className="space-y-2">
                             <label className="text-xs uppercase tracking-widest text-gray-500 font-mono">
-                                Page Count
+                                Page Count {interiorPages === pageCount && '(from interior)'}
                             </label>
                             <input
                                 type="number"
@@ -260,9 +385,83 @@ export const KDPPanel: React.FC<KDPPanelProps> = ({
                             </div>
 
                             <p className="text-xs text-gray-500 mt-4">
-                                At {coverSpecs.dpi} DPI • Includes 0.125" bleed
+                                At {coverSpecs.dpi} DPI • Includes {coverSpecs.bleed}" bleed • {coverSpecs.spineText ? 'Spine text allowed' : 'No spine text under 80 pages'}
                             </p>
                         </GlassPanel>
+
+                        {/* Cover Composer */}
+                        <GlassPanel variant="card" padding="lg">
+                            <h4 className="text-sm font-semibold text-white mb-4">Full-Wrap Cover</h4>
+
+                            <div className="space-y-3">
+                                <div className="space-y-2">
+                                    <label className="text-xs uppercase tracking-widest text-gray-500 font-mono">
+                                        Front Art
+                                    </label>
+                                    <select
+                                        value={coverArtId}
+                                        onChange={(e) => setCoverArtId(e.target.value)}
+                                        disabled={imageBlocks.length === 0}
+                                        className="w-full px-4 py-3 bg-white/[0.03] border border-white/[0.08] rounded-xl text-white focus:border-orange-500 focus:outline-none disabled:opacity-50"
+                                    >
+                                        {imageBlocks.length === 0 && <option value="">No image blocks</option>}
+                                        {imageBlocks.map((block, i) => (
+                                            <option key={block.id} value={block.id}>
+                                                {block.metadata?.prompt?.slice(0, 60) || `Image ${i + 1}`}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <label className="flex items-center gap-2 text-sm text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={showGuides}
+                                        onChange={(e) => setShowGuides(e.target.checked)}
+                                        className="accent-orange-500"
+                                    />
+                                    Show bleed, trim and barcode guides in preview
+                                </label>
+
+                                {coverPreview && (
+                                    <img src={coverPreview} alt="Cover preview" className="w-full rounded-lg border border-white/[0.08]" />
+                                )}
+
+                                {coverError && !isComposing && (
+                                    <div className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                        {coverError}
+                                    </div>
+                                )}
+
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleCover('preview')}
+                                        disabled={isComposing}
+                                        className="flex-1 py-2 bg-white/10 rounded-xl text-white text-sm font-medium hover:bg-white/15 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        {isComposing ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />}
+                                        Preview
+                                    </button>
+                                    <button
+                                        onClick={() => handleCover('png')}
+                                        disabled={isComposing}
+                                        className="flex-1 py-2 bg-white/10 rounded-xl text-white text-sm font-medium hover:bg-white/15 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <Download className="w-4 h-4" />
+                                        PNG
+                                    </button>
+                                    <button
+                                        onClick={() => handleCover('pdf')}
+                                        disabled={isComposing}
+                                        className="flex-1 py-2 bg-white/10 rounded-xl text-white text-sm font-medium hover:bg-white/15 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <Download className="w-4 h-4" />
+                                        PDF
+                                    </button>
+                                </div>
+                            </div>
+                        </GlassPanel>
                     </div>
                 )}
 
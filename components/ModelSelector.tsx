@@ -1,11 +1,13 @@
 import React from 'react';
-import { ModelProvider, ModelConfig } from '../types';
-import { getAllModels, getAvailableProviders } from '../services/providers';
-import { Cpu, Zap, Brain, Sparkles, ChevronDown } from 'lucide-react';
+import { ModelProvider, ModelChoice, ModelCapability } from '../types';
+import { getAvailableProviders, getModelsByProvider } from '../services/providers';
+import { getProviderHealth, subscribeHealth } from '../services/providerHealth';
+import { HealthBadge } from './ui/HealthBadge';
+import { Cpu, Zap, Brain, Sparkles, ChevronDown, HardDrive, Eye, FileText } from 'lucide-react';
 
 interface ModelSelectorProps {
-    selectedProvider: ModelProvider | 'auto';
-    onSelectProvider: (provider: ModelProvider | 'auto') => void;
+    selectedModel: ModelChoice | 'auto';
+    onSelectModel: (model: ModelChoice | 'auto') => void;
     compact?: boolean;
 }
 
@@ -16,7 +18,8 @@ const PROVIDER_ICONS: Record<ModelProvider | 'auto', React.ReactNode> = {
     [ModelProvider.DEEPSEEK]: <Brain className="w-4 h-4" />,
     [ModelProvider.MISTRAL]: <Cpu className="w-4 h-4" />,
     [ModelProvider.OPENROUTER]: <Cpu className="w-4 h-4" />,
-    [ModelProvider.HUGGINGFACE]: <Cpu className="w-4 h-4" />
+    [ModelProvider.HUGGINGFACE]: <Cpu className="w-4 h-4" />,
+    [ModelProvider.LOCAL]: <HardDrive className="w-4 h-4" />
 };
 
 const PROVIDER_COLORS: Record<ModelProvider | 'auto', string> = {
@@ -26,7 +29,8 @@ const PROVIDER_COLORS: Record<ModelProvider | 'auto', string> = {
     [ModelProvider.DEEPSEEK]: 'text-purple-400',
     [ModelProvider.MISTRAL]: 'text-cyan-400',
     [ModelProvider.OPENROUTER]: 'text-green-400',
-    [ModelProvider.HUGGINGFACE]: 'text-yellow-400'
+    [ModelProvider.HUGGINGFACE]: 'text-yellow-400',
+    [ModelProvider.LOCAL]: 'text-lime-400'
 };
 
 const PROVIDER_NAMES: Record<ModelProvider | 'auto', string> = {
@@ -36,31 +40,56 @@ const PROVIDER_NAMES: Record<ModelProvider | 'auto', string> = {
     [ModelProvider.DEEPSEEK]: 'DeepSeek (Reasoning)',
     [ModelProvider.MISTRAL]: 'Mistral (Quality)',
     [ModelProvider.OPENROUTER]: 'OpenRouter',
-    [ModelProvider.HUGGINGFACE]: 'Hugging Face'
+    [ModelProvider.HUGGINGFACE]: 'Hugging Face',
+    [ModelProvider.LOCAL]: 'Local (Offline)'
+};
+
+// One entry per registry model; providers without registry models are offered at their default
+const modelOptions = (provider: ModelProvider): { modelId?: string; label: string; description?: string; capabilities?: ModelCapability[] }[] => {
+    const models = getModelsByProvider(provider);
+    if (models.length === 0) return [{ label: 'Default model' }];
+    return models.map(m => ({ modelId: m.modelId, label: m.displayName, description: m.description, capabilities: m.capabilities }));
+};
+
+const isSameChoice = (a: ModelChoice | 'auto', b: ModelChoice | 'auto'): boolean =>
+    a === 'auto' || b === 'auto'
+        ? a === b
+        : a.provider === b.provider && (a.modelId || '') === (b.modelId || '');
+
+const choiceLabel = (choice: ModelChoice | 'auto'): string => {
+    if (choice === 'auto') return PROVIDER_NAMES.auto;
+    const model = getModelsByProvider(choice.provider).find(m => m.modelId === choice.modelId);
+    return model?.displayName || PROVIDER_NAMES[choice.provider];
 };
 
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
-    selectedProvider,
-    onSelectProvider,
+    selectedModel,
+    onSelectModel,
     compact = false
 }) => {
     const [isOpen, setIsOpen] = React.useState(false);
+    const [, refreshHealth] = React.useReducer((n: number) => n + 1, 0);
     const availableProviders = getAvailableProviders();
 
-    const allOptions: (ModelProvider | 'auto')[] = [
-        'auto',
-        ...Object.values(ModelProvider)
-    ];
+    // Live status badges
+    React.useEffect(() => subscribeHealth(refreshHealth), []);
+    const selectedKey = selectedModel === 'auto' ? 'auto' : selectedModel.provider;
 
-    const handleSelect = (provider: ModelProvider | 'auto') => {
-        onSelectProvider(provider);
+    const handleSelect = (model: ModelChoice | 'auto') => {
+        onSelectModel(model);
         setIsOpen(false);
     };
 
-    const isProviderAvailable = (provider: ModelProvider | 'auto'): boolean => {
-        if (provider === 'auto') return availableProviders.length > 0;
-        return availableProviders.includes(provider);
-    };
+    const optionClass = (selected: boolean, available: boolean) => `
+                      w-full flex items-center gap-3 px-3 py-2 rounded-lg
+                      transition-all duration-150
+                      ${selected
+            ? 'bg-vibe-accent/20 text-vibe-accent'
+            : available
+                ? 'hover:bg-vibe-800 text-gray-300'
+                : 'opacity-40 cursor-not-allowed text-gray-500'
+        }
+                    `;
 
     return (
         <div className="relative">
@@ -75,12 +104,13 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           ${compact ? 'text-xs' : 'text-sm'}
         `}
             >
-                <span className={PROVIDER_COLORS[selectedProvider]}>
-                    {PROVIDER_ICONS[selectedProvider]}
+                <span className={PROVIDER_COLORS[selectedKey]}>
+                    {PROVIDER_ICONS[selectedKey]}
                 </span>
+                {selectedModel !== 'auto' && <HealthBadge health={getProviderHealth(selectedModel.provider)} />}
                 {!compact && (
                     <span className="text-gray-300">
-                        {PROVIDER_NAMES[selectedProvider]}
+                        {choiceLabel(selectedModel)}
                     </span>
                 )}
                 <ChevronDown className={`w-3 h-3 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
@@ -96,47 +126,74 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                     />
 
                     {/* Menu */}
-                    <div className="absolute top-full left-0 mt-2 w-64 bg-vibe-900 border border-vibe-700 rounded-xl shadow-2xl z-50 overflow-hidden">
-                        <div className="p-2">
+                    <div className="absolute top-full left-0 mt-2 w-72 bg-vibe-900 border border-vibe-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+                        <div className="p-2 max-h-[70vh] overflow-y-auto">
                             <p className="text-[10px] uppercase tracking-widest text-gray-500 px-3 py-2">
-                                Select AI Provider
+                                Select AI Model
                             </p>
 
-                            {allOptions.map((provider) => {
-                                const available = isProviderAvailable(provider);
+                            <button
+                                onClick={() => availableProviders.length > 0 && handleSelect('auto')}
+                                disabled={availableProviders.length === 0}
+                                className={optionClass(selectedModel === 'auto', availableProviders.length > 0)}
+                            >
+                                <span className={PROVIDER_COLORS.auto}>{PROVIDER_ICONS.auto}</span>
+                                <div className="flex-1 text-left text-sm font-medium">{PROVIDER_NAMES.auto}</div>
+                                {selectedModel === 'auto' && (
+                                    <div className="w-2 h-2 rounded-full bg-vibe-accent" />
+                                )}
+                            </button>
+
+                            {Object.values(ModelProvider).map((provider) => {
+                                const available = availableProviders.includes(provider);
                                 return (
-                                    <button
-                                        key={provider}
-                                        onClick={() => available && handleSelect(provider)}
-                                        disabled={!available}
-                                        className={`
-                      w-full flex items-center gap-3 px-3 py-2.5 rounded-lg
-                      transition-all duration-150
-                      ${selectedProvider === provider
-                                                ? 'bg-vibe-accent/20 text-vibe-accent'
-                                                : available
-                                                    ? 'hover:bg-vibe-800 text-gray-300'
-                                                    : 'opacity-40 cursor-not-allowed text-gray-500'
-                                            }
-                    `}
-                                    >
-                                        <span className={available ? PROVIDER_COLORS[provider] : 'text-gray-600'}>
-                                            {PROVIDER_ICONS[provider]}
-                                        </span>
-                                        <div className="flex-1 text-left">
-                                            <div className="text-sm font-medium">
+                                    <div key={provider} className="mt-2">
+                                        <div className="flex items-center gap-2 px-3 py-1">
+                                            <span className={available ? PROVIDER_COLORS[provider] : 'text-gray-600'}>
+                                                {PROVIDER_ICONS[provider]}
+                                            </span>
+                                            <span className="text-[10px] uppercase tracking-widest text-gray-500">
                                                 {PROVIDER_NAMES[provider]}
-                                            </div>
-                                            {!available && provider !== 'auto' && (
-                                                <div className="text-[10px] text-gray-600">
-                                                    API key not configured
-                                                </div>
+                                            </span>
+                                            {available && (
+                                                <span className="ml-auto">
+                                                    <HealthBadge health={getProviderHealth(provider)} showLatency />
+                                                </span>
+                                            )}
+                                            {!available && (
+                                                <span className="text-[10px] text-gray-600 ml-auto">
+                                                    {provider === ModelProvider.LOCAL ? 'Server URL not configured' : 'API key not configured'}
+                                                </span>
                                             )}
                                         </div>
-                                        {selectedProvider === provider && (
-                                            <div className="w-2 h-2 rounded-full bg-vibe-accent" />
-                                        )}
-                                    </button>
+
+                                        {modelOptions(provider).map((option) => {
+                                            const choice: ModelChoice = { provider, modelId: option.modelId };
+                                            const selected = isSameChoice(selectedModel, choice);
+                                            return (
+                                                <button
+                                                    key={option.modelId || 'default'}
+                                                    onClick={() => available && handleSelect(choice)}
+                                                    disabled={!available}
+                                                    title={option.description}
+                                                    className={optionClass(selected, available)}
+                                                >
+                                                    <div className="flex-1 text-left text-sm pl-6">
+                                                        {option.label}
+                                                    </div>
+                                                    {option.capabilities?.includes('vision') && (
+                                                        <Eye className="w-3 h-3 text-gray-500" aria-label="Reads images" />
+                                                    )}
+                                                    {option.capabilities?.includes('pdf') && (
+                                                        <FileText className="w-3 h-3 text-gray-500" aria-label="Reads PDFs" />
+                                                    )}
+                                                    {selected && (
+                                                        <div className="w-2 h-2 rounded-full bg-vibe-accent" />
+                                                    )}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
                                 );
                             })}
                         </div>
@@ -144,7 +201,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                         {/* Footer hint */}
                         <div className="border-t border-vibe-800 px-4 py-3 bg-vibe-800/30">
                             <p className="text-[10px] text-gray-500">
-                                Add API keys in <code className="text-vibe-accent">.env.local</code> to enable more providers
+                                Add API keys in <span className="text-vibe-accent">Settings</span> to enable more providers
                             </p>
                         </div>
                     </div>
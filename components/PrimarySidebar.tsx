@@ -6,9 +6,11 @@ import { FolderContextPanel } from './FolderContextPanel';
 import { WorkspacePanel } from './WorkspacePanel';
 import { KDPPanel } from './KDPPanel';
 import { SocialMediaPanel } from './SocialMediaPanel';
+import { SettingsPanel } from './SettingsPanel';
 import { InputHubState } from '../types/inputs';
 import { BookMetadata } from '../services/workspaceManager';
 import { ProjectContext } from '../services/folderContext';
+import { GenerateOptions, Project } from '../types';
 
 interface PrimarySidebarProps {
     activeView: ActivityView;
@@ -27,7 +29,9 @@ interface PrimarySidebarProps {
     projectName: string;
 
     // Book metadata for KDP/Social
+    project?: Project | null; // For the print interior export
     bookMetadata: BookMetadata;
+    getCallOptions?: () => GenerateOptions;
 }
 
 export const PrimarySidebar: React.FC<PrimarySidebarProps> = ({
@@ -39,9 +43,11 @@ export const PrimarySidebar: React.FC<PrimarySidebarProps> = ({
     isSynthesizing,
     onFolderContextLoaded,
     projectName,
-    bookMetadata
+    project,
+    bookMetadata,
+    getCallOptions
 }) => {
-    if (collapsed || activeView === 'settings') {
+    if (collapsed) {
         return null;
     }
 
@@ -74,7 +80,9 @@ export const PrimarySidebar: React.FC<PrimarySidebarProps> = ({
             case 'kdp':
                 return (
                     <KDPPanel
+                        project={project}
                         bookMetadata={bookMetadata}
+                        getCallOptions={getCallOptions}
                     />
                 );
 
@@ -82,9 +90,13 @@ export const PrimarySidebar: React.FC<PrimarySidebarProps> = ({
                 return (
                     <SocialMediaPanel
                         bookMetadata={bookMetadata}
+                        getCallOptions={getCallOptions}
                     />
                 );
 
+            case 'settings':
+                return <SettingsPanel />;
+
             default:
                 return null;
         }
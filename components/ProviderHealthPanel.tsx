@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, RefreshCw, Loader2 } from 'lucide-react';
+import { getProvider } from '../services/modelRegistry';
+import { getCircuitStatus } from '../services/providerRouter';
+import { ProviderHealth, getAllProviderHealth, subscribeHealth } from '../services/providerHealth';
+import { refreshAvailability } from '../services/apiKeyVault';
+import { HealthBadge, formatLatency } from './ui/HealthBadge';
+
+const SPARKLINE_SAMPLES = 20;
+
+const timeAgo = (timestamp?: number): string => {
+    if (!timestamp) return 'never';
+    const seconds = Math.round((Date.now() - timestamp) / 1000);
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+    return new Date(timestamp).toLocaleTimeString();
+};
+
+const HealthRow: React.FC<{ health: ProviderHealth }> = ({ health }) => {
+    const circuit = getCircuitStatus(health.provider);
+    const recent = health.samples.slice(-SPARKLINE_SAMPLES);
+
+    return (
+        <div className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.04] space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                    <HealthBadge health={health} />
+                    <span className="text-sm text-gray-200 truncate">{getProvider(health.provider)?.displayName || health.provider}</span>
+                </div>
+                {circuit !== 'closed' && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-500/10 text-red-300 font-mono">
+                        {circuit === 'open' ? 'circuit open' : 'trial call'}
+                    </span>
+                )}
+            </div>
+
+            {health.status !== 'unconfigured' && (
+                <>
+                    {/* Recent calls, oldest first: green ok, amber rate-limited, red failed */}
+                    {recent.length > 0 && (
+                        <div className="flex items-end gap-px h-4">
+                            {recent.map((sample, i) => (
+                                <div
+                                    key={i}
+                                    title={`${sample.source} · ${formatLatency(sample.latencyMs)}`}
+                                    className={`flex-1 rounded-sm ${sample.ok ? 'bg-emerald-500/60' : sample.rateLimited ? 'bg-amber-500/70' : 'bg-red-500/70'}`}
+                                    style={{ height: sample.ok ? '100%' : '50%' }}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] font-mono text-gray-500">
+                        <span>Latency <span className="text-gray-300">{formatLatency(health.avgLatencyMs)}</span></span>
+                        <span>Errors <span className="text-gray-300">{Math.round(health.errorRate * 100)}%</span></span>
+                        <span>Rate limits <span className={health.rateLimitHits ? 'text-amber-400' : 'text-gray-300'}>{health.rateLimitHits}</span></span>
+                        <span>Last ok <span className="text-gray-300">{timeAgo(health.lastSuccess)}</span></span>
+                    </div>
+
+                    {health.lastError && health.lastErrorAt && health.lastErrorAt > (health.lastSuccess || 0) && (
+                        <p className="text-[10px] text-red-400/80 truncate" title={health.lastError}>
+                            {health.lastError}
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export const ProviderHealthPanel: React.FC = () => {
+    const [health, setHealth] = useState<ProviderHealth[]>(getAllProviderHealth);
+    const [isChecking, setIsChecking] = useState(false);
+
+    useEffect(() => {
+        const refresh = () => setHealth(getAllProviderHealth());
+        // Also tick so "last ok" times and circuit cooldowns stay current
+        const timer = setInterval(refresh, 15_000);
+        const unsubscribe = subscribeHealth(refresh);
+        return () => {
+            clearInterval(timer);
+            unsubscribe();
+        };
+    }, []);
+
+    const handleCheckNow = async () => {
+        setIsChecking(true);
+        try {
+            await refreshAvailability();
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const configured = health.filter(h => h.status !== 'unconfigured');
+    const unconfigured = health.filter(h => h.status === 'unconfigured');
+
+    return (
+        <div className="flex-1 p-4 overflow-y-auto space-y-3">
+            <button
+                onClick={handleCheckNow}
+                disabled={isChecking}
+                className="w-full py-2 bg-white/[0.03] hover:bg-white/[0.06] border border-white/[0.08] rounded-xl text-sm text-gray-300 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+            >
+                {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Check All Now
+            </button>
+
+            {configured.length === 0 && (
+                <div className="p-6 text-center text-gray-500">
+                    <Activity className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No providers configured.</p>
+                    <p className="text-xs mt-1">Add a key under Keys to start monitoring.</p>
+                </div>
+            )}
+
+            {configured.map(h => <HealthRow key={h.provider} health={h} />)}
+
+            {unconfigured.length > 0 && (
+                <p className="text-[10px] text-gray-600 px-1">
+                    Not configured: {unconfigured.map(h => getProvider(h.provider)?.displayName || h.provider).join(', ')}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ProviderHealthPanel;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Settings, KeyRound, Activity } from 'lucide-react';
+import { ApiKeyManager } from './ApiKeyManager';
+import { ProviderHealthPanel } from './ProviderHealthPanel';
+
+export const SettingsPanel: React.FC = () => {
+    const [activeTab, setActiveTab] = useState<'keys' | 'health'>('keys');
+
+    const tabs = [
+        { id: 'keys', label: 'Keys', icon: <KeyRound className="w-4 h-4" /> },
+        { id: 'health', label: 'Health', icon: <Activity className="w-4 h-4" /> }
+    ];
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Header */}
+            <div className="p-6 border-b border-white/[0.06]">
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-slate-500 to-gray-700 flex items-center justify-center">
+                        <Settings className="w-5 h-5 text-white" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-semibold text-white font-display">Settings</h2>
+                        <p className="text-xs text-gray-500">AI providers and keys</p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex gap-1 p-2 mx-4 mt-4 bg-white/[0.02] rounded-xl">
+                {tabs.map(tab => (
+                    <button
+                        key={tab.id}
+                        onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                        className={`
+              flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all
+              ${activeTab === tab.id
+                                ? 'bg-indigo-500/20 text-indigo-300'
+                                : 'text-gray-500 hover:text-gray-300 hover:bg-white/[0.03]'
+                            }
+            `}
+                    >
+                        {tab.icon}
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Content */}
+            {activeTab === 'keys' ? <ApiKeyManager /> : <ProviderHealthPanel />}
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import {
     Share2, Twitter, Instagram, Linkedin, Hash,
     Calendar, Copy, Check, Loader2, RefreshCw,
-    MessageSquare, Image, Sparkles, ChevronRight
+    MessageSquare, Image, Sparkles, ChevronRight, AlertCircle
 } from 'lucide-react';
 import { GlassPanel } from './ui/GlassPanel';
 import { ProgressBar } from './ui/ProgressBar';
@@ -16,9 +16,12 @@ import {
     PLATFORM_LIMITS
 } from '../services/socialMediaGenerator';
 import { BookMetadata } from '../services/workspaceManager';
+import { isBudgetExceeded } from '../services/budget';
+import { GenerateOptions } from '../types';
 
 interface SocialMediaPanelProps {
     bookMetadata: BookMetadata;
+    getCallOptions?: () => GenerateOptions; // Fresh budget per generation
 }
 
 const PLATFORMS: { id: Platform; name: string; icon: React.ReactNode; color: string }[] = [
@@ -35,7 +38,7 @@ const POST_TYPES = [
     { id: 'review-request', label: 'Review Request' },
 ];
 
-export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata }) => {
+export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata, getCallOptions }) => {
     const [selectedPlatform, setSelectedPlatform] = useState<Platform>('twitter');
     const [selectedType, setSelectedType] = useState('announcement');
     const [generatedPost, setGeneratedPost] = useState<SocialPost | null>(null);
@@ -43,17 +46,25 @@ export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata
     const [isGenerating, setIsGenerating] = useState(false);
     const [copied, setCopied] = useState(false);
     const [activeTab, setActiveTab] = useState<'single' | 'thread' | 'hashtags'>('single');
+    const [budgetError, setBudgetError] = useState<string | null>(null);
+
+    const handleBudgetError = (error: unknown) => {
+        if (isBudgetExceeded(error)) setBudgetError(error.message);
+    };
 
     const handleGeneratePost = async () => {
         setIsGenerating(true);
+        setBudgetError(null);
         try {
             const post = await generatePost(
                 bookMetadata,
                 selectedPlatform,
-                selectedType as any
+                selectedType as any,
+                getCallOptions?.()
             );
             setGeneratedPost(post);
         } catch (error) {
+            handleBudgetError(error);
             console.error('Error generating post:', error);
         } finally {
             setIsGenerating(false);
@@ -62,10 +73,12 @@ export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata
 
     const handleGenerateThread = async () => {
         setIsGenerating(true);
+        setBudgetError(null);
         try {
-            const tweets = await generateTwitterThread(bookMetadata, 5);
+            const tweets = await generateTwitterThread(bookMetadata, 5, getCallOptions?.());
             setThread(tweets);
         } catch (error) {
+            handleBudgetError(error);
             console.error('Error generating thread:', error);
         } finally {
             setIsGenerating(false);
@@ -121,6 +134,14 @@ export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata
 
             {/* Content */}
             <div className="flex-1 p-4 overflow-y-auto">
+                {/* Budget Stop */}
+                {budgetError && (
+                    <div className="flex items-start gap-2 p-3 mb-4 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        {budgetError}
+                    </div>
+                )}
+
                 {activeTab === 'single' && (
                     <div className="space-y-4">
                         {/* Platform Selection */}
@@ -295,6 +316,8 @@ export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata
                                 key={platform.id}
                                 platform={platform}
                                 bookMetadata={bookMetadata}
+                                getCallOptions={getCallOptions}
+                                onError={handleBudgetError}
                             />
                         ))}
                     </div>
@@ -308,7 +331,9 @@ export const SocialMediaPanel: React.FC<SocialMediaPanelProps> = ({ bookMetadata
 const HashtagSection: React.FC<{
     platform: typeof PLATFORMS[0];
     bookMetadata: BookMetadata;
-}> = ({ platform, bookMetadata }) => {
+    getCallOptions?: () => GenerateOptions;
+    onError?: (error: unknown) => void;
+}> = ({ platform, bookMetadata, getCallOptions, onError }) => {
     const [hashtags, setHashtags] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [copied, setCopied] = useState(false);
@@ -316,9 +341,10 @@ const HashtagSection: React.FC<{
     const handleGenerate = async () => {
         setIsLoading(true);
         try {
-            const tags = await generateHashtags(bookMetadata, platform.id);
+            const tags = await generateHashtags(bookMetadata, platform.id, undefined, getCallOptions?.());
             setHashtags(tags);
         } catch (error) {
+            onError?.(error);
             console.error('Error generating hashtags:', error);
         } finally {
             setIsLoading(false);
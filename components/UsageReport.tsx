@@ -0,0 +1,125 @@
+import React from 'react';
+import { DollarSign } from 'lucide-react';
+import { ContentBlock, ProjectBudget, ProjectUsage, UsageTotals } from '../types';
+import { formatCost, formatTokens, totalTokens } from '../services/usageTracker';
+import { DEFAULT_BUDGET_WARN_AT } from '../services/budget';
+import { ProgressBar } from './ui/ProgressBar';
+
+interface UsageReportProps {
+    usage?: ProjectUsage;
+    blocks: ContentBlock[];
+    budget?: ProjectBudget;
+}
+
+const BudgetMeter: React.FC<{ label: string; spent: number; cap: number; warnAt: number; format: (value: number) => string }> = ({
+    label, spent, cap, warnAt, format
+}) => {
+    const ratio = spent / cap;
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between text-[10px] font-mono">
+                <span className="text-gray-400">{label}</span>
+                <span className={ratio >= 1 ? 'text-red-400' : ratio >= warnAt ? 'text-amber-400' : 'text-gray-500'}>
+                    {format(spent)} / {format(cap)}
+                </span>
+            </div>
+            <ProgressBar progress={Math.min(100, ratio * 100)} size="sm" variant={ratio >= warnAt ? 'warning' : 'success'} />
+        </div>
+    );
+};
+
+const UsageRow: React.FC<{ label: string; usage: UsageTotals }> = ({ label, usage }) => (
+    <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-white/[0.02] border border-white/[0.04]">
+        <div className="min-w-0">
+            <div className="text-xs text-gray-300 truncate" title={label}>{label}</div>
+            <div className="text-[10px] text-gray-500 font-mono">
+                {formatTokens(usage.promptTokens)} in · {formatTokens(usage.completionTokens)} out · {usage.calls} call{usage.calls === 1 ? '' : 's'}
+            </div>
+        </div>
+        <span className="text-xs font-mono text-emerald-400 flex-shrink-0">
+            {usage.estimated ? '~' : ''}{formatCost(usage.cost)}
+        </span>
+    </div>
+);
+
+export const UsageReport: React.FC<UsageReportProps> = ({ usage, blocks, budget }) => {
+    const meteredBlocks = blocks.filter(b => b.metadata?.usage);
+    const models = Object.entries(usage?.byModel || {}).sort(([, a], [, b]) => b.cost - a.cost);
+
+    if (!usage || usage.total.calls === 0) {
+        return (
+            <div className="p-6 text-center text-gray-500">
+                <DollarSign className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No model usage yet.</p>
+                <p className="text-xs mt-1">Token counts and cost appear after the first generation.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 space-y-4 h-full overflow-y-auto">
+            {/* Project Total */}
+            <div className="p-3 rounded-xl bg-emerald-500/5 border border-emerald-500/20">
+                <div className="text-[10px] uppercase tracking-widest text-gray-500 font-mono mb-1">Project Total</div>
+                <div className="flex items-baseline justify-between">
+                    <span className="text-lg font-semibold text-emerald-400">{formatCost(usage.total.cost)}</span>
+                    <span className="text-xs text-gray-400 font-mono">{formatTokens(totalTokens(usage.total))} tokens</span>
+                </div>
+                {usage.total.estimated && (
+                    <p className="text-[10px] text-gray-500 mt-1">
+                        ~ Includes estimates for providers that do not report token usage.
+                    </p>
+                )}
+            </div>
+
+            {/* Project Budget (run caps apply per run and are reported in the agent log) */}
+            {(budget?.maxProjectCost || budget?.maxProjectTokens) ? (
+                <div className="space-y-2">
+                    <h3 className="text-xs uppercase tracking-widest text-gray-500 font-mono">Budget</h3>
+                    {!!budget.maxProjectCost && (
+                        <BudgetMeter
+                            label="Spend"
+                            spent={usage.total.cost}
+                            cap={budget.maxProjectCost}
+                            warnAt={budget.warnAt ?? DEFAULT_BUDGET_WARN_AT}
+                            format={formatCost}
+                        />
+                    )}
+                    {!!budget.maxProjectTokens && (
+                        <BudgetMeter
+                            label="Tokens"
+                            spent={totalTokens(usage.total)}
+                            cap={budget.maxProjectTokens}
+                            warnAt={budget.warnAt ?? DEFAULT_BUDGET_WARN_AT}
+                            format={formatTokens}
+                        />
+                    )}
+                </div>
+            ) : null}
+
+            {/* By Model */}
+            <div className="space-y-2">
+                <h3 className="text-xs uppercase tracking-widest text-gray-500 font-mono">By Model</h3>
+                {models.map(([model, totals]) => (
+                    <UsageRow key={model} label={model} usage={totals} />
+                ))}
+            </div>
+
+            {/* By Block */}
+            {meteredBlocks.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-xs uppercase tracking-widest text-gray-500 font-mono">By Block</h3>
+                    {meteredBlocks.map(block => (
+                        <UsageRow
+                            key={block.id}
+                            label={block.metadata?.title || block.content.substring(0, 40) || 'Untitled block'}
+                            usage={block.metadata!.usage!}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsageReport;
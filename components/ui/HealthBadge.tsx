@@ -0,0 +1,39 @@
+import React from 'react';
+import { HealthStatus, ProviderHealth } from '../../services/providerHealth';
+
+interface HealthBadgeProps {
+    health: ProviderHealth;
+    showLatency?: boolean;
+}
+
+const STATUS_STYLES: Record<HealthStatus, { dot: string; label: string }> = {
+    healthy: { dot: 'bg-emerald-400', label: 'Healthy' },
+    degraded: { dot: 'bg-amber-400', label: 'Degraded' },
+    down: { dot: 'bg-red-500', label: 'Down' },
+    unknown: { dot: 'bg-gray-500', label: 'Not checked yet' },
+    unconfigured: { dot: 'bg-gray-700', label: 'Not configured' }
+};
+
+export const formatLatency = (ms?: number): string =>
+    ms === undefined ? '—' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const HealthBadge: React.FC<HealthBadgeProps> = ({ health, showLatency = false }) => {
+    const style = STATUS_STYLES[health.status];
+    const details = [
+        style.label,
+        health.avgLatencyMs !== undefined && `avg ${formatLatency(health.avgLatencyMs)}`,
+        health.samples.length > 0 && `${Math.round(health.errorRate * 100)}% errors`,
+        health.rateLimitHits > 0 && `${health.rateLimitHits} rate-limit hit${health.rateLimitHits === 1 ? '' : 's'}`
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <span className="inline-flex items-center gap-1.5" title={details}>
+            <span className={`w-2 h-2 rounded-full ${style.dot} ${health.status === 'healthy' ? 'shadow-[0_0_6px] shadow-emerald-400/60' : ''}`} />
+            {showLatency && health.avgLatencyMs !== undefined && (
+                <span className="text-[10px] font-mono text-gray-500">{formatLatency(health.avgLatencyMs)}</span>
+            )}
+        </span>
+    );
+};
+
+export default HealthBadge;
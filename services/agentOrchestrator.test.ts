@@ -0,0 +1,111 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentLog, AgentRole, BlockType, Project, ProjectSettings, WorkflowPhase } from '../types';
+import { runMultiAgentWorkflow } from './agentOrchestrator';
+import { getRuns } from './workflowRuns';
+import { MockProviderOptions, installMockProvider } from './providers/mockProvider';
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+    restore?.();
+    restore = undefined;
+});
+
+const mock = (options: MockProviderOptions) => {
+    const installed = installMockProvider(options);
+    restore = installed.restore;
+    return installed.provider;
+};
+
+const makeProject = (settings: Partial<ProjectSettings> = {}): Project => ({
+    id: `project-${Math.random().toString(36).slice(2)}`,
+    title: 'Mock Novel',
+    description: 'A test project.',
+    blocks: [],
+    lastModified: Date.now(),
+    settings: { autoSelectModel: true, maxConcurrentTasks: 1, ...settings },
+    workflowPhase: WorkflowPhase.EXECUTION
+});
+
+const run = async (project: Project) => {
+    const logs: AgentLog[] = [];
+    const blocks = await runMultiAgentWorkflow('Write a short mystery.', project, log => logs.push(log));
+    return { blocks, logs };
+};
+
+describe('runMultiAgentWorkflow', () => {
+    it('drafts one chapter per planned task and completes the run', async () => {
+        const provider = mock({ chapters: 2 });
+        const project = makeProject();
+
+        const { blocks, logs } = await run(project);
+
+        expect(blocks.map(b => b.metadata?.chapterNumber)).toEqual([1, 2]);
+        expect(blocks.every(b => b.type === BlockType.CHAPTER)).toBe(true);
+        expect(blocks[0].content).toContain('Mock draft for Write Chapter 1');
+        expect(provider.callsFor('architect')).toHaveLength(1);
+        expect(provider.callsFor('summarizer')).toHaveLength(2);
+        expect(logs.some(l => l.status === 'failed')).toBe(false);
+
+        const [saved] = await getRuns(project.id);
+        expect(saved.status).toBe('completed');
+        expect(saved.tasks.every(t => t.status === 'completed' && t.memory)).toBe(true);
+    });
+
+    it('rewrites a draft the Critic rejects', async () => {
+        const provider = mock({ chapters: 1, criticRejections: 1 });
+
+        const { blocks } = await run(makeProject({ maxRevisionRounds: 2 }));
+
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0].content).toContain('(revised)');
+        expect(blocks[0].revisionHistory).toHaveLength(1);
+        expect(blocks[0].revisionHistory[0].feedback).toContain('raise the stakes');
+        expect(provider.callsFor('critic')).toHaveLength(2);
+        expect(provider.callsFor('writer').filter(c => c.prompt.includes('REVISION FEEDBACK:'))).toHaveLength(1);
+    });
+
+    it('keeps flagging consistency issues until the revision limit', async () => {
+        const provider = mock({ chapters: 1, consistencyIssues: ['The lighthouse burned down in the prologue.'] });
+
+        const { blocks, logs } = await run(makeProject({ maxRevisionRounds: 1 }));
+
+        const issues = logs.filter(l => l.agent === AgentRole.CONSISTENCY_CHECKER && l.message === 'Consistency Issues Found');
+        expect(issues).toHaveLength(2);
+        expect(issues[0].status).toBe('warning');
+        expect(issues[0].metadata).toContain('lighthouse');
+        expect(logs.some(l => l.status === 'warning' && l.message.startsWith('Revision limit reached (1)'))).toBe(true);
+        expect(provider.callsFor('consistency')).toHaveLength(2);
+        // The draft is kept for manual review, with the rewrite it prompted
+        expect(blocks[0].revisionHistory[0].feedback).toContain('lighthouse');
+    });
+
+    it('does not revise when revision rounds are off', async () => {
+        const provider = mock({ chapters: 1, criticRejections: 5 });
+
+        const { blocks } = await run(makeProject({ maxRevisionRounds: 0 }));
+
+        expect(blocks[0].revisionHistory).toHaveLength(0);
+        expect(provider.callsFor('critic')).toHaveLength(1);
+    });
+
+    it('retries a Writer call that fails once', async () => {
+        const provider = mock({
+            chapters: 1,
+            rules: [{
+                name: 'writer-outage',
+                match: /You are the Writer Agent/,
+                respond: () => { throw new Error('503 Service Unavailable'); },
+                times: 1
+            }]
+        });
+
+        const { blocks, logs } = await run(makeProject());
+
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0].content).toContain('Mock draft for Write Chapter 1');
+        expect(provider.callsFor('writer')).toHaveLength(1);
+        expect(logs.some(l => l.status === 'failed')).toBe(false);
+    });
+});
@@ -1,24 +1,58 @@
-import { Project, ContentBlock, BlockType, BlockStatus, AgentRole, AgentLog, ModelProvider, CharacterProfile, ArchitectPlan, WriterOutput, GenerateOptions, EditorAction } from '../types';
+import { Project, ContentBlock, BlockType, BlockStatus, AgentRole, AgentLog, CharacterProfile, ArchitectPlan, WriterOutput, GenerateOptions, EditorAction, WorkflowRun, WorkflowTaskRecord, RevisionEntry, ChapterMemory, UsageTotals, TaskType } from '../types';
 import { getPersonaById } from './agentPersonas';
-import {
-  getProvider,
-  getAvailableProviders,
-} from './modelRegistry';
+import { createRun, getRun, saveRun, updateTask, getRunProgress } from './workflowRuns';
+import { buildStoryContext, getMemoryBudget } from './storyMemory';
+import { generateStructured, JsonSchema, SCHEMAS, StructuredResult, viaRouter } from './structuredOutput';
+import { runPool, DEFAULT_MAX_CONCURRENT_TASKS, MAX_CONCURRENT_TASKS_LIMIT } from './concurrency';
+import { ChunkCallback } from './modelRegistry';
+import { addUsage, emptyUsage, formatCost, formatTokens, totalTokens } from './usageTracker';
+import { formatPassages, retrieve } from './retrieval';
+import { assemblePrompt, getPromptBudget, getTaskContextWindow } from './promptAssembler';
+import { createBudgetGuard, isBudgetExceeded } from './budget';
 
 // Initialize providers
 import './providers';
 
-// --- Helper for Safe JSON Parsing ---
-const safeParseJSON = <T>(text: string, fallback: T): T => {
-  if (!text) return fallback;
-  try {
-    // Remove markdown code blocks if present (common with LLMs)
-    const cleanText = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '').trim();
-    return JSON.parse(cleanText);
-  } catch (e) {
-    console.warn("JSON Parse Failed. Raw text:", text);
-    return fallback;
+// --- Helper for reading a partially streamed Writer JSON payload ---
+// Decodes the (possibly unterminated) "content" string value so far.
+const extractPartialContent = (raw: string): string => {
+  const match = raw.match(/"content"\s*:\s*"/);
+  if (!match || match.index === undefined) return '';
+
+  let result = '';
+  for (let i = match.index + match[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      result += ch;
+      continue;
+    }
+
+    const next = raw[i + 1];
+    if (next === undefined) break; // Escape sequence split across chunks
+    i++;
+    switch (next) {
+      case 'n': result += '\n'; break;
+      case 't': result += '\t'; break;
+      case 'r': break;
+      case 'u': {
+        const hex = raw.substr(i + 1, 4);
+        if (hex.length < 4) return result;
+        result += String.fromCharCode(parseInt(hex, 16));
+        i += 4;
+        break;
+      }
+      default: result += next;
+    }
   }
+  return result;
+};
+
+// --- Helper for normalising Writer/Editor content to a string ---
+const toContentString = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.join('\n');
+  return content ? String(content) : '';
 };
 
 const EDITOR_PROMPT = `
@@ -38,63 +72,32 @@ OUTPUT: Return raw JSON with the refined content.
 }
 `;
 
-// --- Multi-Provider Generate with Fallback ---
-const generateWithFallback = async (
+// --- Schema-validated generation: invalid JSON gets one repair re-prompt with the errors ---
+// Provider order comes from the router's task priority (and the user's model choice)
+const generateValidated = <T>(
+  schema: JsonSchema,
   prompt: string,
-  options?: GenerateOptions,
-  preferredProviders?: ModelProvider[]
-): Promise<{ text: string; provider: string }> => {
-  const available = getAvailableProviders();
+  options: GenerateOptions,
+  taskType: TaskType,
+  onChunk?: ChunkCallback
+): Promise<StructuredResult<T>> =>
+  generateStructured<T>(schema, prompt, viaRouter(taskType, options, onChunk));
 
-  console.log(`[AgentOrchestrator] Available providers: ${available.join(', ')}`);
+// Request context shared by every call of a run: cancellation, usage attribution, budget and model overrides
+type CallContext = Pick<GenerateOptions, 'signal' | 'projectId' | 'budget' | 'taskModels'>;
 
-  if (available.length === 0) {
-    throw new Error('No AI providers configured. Please add API keys to .env.local');
-  }
-
-  // Order: preferred first, then all available (using Set to avoid duplicates)
-  const tryOrderSet = new Set<ModelProvider>();
-  if (preferredProviders) {
-    preferredProviders.filter(p => available.includes(p)).forEach(p => tryOrderSet.add(p));
-  }
-  available.forEach(p => tryOrderSet.add(p));
-  const tryOrder = Array.from(tryOrderSet);
+// Per-entry details attached to agent logs
+type LogDetails = Pick<AgentLog, 'modelUsed' | 'repaired' | 'usage'>;
 
-  console.log(`[AgentOrchestrator] Try order: ${tryOrder.join(' -> ')}`);
+const detailsOf = (result: { provider: string; repaired?: boolean; usage?: UsageTotals }): LogDetails => ({
+  modelUsed: result.provider,
+  repaired: result.repaired,
+  usage: result.usage
+});
 
-  const errors: string[] = [];
-
-  for (const providerName of tryOrder) {
-    const provider = getProvider(providerName);
-    if (!provider) {
-      console.log(`[AgentOrchestrator] Provider ${providerName} not found in registry`);
-      continue;
-    }
-
-    // Try up to 2 times per provider for transient errors
-    for (let attempt = 1; attempt <= 2; attempt++) {
-      try {
-        console.log(`[AgentOrchestrator] Trying ${providerName} (attempt ${attempt})`);
-        const text = await provider.generateText(prompt, options);
-        if (text && text.trim()) {
-          console.log(`[AgentOrchestrator] Success with ${providerName}`);
-          return { text, provider: providerName };
-        }
-      } catch (error) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        console.warn(`[AgentOrchestrator] ${providerName} attempt ${attempt} failed:`, errMsg);
-        errors.push(`${providerName}: ${errMsg}`);
-
-        // If it's a rate limit or overload, wait a bit before retry
-        if (errMsg.includes('overload') || errMsg.includes('429') || errMsg.includes('rate')) {
-          await new Promise(r => setTimeout(r, 1000));
-        }
-      }
-    }
-  }
-
-  throw new Error(`All providers failed:\n${errors.join('\n')}`);
-};
+// Appended to log metadata when a result was unusable even after repair
+const describeInvalid = (result: StructuredResult<unknown>): string =>
+  `Invalid output after repair:\n${result.errors.join('\n')}`;
 
 
 // --- Agent Personas & Instructions ---
@@ -123,6 +126,7 @@ const WRITER_PROMPT = `
 You are the Writer Agent.
 Write high-quality creative content based on the Task and Context provided.
 Use the Character and World context to ensure consistency.
+RELEVANT SOURCE PASSAGES, when given, are excerpts from the author's material and earlier chapters; stay true to them.
 
 OUTPUT: JSON with content.
 {
@@ -135,6 +139,21 @@ IMPORTANT:
 - Write substantial content (at least 3-5 paragraphs for chapters).
 - Use proper markdown formatting in content.
 - Ensure all newlines in 'content' are escaped (use \\n, not literal line breaks).
+- If a STORY SO FAR section is given, continue seamlessly from it: keep names and facts consistent, and advance or resolve the open threads.
+`;
+
+const SUMMARIZER_PROMPT = `
+You are the Continuity Archivist.
+Summarize the chapter so later chapters can stay consistent with it.
+You are given the open plot threads and character states from before this chapter; carry them forward, updating, adding or closing them.
+
+OUTPUT: JSON
+{
+  "summary": "3-5 sentences covering what happened, in order.",
+  "open_threads": ["Unresolved question or setup still in play..."],
+  "character_states": [{ "name": "Character", "state": "Where they are, what they know or want now" }]
+}
+IMPORTANT: Return raw JSON only.
 `;
 
 const VISIONARY_PROMPT = `
@@ -164,6 +183,9 @@ Your ONLY job is to verify that the story content aligns with the World Blueprin
 BLUEPRINT:
 {WORLD_CONTEXT}
 
+ESTABLISHED FACTS (excerpts from earlier chapters and source material):
+{ESTABLISHED_FACTS}
+
 STORY CONTENT:
 {CONTENT}
 
@@ -171,6 +193,7 @@ TASK:
 1. Check for character trait contradictions.
 2. Check for location details consistency.
 3. Check for item usage accuracy.
+4. Check for contradictions with the established facts.
 
 OUTPUT: JSON with status and issues.
 {
@@ -204,18 +227,200 @@ interface ConsistencyOutput {
   issues?: string[];
 }
 
+interface SummarizerOutput {
+  summary?: string;
+  open_threads?: string[];
+  character_states?: { name: string; state: string }[];
+}
+
+// --- Review & Revision Helpers ---
+
+interface DraftReview {
+  critique: CriticOutput;
+  consistency: ConsistencyOutput;
+  criticDetails: LogDetails;
+  consistencyDetails: LogDetails;
+}
+
+// Critic & Consistency Checker run in parallel on the same draft, each given as much of it
+// as the critique model's window holds. The Consistency Checker also sees the indexed
+// passages closest to the draft; when space runs short the draft wins over them.
+const reviewDraft = async (
+  taskDescription: string,
+  content: string,
+  worldContext: string,
+  context: CallContext = {}
+): Promise<DraftReview> => {
+  const facts = context.projectId
+    ? await retrieve(context.projectId, content.substring(0, 2000), {
+      maxChars: getMemoryBudget(getTaskContextWindow('critique', context.taskModels)),
+      signal: context.signal,
+      budget: context.budget
+    })
+    : [];
+
+  const criticPrompt = assemblePrompt([
+    { name: 'task', text: `Task: ${taskDescription}`, required: true },
+    { name: 'content', text: `Generated Content:\n${content}`, required: true, trim: 'middle' }
+  ], getPromptBudget('critique', { taskModels: context.taskModels, systemPrompt: CRITIC_PROMPT }));
+
+  const consistencyPrompt = assemblePrompt([
+    { name: 'blueprint', text: worldContext.trim() || 'No specific world rules.', priority: 2 },
+    { name: 'facts', text: formatPassages(facts, 'PASSAGES') || 'None indexed yet.', priority: 1 },
+    { name: 'content', text: content, required: true, trim: 'middle' }
+  ], getPromptBudget('critique', { taskModels: context.taskModels, systemPrompt: CONSISTENCY_PROMPT }));
+  const { blueprint, facts: factsSection, content: contentSection } = consistencyPrompt.sections;
+
+  const [criticResult, consistencyResult] = await Promise.all([
+    generateValidated<CriticOutput>(
+      SCHEMAS.criticOutput,
+      criticPrompt.text,
+      { systemPrompt: CRITIC_PROMPT, responseFormat: 'json', ...context },
+      'critique'
+    ),
+    generateValidated<ConsistencyOutput>(
+      SCHEMAS.consistencyOutput,
+      'Check the STORY CONTENT against the blueprint and the established facts.',
+      {
+        // Replacer functions, so a "$" in the story is not read as a replacement pattern
+        systemPrompt: CONSISTENCY_PROMPT
+          .replace('{WORLD_CONTEXT}', () => blueprint || 'Omitted to fit the context window.')
+          .replace('{ESTABLISHED_FACTS}', () => factsSection || 'Omitted to fit the context window.')
+          .replace('{CONTENT}', () => contentSection),
+        responseFormat: 'json',
+        ...context
+      },
+      'critique'
+    )
+  ]);
+
+  return {
+    critique: criticResult.data || {},
+    consistency: consistencyResult.data || {},
+    criticDetails: detailsOf(criticResult),
+    consistencyDetails: detailsOf(consistencyResult)
+  };
+};
+
+// Condense a finished chapter into continuity memory for the chapters after it
+const summarizeChapter = async (
+  content: string,
+  previous: ChapterMemory | undefined,
+  context: CallContext = {}
+): Promise<{ memory: ChapterMemory; provider: string; repaired: boolean; usage?: UsageTotals }> => {
+  const carried = previous
+    ? `OPEN THREADS BEFORE THIS CHAPTER:\n${previous.openThreads.join('\n') || 'None'}\n\nCHARACTER STATES BEFORE THIS CHAPTER:\n${previous.characterStates.map(c => `${c.name}: ${c.state}`).join('\n') || 'None'}\n\n`
+    : '';
+  // The chapter's opening and ending matter most for continuity; a long middle is cut first
+  const prompt = assemblePrompt([
+    { name: 'carried', text: carried.trim(), priority: 1 },
+    { name: 'chapter', text: `CHAPTER TEXT:\n${content}`, required: true, trim: 'middle' }
+  ], getPromptBudget('quick_response', { taskModels: context.taskModels, systemPrompt: SUMMARIZER_PROMPT }));
+  const result = await generateValidated<SummarizerOutput>(
+    SCHEMAS.summarizerOutput,
+    prompt.text,
+    { systemPrompt: SUMMARIZER_PROMPT, responseFormat: 'json', ...context },
+    'quick_response'
+  );
+  const parsed = result.data || {};
+  return {
+    memory: {
+      summary: parsed.summary || content.substring(0, 300),
+      openThreads: Array.isArray(parsed.open_threads) ? parsed.open_threads : previous?.openThreads || [],
+      characterStates: Array.isArray(parsed.character_states) ? parsed.character_states : []
+    },
+    provider: result.provider,
+    repaired: result.repaired,
+    usage: result.usage
+  };
+};
+
+// Feedback that should trigger a rewrite, or null when the draft passed review
+const collectRevisionFeedback = ({ critique, consistency }: DraftReview): string | null => {
+  const feedback: string[] = [];
+  if (critique.approved === false) {
+    feedback.push(`CRITIC: ${critique.critique || 'The draft was not approved.'}`);
+  }
+  if (consistency.status === 'fail') {
+    const issues = consistency.issues?.length ? consistency.issues.join('; ') : 'Contradicts the world blueprint.';
+    feedback.push(`CONTINUITY: ${issues}`);
+  }
+  return feedback.length > 0 ? feedback.join('\n') : null;
+};
+
+const reviseDraft = async (
+  reviser: AgentRole.WRITER | AgentRole.EDITOR,
+  draft: string,
+  feedback: string,
+  writerPrompt: { systemPrompt: string; task: string },
+  context: CallContext = {},
+  onChunk?: ChunkCallback
+): Promise<{ content: string; provider: string; repaired: boolean; usage?: UsageTotals }> => {
+  if (reviser === AgentRole.EDITOR) {
+    const result = await generateValidated<{ content: string }>(
+      SCHEMAS.editorOutput,
+      `Original Content:\n${draft}\n\nAction: rewrite\n\nAddress this reviewer feedback:\n${feedback}`,
+      { systemPrompt: EDITOR_PROMPT, responseFormat: 'json', ...context },
+      'editing',
+      onChunk
+    );
+    return { content: toContentString(result.data?.content), provider: result.provider, repaired: result.repaired, usage: result.usage };
+  }
+
+  const result = await generateValidated<WriterOutput>(
+    SCHEMAS.writerOutput,
+    `${writerPrompt.task}\n\nPREVIOUS DRAFT:\n${draft}\n\nREVISION FEEDBACK:\n${feedback}\n\nRewrite the draft so it fully addresses the feedback.`,
+    { systemPrompt: writerPrompt.systemPrompt, responseFormat: 'json', ...context },
+    'writing',
+    onChunk
+  );
+  return { content: toContentString(result.data?.content), provider: result.provider, repaired: result.repaired, usage: result.usage };
+};
+
 // --- Service Logic ---
 
 export type LogCallback = (log: AgentLog) => void;
 
+export interface WorkflowOptions {
+  // Receives the Writer's in-progress draft as it streams in
+  onDraftUpdate?: (draft: ContentBlock) => void;
+  // Aborting stops remaining tasks and in-flight requests; completed blocks are still returned
+  signal?: AbortSignal;
+  // Receives each finished block as soon as its task is checkpointed
+  onBlockComplete?: (block: ContentBlock) => void;
+  // Continue a persisted run, skipping tasks that already completed
+  resumeRunId?: string;
+}
+
+const isChapterTask = (task: ArchitectTask): boolean =>
+  task.description.toLowerCase().includes('chapter') ||
+  !!task.title?.toLowerCase().includes('chapter');
+
+// Chapter numbers are fixed up front so a resumed run numbers chapters the same way
+const buildTaskRecords = (plan: ArchitectPlan, sectionIds: string[] = []): Omit<WorkflowTaskRecord, 'status'>[] => {
+  let chapterNumber = 1;
+  return plan.tasks.map((task, index) => ({
+    index,
+    task,
+    sectionId: sectionIds[index],
+    chapterNumber: task.role === AgentRole.WRITER && isChapterTask(task) ? chapterNumber++ : undefined
+  }));
+};
+
+// Minimum delay between streamed draft updates, to keep Canvas re-renders cheap
+const DRAFT_UPDATE_INTERVAL_MS = 100;
+
 export const runMultiAgentWorkflow = async (
   userRequest: string,
   project: Project,
   onLog: LogCallback,
-  blueprint?: any // Using any to avoid circular type ref if not imported, but best to import Blueprint
+  blueprint?: any, // Using any to avoid circular type ref if not imported, but best to import Blueprint
+  options: WorkflowOptions = {}
 ): Promise<ContentBlock[]> => {
+  const { signal } = options;
   const newBlocks: ContentBlock[] = [];
-  const log = (agent: AgentRole, message: string, metadata?: string, status: AgentLog['status'] = 'working', modelUsed?: string) => {
+  let run: WorkflowRun | undefined;
+  const log = (agent: AgentRole, message: string, metadata?: string, status: AgentLog['status'] = 'working', details: LogDetails = {}) => {
     onLog({
       id: Math.random().toString(36).substr(2, 9),
       timestamp: Date.now(),
@@ -223,66 +428,102 @@ export const runMultiAgentWorkflow = async (
       message,
       metadata,
       status,
-      modelUsed
+      ...details
     });
   };
 
+  // Every call of the run is metered against the project's budget
+  const budget = createBudgetGuard(project, message => log(AgentRole.PROJECT_MANAGER, `Budget warning: ${message}`, undefined, 'warning'));
+  const context: CallContext = { signal, projectId: project.id, budget, taskModels: project.settings.taskModels };
   try {
-    // 1. PLANNING PHASE (Parallel Architect & Visionary)
-    let plan: ArchitectPlan;
-    let styleContext = "";
-
-    // If blueprint exists, use it vs dynamic planning
-    if (project.blueprint) {
-      log(AgentRole.ARCHITECT, 'Using approved blueprint plan.', undefined, 'success');
-      plan = {
-        tasks: project.blueprint.sections.filter((s: any) => s.type === 'chapter').map((s: any) => ({
-          role: 'WRITER',
-          description: `Write ${s.title}. ${s.description}`,
-          context_script: `Genre: ${project.blueprint?.genre}, Tone: ${project.blueprint?.tone}. Structure this as a ${s.type}.`,
-          title: s.title
-        }))
-      };
-      styleContext = `Tone: ${project.blueprint?.tone || 'Standard'}`;
-    } else {
-      log(AgentRole.PROJECT_MANAGER, 'Initiating Parallel Planning Phase...', undefined, 'thinking');
-
-      const contextSummary = project.blocks.map(b => `[${b.type}] ${b.content.substring(0, 50)}...`).join('\n');
-      const basePrompt = `Current Project Context:\n${contextSummary}\n\nUser Request: ${userRequest}`;
-
-      // --- PARALLEL EXECUTION: Architect & Visionary ---
-      log(AgentRole.ARCHITECT, 'Structuring narrative arc...', undefined, 'thinking');
-      log(AgentRole.VISIONARY, 'Defining stylistic palette...', undefined, 'thinking');
-
-      const [architectResult, visionaryResult] = await Promise.all([
-        generateWithFallback(
-          basePrompt,
-          { systemPrompt: ARCHITECT_PROMPT, responseFormat: 'json' },
-          [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL]
-        ),
-        generateWithFallback(
-          basePrompt,
-          { systemPrompt: VISIONARY_PROMPT, responseFormat: 'json' },
-          [ModelProvider.GEMINI, ModelProvider.GROQ, ModelProvider.MISTRAL]
-        )
-      ]);
-
-      // Process Architect Result
-      plan = safeParseJSON<ArchitectPlan>(architectResult.text, { tasks: [] });
-      if (!plan.tasks || !Array.isArray(plan.tasks)) {
-        log(AgentRole.ARCHITECT, 'Failed to generate a valid plan.', undefined, 'failed');
+    budget.check();
+  } catch (error) {
+    log(AgentRole.PROJECT_MANAGER, 'Project budget exhausted; not starting the run.', (error as Error).message, 'failed');
+    return [];
+  }
+
+  try {
+    if (options.resumeRunId) {
+      const existing = await getRun(options.resumeRunId);
+      if (!existing) {
+        log(AgentRole.PROJECT_MANAGER, 'Could not find the run to resume.', options.resumeRunId, 'failed');
         return [];
       }
-      log(AgentRole.ARCHITECT, `Plan created with ${plan.tasks.length} tasks.`, JSON.stringify(plan.tasks, null, 2), 'success', architectResult.provider);
+      run = existing;
+      run.status = 'running';
+      await saveRun(run);
+      const { completed, total } = getRunProgress(run);
+      log(AgentRole.PROJECT_MANAGER, `Resuming run: ${completed} of ${total} tasks already complete.`, undefined, 'success');
+    } else {
+      // 1. PLANNING PHASE (Parallel Architect & Visionary)
+      let plan: ArchitectPlan;
+      let styleContext = "";
+      let sectionIds: string[] = [];
+
+      // If blueprint exists, use it vs dynamic planning
+      if (project.blueprint) {
+        log(AgentRole.ARCHITECT, 'Using approved blueprint plan.', undefined, 'success');
+        const chapterSections = project.blueprint.sections.filter((s: any) => s.type === 'chapter');
+        sectionIds = chapterSections.map((s: any) => s.id);
+        plan = {
+          tasks: chapterSections.map((s: any) => ({
+            role: 'WRITER',
+            description: `Write ${s.title}. ${s.description}`,
+            context_script: `Genre: ${project.blueprint?.genre}, Tone: ${project.blueprint?.tone}. Structure this as a ${s.type}.`,
+            title: s.title
+          }))
+        };
+        styleContext = `Tone: ${project.blueprint?.tone || 'Standard'}`;
+      } else {
+        log(AgentRole.PROJECT_MANAGER, 'Initiating Parallel Planning Phase...', undefined, 'thinking');
+
+        const contextSummary = project.blocks.map(b => `[${b.type}] ${b.content.substring(0, 50)}...`).join('\n');
+        const basePrompt = `Current Project Context:\n${contextSummary}\n\nUser Request: ${userRequest}`;
+
+        // --- PARALLEL EXECUTION: Architect & Visionary ---
+        log(AgentRole.ARCHITECT, 'Structuring narrative arc...', undefined, 'thinking');
+        log(AgentRole.VISIONARY, 'Defining stylistic palette...', undefined, 'thinking');
+
+        const [architectResult, visionaryResult] = await Promise.all([
+          generateValidated<ArchitectPlan>(
+            SCHEMAS.architectPlan,
+            basePrompt,
+            { systemPrompt: ARCHITECT_PROMPT, responseFormat: 'json', ...context },
+            'planning'
+          ),
+          generateValidated<VisionaryOutput>(
+            SCHEMAS.visionaryOutput,
+            basePrompt,
+            { systemPrompt: VISIONARY_PROMPT, responseFormat: 'json', ...context },
+            'quick_response'
+          )
+        ]);
 
-      // Process Visionary Result
-      const visionaryData = safeParseJSON<VisionaryOutput>(visionaryResult.text, {});
-      styleContext = `VISUAL STYLE: ${visionaryData.style_guide}\nSENSORY PALETTE: ${visionaryData.sensory_palette}`;
-      log(AgentRole.VISIONARY, 'Style guide established.', styleContext, 'success', visionaryResult.provider);
+        // Process Architect Result
+        if (!architectResult.data) {
+          log(AgentRole.ARCHITECT, 'Failed to generate a valid plan.', describeInvalid(architectResult), 'failed', detailsOf(architectResult));
+          return [];
+        }
+        plan = architectResult.data;
+        log(AgentRole.ARCHITECT, `Plan created with ${plan.tasks.length} tasks.`, JSON.stringify(plan.tasks, null, 2), 'success', detailsOf(architectResult));
+
+        // Process Visionary Result (style is optional; an invalid guide falls back to neutral)
+        const visionaryData = visionaryResult.data || {};
+        styleContext = `VISUAL STYLE: ${visionaryData.style_guide || 'Not specified'}\nSENSORY PALETTE: ${visionaryData.sensory_palette || 'Not specified'}`;
+        log(
+          AgentRole.VISIONARY,
+          visionaryResult.data ? 'Style guide established.' : 'Style guide unavailable; continuing without it.',
+          visionaryResult.data ? styleContext : describeInvalid(visionaryResult),
+          visionaryResult.data ? 'success' : 'warning',
+          detailsOf(visionaryResult)
+        );
+      }
+
+      run = await createRun(project.id, userRequest, plan, styleContext, buildTaskRecords(plan, sectionIds));
     }
 
     // 2. EXECUTION PHASE
-    let chapterNumber = 1;
+    const { styleContext } = run;
 
     // Get Persona
     const persona = getPersonaById(project.blueprint?.personaId);
@@ -290,8 +531,38 @@ export const runMultiAgentWorkflow = async (
       log(AgentRole.PROJECT_MANAGER, `Applying Agent Persona: ${persona.name}`, undefined, 'success');
     }
 
-    for (const task of plan.tasks) {
+    const activeRun = run;
+    const writerWindow = getTaskContextWindow('writing', project.settings.taskModels);
+    const pendingTasks = activeRun.tasks.filter(t => t.status !== 'completed');
+    const concurrency = Math.min(
+      Math.max(1, project.settings.maxConcurrentTasks ?? DEFAULT_MAX_CONCURRENT_TASKS),
+      MAX_CONCURRENT_TASKS_LIMIT
+    );
+    if (concurrency > 1 && pendingTasks.length > 1) {
+      log(AgentRole.PROJECT_MANAGER, `Drafting up to ${Math.min(concurrency, pendingTasks.length)} tasks in parallel.`, undefined, 'success');
+    }
+
+    // Finished blocks are released in plan order, whatever order they complete in
+    const results = new Map<number, ContentBlock | null>();
+    let emitCursor = 0;
+    const emitInOrder = (skipUnfinished = false) => {
+      while (emitCursor < pendingTasks.length) {
+        const index = pendingTasks[emitCursor].index;
+        if (!results.has(index) && !skipUnfinished) break;
+        const block = results.get(index);
+        if (block) {
+          newBlocks.push(block);
+          options.onBlockComplete?.(block);
+        }
+        emitCursor++;
+      }
+    };
+
+    const executeTask = async (record: WorkflowTaskRecord): Promise<ContentBlock | null> => {
+      signal?.throwIfAborted();
+      const { task } = record;
       const role = task.role as AgentRole;
+      await updateTask(activeRun, record.index, { status: 'running', error: undefined });
       log(role, `Executing: ${task.description}`, undefined, 'thinking');
 
       if (role === 'WRITER') {
@@ -311,101 +582,229 @@ export const runMultiAgentWorkflow = async (
 
         const worldContext = `${locationContext}${itemContext}`;
 
-        // Combine contexts
-        const fullContext = `${styleContext}\n${characterContext}${worldContext}\nScript: ${task.context_script}`;
+        // Story so far, sized for the window of the Writer's model
+        const storyContext = buildStoryContext(activeRun.tasks, record.index, getMemoryBudget(writerWindow));
+
+        // Passages from the inputs, folder files and earlier chapters that bear on this task
+        const passages = await retrieve(project.id, `${task.title || ''}\n${task.description}\n${task.context_script}`, {
+          maxChars: getMemoryBudget(writerWindow),
+          signal,
+          budget
+        });
+        if (passages.length > 0) {
+          log(AgentRole.WRITER, `Retrieved ${passages.length} relevant passage(s).`, passages.map(p => p.title).join('\n'), 'success');
+        }
+        const sourceContext = formatPassages(passages, 'RELEVANT SOURCE PASSAGES');
 
         // Apply Persona Modifier
         const systemPrompt = persona.systemPromptModifier
           ? `${WRITER_PROMPT}\n\nIMPORTANT - ADOPT THIS PERSONA:\n${persona.systemPromptModifier}`
           : WRITER_PROMPT;
 
-        // Use Mistral for writing, fallback to others
-        const writerResult = await generateWithFallback(
-          `Task: ${task.description}\n${fullContext}`,
+        // Combine contexts, trimming the least essential first if the Writer's window is short:
+        // passages (lowest ranked last), then world details and older memory, then style and cast
+        const writerPrompt = assemblePrompt([
+          { name: 'task', text: `Task: ${task.description}`, required: true },
+          { name: 'style', text: styleContext, priority: 3 },
+          { name: 'characters', text: characterContext.trim(), priority: 3 },
+          { name: 'world', text: worldContext.trim(), priority: 2 },
+          { name: 'memory', text: storyContext, priority: 2, trim: 'start' },
+          { name: 'passages', text: sourceContext, priority: 1 },
+          { name: 'script', text: `Script: ${task.context_script}`, required: true }
+        ], getPromptBudget('writing', { taskModels: context.taskModels, systemPrompt }));
+
+        const isChapter = record.chapterNumber !== undefined;
+
+        // The live draft and the final block share an id so the Canvas can swap them
+        const draftBlock: ContentBlock = {
+          id: Math.random().toString(36).substr(2, 9),
+          type: isChapter ? BlockType.CHAPTER : BlockType.TEXT,
+          content: '',
+          status: BlockStatus.DRAFT,
+          revisionHistory: [],
+          metadata: {
+            agentSignature: 'Writer Agent',
+            prompt: task.description,
+            title: task.title,
+            chapterNumber: record.chapterNumber
+          }
+        };
+
+        let lastDraftUpdate = 0;
+        const onWriterChunk: ChunkCallback | undefined = options.onDraftUpdate
+          ? (_chunk, accumulated) => {
+            const now = Date.now();
+            if (now - lastDraftUpdate < DRAFT_UPDATE_INTERVAL_MS) return;
+            lastDraftUpdate = now;
+            const partial = extractPartialContent(accumulated);
+            if (partial) options.onDraftUpdate!({ ...draftBlock, content: partial });
+          }
+          : undefined;
+
+        const writerTask = writerPrompt.text;
+
+        // Routed by the writing priority, falling back to the other providers
+        const writerResult = await generateValidated<WriterOutput>(
+          SCHEMAS.writerOutput,
+          writerTask,
           {
             systemPrompt: systemPrompt,
-            responseFormat: 'json'
+            responseFormat: 'json',
+            ...context
           },
-          [ModelProvider.MISTRAL, ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.GROQ]
+          'writing',
+          onWriterChunk
         );
 
-        const output = safeParseJSON<WriterOutput>(writerResult.text, { content: "" });
+        const output = writerResult.data;
 
         // Ensure content is a string
-        let contentStr = '';
-        if (typeof output.content === 'string') {
-          contentStr = output.content;
-        } else if (output.content && Array.isArray(output.content)) {
-          contentStr = output.content.join('\n');
-        } else if (output.content) {
-          contentStr = String(output.content);
-        }
+        let contentStr = toContentString(output?.content);
 
         if (!contentStr) {
-          log(AgentRole.WRITER, 'Failed to generate content.', undefined, 'failed');
-          continue;
+          log(AgentRole.WRITER, 'Failed to generate content.', describeInvalid(writerResult), 'failed', detailsOf(writerResult));
+          await updateTask(activeRun, record.index, { status: 'failed', error: 'Writer returned no content', provider: writerResult.provider });
+          return null;
         }
 
-        log(AgentRole.WRITER, 'Drafting content complete.', output.helper_script || 'No script provided', 'success', writerResult.provider);
-
-        // --- PARALLEL VALIDATION: Critic & Consistency Checker ---
-        log(AgentRole.CRITIC, 'Reviewing quality...', undefined, 'thinking');
-        log(AgentRole.CONSISTENCY_CHECKER, 'Verifying world facts...', undefined, 'thinking');
-
-        const [criticResult, consistencyResult] = await Promise.all([
-          generateWithFallback(
-            `Task: ${task.description}\nGenerated Content: ${contentStr.substring(0, 1000)}...`,
-            { systemPrompt: CRITIC_PROMPT, responseFormat: 'json' },
-            [ModelProvider.GROQ, ModelProvider.GEMINI, ModelProvider.DEEPSEEK]
-          ),
-          generateWithFallback(
-            contentStr.substring(0, 2000), // Limit context for speed
-            {
-              systemPrompt: CONSISTENCY_PROMPT
-                .replace('{WORLD_CONTEXT}', worldContext || 'No specific world rules.')
-                .replace('{CONTENT}', contentStr.substring(0, 1000)),
-              responseFormat: 'json'
-            },
-            [ModelProvider.GEMINI, ModelProvider.DEEPSEEK] // Fast + Smart
-          )
-        ]);
+        log(AgentRole.WRITER, 'Drafting content complete.', output?.helper_script || 'No script provided', 'success', detailsOf(writerResult));
+        // Everything spent on this block: draft, reviews, revisions and memory
+        let blockUsage = addUsage(emptyUsage(), writerResult.usage);
+        options.onDraftUpdate?.({ ...draftBlock, content: contentStr });
+
+        // --- REVIEW & REVISION LOOP ---
+        // Critic & Consistency run in parallel; failures go back for a rewrite
+        // until they pass or the configured number of rounds is used up
+        const maxRounds = Math.max(0, project.settings.maxRevisionRounds ?? 0);
+        const reviser = project.settings.revisionAgent ?? AgentRole.WRITER;
+        const revisionHistory: RevisionEntry[] = [];
+
+        for (let round = 0; ; round++) {
+          log(AgentRole.CRITIC, 'Reviewing quality...', undefined, 'thinking');
+          log(AgentRole.CONSISTENCY_CHECKER, 'Verifying world facts...', undefined, 'thinking');
+
+          const review = await reviewDraft(task.description, contentStr, worldContext, context);
+          const { critique, consistency } = review;
+          blockUsage = addUsage(addUsage(blockUsage, review.criticDetails.usage), review.consistencyDetails.usage);
+
+          // Log Results
+          log(AgentRole.CRITIC, `Quality: ${critique.approved ? 'Approved' : 'Needs Polish'}`, critique.critique, 'success', review.criticDetails);
+
+          if (consistency.status === 'fail') {
+            log(AgentRole.CONSISTENCY_CHECKER, 'Consistency Issues Found', consistency.issues?.join(', '), 'warning', review.consistencyDetails);
+          } else {
+            log(AgentRole.CONSISTENCY_CHECKER, 'World Consistency Verified', undefined, 'success', review.consistencyDetails);
+          }
 
-        const critique = safeParseJSON<CriticOutput>(criticResult.text, {});
-        const consistency = safeParseJSON<ConsistencyOutput>(consistencyResult.text, {});
+          const feedback = collectRevisionFeedback(review);
+          if (!feedback || maxRounds === 0) break;
+          if (round >= maxRounds) {
+            log(AgentRole.PROJECT_MANAGER, `Revision limit reached (${maxRounds}); issues remain for manual review.`, feedback, 'warning');
+            break;
+          }
 
-        // Log Results
-        log(AgentRole.CRITIC, `Quality: ${critique.approved ? 'Approved' : 'Needs Polish'}`, critique.critique, 'success', criticResult.provider);
+          log(reviser, `Revision round ${round + 1}/${maxRounds}: addressing reviewer feedback...`, feedback, 'thinking');
+          const revised = await reviseDraft(reviser, contentStr, feedback, { systemPrompt, task: writerTask }, context, onWriterChunk);
+          blockUsage = addUsage(blockUsage, revised.usage);
+          if (!revised.content) {
+            log(reviser, 'Revision produced no content; keeping the previous draft.', undefined, 'failed', detailsOf(revised));
+            break;
+          }
 
-        if (consistency.status === 'fail') {
-          log(AgentRole.CONSISTENCY_CHECKER, 'Consistency Issues Found', consistency.issues?.join(', '), 'warning', consistencyResult.provider);
-        } else {
-          log(AgentRole.CONSISTENCY_CHECKER, 'World Consistency Verified', undefined, 'success', consistencyResult.provider);
+          revisionHistory.push({
+            id: Math.random().toString(36).substr(2, 9),
+            content: contentStr,
+            timestamp: Date.now(),
+            feedback,
+            agent: reviser,
+            round: round + 1
+          });
+          contentStr = revised.content;
+          log(reviser, `Revision round ${round + 1} complete.`, undefined, 'success', detailsOf(revised));
+          options.onDraftUpdate?.({ ...draftBlock, content: contentStr });
         }
 
-        // Determine if this is a chapter
-        const isChapter = task.description.toLowerCase().includes('chapter') ||
-          task.title?.toLowerCase().includes('chapter');
+        // --- CONTINUITY MEMORY ---
+        const previousMemory = [...activeRun.tasks].reverse().find(t => t.index < record.index && t.memory)?.memory;
+        let memory: ChapterMemory;
+        try {
+          log(AgentRole.CONSISTENCY_CHECKER, 'Recording story-so-far memory...', undefined, 'thinking');
+          const summarized = await summarizeChapter(contentStr, previousMemory, context);
+          memory = summarized.memory;
+          blockUsage = addUsage(blockUsage, summarized.usage);
+          log(AgentRole.CONSISTENCY_CHECKER, 'Chapter memory recorded.', memory.summary, 'success', detailsOf(summarized));
+        } catch (error) {
+          if (signal?.aborted || isBudgetExceeded(error)) throw error;
+          // Memory is best-effort: fall back to the opening of the chapter
+          memory = {
+            summary: contentStr.substring(0, 300),
+            openThreads: previousMemory?.openThreads || [],
+            characterStates: previousMemory?.characterStates || []
+          };
+          log(AgentRole.CONSISTENCY_CHECKER, 'Could not summarize chapter; using its opening as memory.', String(error), 'warning');
+        }
 
         // INTEGRATION
-        newBlocks.push({
-          id: Math.random().toString(36).substr(2, 9),
-          type: isChapter ? BlockType.CHAPTER : BlockType.TEXT,
+        const block: ContentBlock = {
+          ...draftBlock,
           content: contentStr,
-          status: BlockStatus.DRAFT,
-          revisionHistory: [],
+          revisionHistory,
           metadata: {
-            agentSignature: 'Writer Agent',
+            ...draftBlock.metadata,
             modelUsed: writerResult.provider,
-            prompt: task.description,
-            title: task.title,
-            chapterNumber: isChapter ? chapterNumber++ : undefined
+            usage: blockUsage
           }
-        });
+        };
+        await updateTask(activeRun, record.index, { status: 'completed', block, provider: writerResult.provider, memory, completedAt: Date.now() });
+        return block;
       }
+
+      // Non-writing tasks produce no block; mark them done so resume skips them
+      await updateTask(activeRun, record.index, { status: 'completed', completedAt: Date.now() });
+      return null;
+    };
+
+    try {
+      await runPool(pendingTasks, concurrency, async (record) => {
+        results.set(record.index, await executeTask(record));
+        emitInOrder();
+      });
+    } finally {
+      // A failed or cancelled run still hands back every block that finished
+      emitInOrder(true);
     }
+
+    run.status = run.tasks.every(t => t.status === 'completed') ? 'completed' : 'failed';
+    await saveRun(run);
   } catch (error) {
-    console.error('Workflow error:', error);
-    log(AgentRole.PROJECT_MANAGER, 'Workflow encountered an error.', String(error), 'failed');
+    if (run) {
+      // In-flight tasks go back to pending on cancel or budget stop so they are retried on resume
+      const interrupted = signal?.aborted || isBudgetExceeded(error);
+      run.tasks = run.tasks.map(t => t.status !== 'running' ? t : interrupted
+        ? { ...t, status: 'pending' }
+        : { ...t, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      run.status = signal?.aborted ? 'cancelled' : 'failed';
+      await saveRun(run);
+    }
+
+    if (signal?.aborted) {
+      log(AgentRole.PROJECT_MANAGER, `Workflow cancelled. Kept ${newBlocks.length} completed block(s).`, undefined, 'warning');
+    } else if (isBudgetExceeded(error)) {
+      log(AgentRole.PROJECT_MANAGER, `Budget cap reached. Stopped after ${newBlocks.length} completed block(s).`, error.message, 'failed');
+    } else {
+      console.error('Workflow error:', error);
+      log(AgentRole.PROJECT_MANAGER, 'Workflow encountered an error.', String(error), 'failed');
+    }
+  }
+
+  const runUsage = budget.usage;
+  if (runUsage.calls > 0) {
+    log(
+      AgentRole.PROJECT_MANAGER,
+      `Run usage: ${formatTokens(totalTokens(runUsage))} tokens, ${formatCost(runUsage.cost)}${runUsage.estimated ? ' (partly estimated)' : ''}.`,
+      `${runUsage.calls} model call(s)`,
+      'success'
+    );
   }
 
   return newBlocks;
@@ -419,21 +818,22 @@ export const refineContent = async (
   onLog(`Editing content: ${action}...`);
 
   try {
-    const result = await generateWithFallback(
+    const result = await generateValidated<{ content: string; changes?: string }>(
+      SCHEMAS.editorOutput,
       `Original Content:\n${content}\n\nAction: ${action}`,
       {
         systemPrompt: EDITOR_PROMPT,
         responseFormat: 'json'
       },
-      [ModelProvider.GEMINI, ModelProvider.DEEPSEEK]
+      'editing'
     );
 
-    const parsed = safeParseJSON<{ content: string; changes: string }>(result.text, {
-      content: content,
-      changes: "Failed to parse changes."
-    });
+    if (result.repaired) onLog(result.data ? 'Editor output repaired after validation.' : 'Editor output invalid after repair.');
+    if (!result.data) {
+      return { content, changes: "Failed to parse changes." };
+    }
 
-    return parsed;
+    return { content: result.data.content, changes: result.data.changes || '' };
 
   } catch (error) {
     console.error('Refine error:', error);
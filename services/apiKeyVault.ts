@@ -0,0 +1,143 @@
+import { ImageProviderName, ModelProvider } from '../types';
+import { getProvider } from './modelRegistry';
+import { getImageProviders } from './imageRegistry';
+import { resetCircuits } from './providerRouter';
+import { pingProvider } from './providerHealth';
+
+// ============================================
+// API KEY VAULT
+// Runtime provider keys, encrypted at rest in localStorage with a
+// passphrase-derived AES-GCM key (PBKDF2-SHA256). Keys entered here
+// override the build-time VITE_* env vars without a rebuild.
+// ============================================
+
+// Per provider: its API key (the server URL for LOCAL and SD_WEBUI). Missing = use the env value.
+// Image providers backed by a text vendor (Gemini, HuggingFace) share its entry.
+export type ProviderKeys = Partial<Record<ModelProvider | ImageProviderName, string>>;
+
+interface EncryptedVault {
+    version: number;
+    salt: string; // base64
+    iv: string; // base64
+    data: string; // base64 AES-GCM ciphertext of the JSON-encoded ProviderKeys
+}
+
+const VAULT_STORAGE_KEY = 'vibe_api_key_vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 250_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Decrypted keys live in memory only, for the session
+let activeKeys: ProviderKeys = {};
+let unlocked = false;
+
+// ============================================
+// ENCRYPTION
+// ============================================
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const readVault = (): EncryptedVault | null => {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+        const vault = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) || 'null');
+        return vault?.version === VAULT_VERSION ? vault : null;
+    } catch {
+        return null;
+    }
+};
+
+// ============================================
+// STORAGE
+// ============================================
+
+export const hasStoredKeys = (): boolean => readVault() !== null;
+
+/** True once the stored vault was unlocked (or replaced) this session */
+export const isVaultUnlocked = (): boolean => unlocked;
+
+/** Encrypt and store the keys, replacing any saved vault (a fresh salt each time) */
+export async function saveKeys(keys: ProviderKeys, passphrase: string): Promise<void> {
+    if (!passphrase) throw new Error('A passphrase is required to store API keys');
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(keys)));
+
+    const vault: EncryptedVault = { version: VAULT_VERSION, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+    unlocked = true;
+    console.log('[Keys] Vault saved');
+}
+
+/** Decrypt the stored keys; throws on a wrong passphrase */
+export async function unlockKeys(passphrase: string): Promise<ProviderKeys> {
+    const vault = readVault();
+    if (!vault) return {};
+
+    const key = await deriveKey(passphrase, fromBase64(vault.salt));
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+        unlocked = true;
+        return JSON.parse(new TextDecoder().decode(plain));
+    } catch {
+        // AES-GCM authentication fails for a wrong passphrase (or a tampered vault)
+        throw new Error('Wrong passphrase');
+    }
+}
+
+/** Delete the stored vault and fall back to the env keys */
+export function clearStoredKeys(): void {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    unlocked = false;
+    applyKeys({});
+    console.log('[Keys] Vault cleared');
+}
+
+// ============================================
+// PROVIDER RECONFIGURATION
+// ============================================
+
+/** Runtime key for a provider, if one was applied this session */
+export const getActiveKey = (provider: ModelProvider | ImageProviderName): string | undefined => activeKeys[provider];
+
+export const getActiveKeys = (): ProviderKeys => ({ ...activeKeys });
+
+/** Hand each provider its runtime key (or its env key when none is given) */
+export function applyKeys(keys: ProviderKeys): void {
+    activeKeys = Object.fromEntries(
+        Object.entries(keys).map(([name, key]) => [name, key?.trim()]).filter(([, key]) => key)
+    );
+    for (const name of Object.values(ModelProvider)) {
+        getProvider(name)?.setCredential?.(activeKeys[name] || null);
+    }
+    for (const provider of getImageProviders()) {
+        provider.setCredential?.(activeKeys[provider.name] || null);
+    }
+    // Failures under the old keys say nothing about the new ones
+    resetCircuits();
+}
+
+/**
+ * Ping every configured provider and mark its registry models available or not.
+ * Unconfigured providers are reported false without a request.
+ */
+export async function refreshAvailability(): Promise<Partial<Record<ModelProvider, boolean>>> {
+    const results = await Promise.all(Object.values(ModelProvider).map(async name => [name, await pingProvider(name)] as const));
+    console.log('[Keys] Availability:', results.map(([name, ok]) => `${name}=${ok}`).join(', '));
+    return Object.fromEntries(results);
+}
@@ -1,10 +1,11 @@
 import { Project, ContentBlock, BlockType, BlockStatus } from '../types';
+import { renderMarkdown } from './markdown';
 
 // ============================================
 // BOOK EXPORTER SERVICE
 // ============================================
 
-interface ExportOptions {
+export interface ExportOptions {
     includeMetadata?: boolean;
     includeDrafts?: boolean;
     style?: 'modern' | 'classic' | 'minimal';
@@ -208,7 +209,60 @@ const BOOK_CSS = `
   h2 { font-size: 1.5rem; }
   h3 { font-size: 1.25rem; }
   h4 { font-size: 1.1rem; }
-  
+
+  /* Markdown extras */
+  blockquote {
+    margin: 1.5rem 2rem;
+    font-style: italic;
+  }
+
+  .chapter-content ul, .chapter-content ol,
+  .text-block ul, .text-block ol {
+    margin: 0 0 1.5rem 2rem;
+  }
+
+  .scene-break {
+    border: none;
+    margin: 2rem 0;
+    text-align: center;
+  }
+
+  .scene-break::after {
+    content: '* * *';
+    letter-spacing: 0.5em;
+    color: var(--color-muted);
+  }
+
+  .scene-break + p {
+    text-indent: 0;
+  }
+
+  .small-caps {
+    font-style: normal;
+    font-variant: small-caps;
+    letter-spacing: 0.05em;
+  }
+
+  .footnotes {
+    margin-top: 3rem;
+    padding-top: 1rem;
+    border-top: 1px solid #ddd;
+    font-size: 0.9rem;
+  }
+
+  .footnotes-label {
+    font-family: var(--font-sans);
+    font-size: 0.8rem;
+    text-transform: uppercase;
+    letter-spacing: 0.1em;
+    color: var(--color-muted);
+  }
+
+  .footnotes p {
+    text-indent: 0;
+    margin-bottom: 0.5rem;
+  }
+
   /* Print styles */
   @media print {
     body {
@@ -245,7 +299,7 @@ function renderBlock(block: ContentBlock, index: number): string {
             <h1 class="chapter-title">${escapeHtml(chapterTitle)}</h1>
           </div>
           <div class="chapter-content">
-            ${markdownToHtml(block.content)}
+            ${renderMarkdown(block.content, { idPrefix: `chapter-${chapterNum}-` })}
           </div>
         </section>
       `;
@@ -261,7 +315,7 @@ function renderBlock(block: ContentBlock, index: number): string {
         case BlockType.TEXT:
             return `
         <div class="text-block">
-          ${markdownToHtml(block.content)}
+          ${renderMarkdown(block.content, { idPrefix: `block-${index}-` })}
         </div>
       `;
 
@@ -276,40 +330,13 @@ function renderBlock(block: ContentBlock, index: number): string {
         default:
             return `
         <div class="text-block">
-          ${markdownToHtml(block.content)}
+          ${renderMarkdown(block.content, { idPrefix: `block-${index}-` })}
         </div>
       `;
     }
 }
 
-// Simple markdown to HTML converter
-function markdownToHtml(markdown: string): string {
-    if (!markdown) return '';
-
-    let html = escapeHtml(markdown);
-
-    // Headers
-    html = html.replace(/^### (.*$)/gm, '<h3>$1</h3>');
-    html = html.replace(/^## (.*$)/gm, '<h2>$1</h2>');
-    html = html.replace(/^# (.*$)/gm, '<h1>$1</h1>');
-
-    // Bold and italic
-    html = html.replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em>$1</em></strong>');
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-    // Paragraphs
-    html = html.split('\n\n').map(p => {
-        p = p.trim();
-        if (!p) return '';
-        if (p.startsWith('<h') || p.startsWith('<ul') || p.startsWith('<ol')) return p;
-        return `<p>${p.replace(/\n/g, '<br>')}</p>`;
-    }).join('\n');
-
-    return html;
-}
-
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
     return text
         .replace(/&/g, '&amp;')
         .replace(/</g, '&lt;')
@@ -346,6 +373,15 @@ function findCoverImage(blocks: ContentBlock[]): string | null {
     return imageBlock?.content || null;
 }
 
+/** Blocks that go into an export: approved and pending-review ones, plus drafts when asked */
+export function exportableBlocks(project: Project, includeDrafts: boolean = false): ContentBlock[] {
+    if (includeDrafts) return project.blocks;
+    return project.blocks.filter(b =>
+        b.status === BlockStatus.APPROVED ||
+        b.status === BlockStatus.PENDING_REVIEW
+    );
+}
+
 // ============================================
 // MAIN EXPORT FUNCTION
 // ============================================
@@ -357,14 +393,7 @@ export function exportToHtml(project: Project, options: ExportOptions = {}): str
         style = 'modern'
     } = options;
 
-    // Filter blocks
-    let blocks = project.blocks;
-    if (!includeDrafts) {
-        blocks = blocks.filter(b =>
-            b.status === BlockStatus.APPROVED ||
-            b.status === BlockStatus.PENDING_REVIEW
-        );
-    }
+    const blocks = exportableBlocks(project, includeDrafts);
 
     // Get cover image
     const coverImage = findCoverImage(blocks);
@@ -422,20 +451,28 @@ ${BOOK_CSS}
 // DOWNLOAD HELPERS
 // ============================================
 
-export function downloadAsHtml(project: Project, options: ExportOptions = {}): void {
-    const html = exportToHtml(project, options);
-    const blob = new Blob([html], { type: 'text/html' });
+/** File name stem for a project's exports */
+export const exportFileName = (project: Project): string =>
+    project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+/** Save a blob through a temporary download link */
+export function downloadBlob(blob: Blob, fileName: string): void {
     const url = URL.createObjectURL(blob);
 
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.html`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
 }
 
+export function downloadAsHtml(project: Project, options: ExportOptions = {}): void {
+    const html = exportToHtml(project, options);
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${exportFileName(project)}.html`);
+}
+
 export function exportMetadata(project: Project): string {
     const metadata = {
         title: project.title,
@@ -465,14 +502,5 @@ export function exportMetadata(project: Project): string {
 
 export function downloadMetadata(project: Project): void {
     const metadata = exportMetadata(project);
-    const blob = new Blob([metadata], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_metadata.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([metadata], { type: 'application/json' }), `${exportFileName(project)}_metadata.json`);
 }
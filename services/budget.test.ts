@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ModelProvider, Project, ProjectBudget, UsageTotals, WorkflowPhase } from '../types';
+import { BudgetExceededError, createBudgetGuard } from './budget';
+import { recordUsage } from './usageTracker';
+
+const makeProject = (budget: ProjectBudget, total?: UsageTotals): Project => ({
+    id: `project-${Math.random().toString(36).slice(2)}`,
+    title: 'Budget Test',
+    description: '',
+    blocks: [],
+    lastModified: Date.now(),
+    settings: { autoSelectModel: true, maxConcurrentTasks: 1, budget },
+    workflowPhase: WorkflowPhase.EXECUTION,
+    ...(total && { usage: { total, byModel: {} } })
+});
+
+const tokens = (promptTokens: number, completionTokens = 0): UsageTotals =>
+    ({ promptTokens, completionTokens, cost: 0, calls: 1 });
+
+// What meterUsage reports for a finished call
+const meter = (project: Project, usage: UsageTotals) =>
+    recordUsage({ provider: ModelProvider.LOCAL, modelId: 'mock-model', usage, projectId: project.id, timestamp: Date.now() });
+
+describe('BudgetGuard', () => {
+    it('refuses a call whose estimate would cross the run cap', () => {
+        const guard = createBudgetGuard(makeProject({ maxRunTokens: 1_000 }));
+
+        guard.reserve(tokens(600)).settle(tokens(600));
+
+        expect(() => guard.reserve(tokens(300, 200))).toThrow(/could exceed the run token cap/);
+        expect(() => guard.reserve(tokens(300))).not.toThrow();
+    });
+
+    it('counts calls in flight against the cap', () => {
+        const guard = createBudgetGuard(makeProject({ maxRunTokens: 1_000 }));
+
+        const first = guard.reserve(tokens(600));
+        expect(() => guard.reserve(tokens(600))).toThrow(BudgetExceededError);
+
+        first.settle();
+        expect(() => guard.reserve(tokens(600))).not.toThrow();
+    });
+
+    it('shares project spend and reservations between runs', () => {
+        const project = makeProject({ maxProjectTokens: 1_000 });
+        const first = createBudgetGuard(project);
+        const second = createBudgetGuard(project);
+
+        const reservation = first.reserve(tokens(600));
+        let error: unknown;
+        try {
+            second.reserve(tokens(600));
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect((error as BudgetExceededError).scope).toBe('project');
+
+        // Settled usage reaches the ledger through the usage event
+        reservation.settle(tokens(600));
+        meter(project, tokens(600));
+        expect(() => second.reserve(tokens(500))).toThrow(/project token cap/);
+        expect(() => createBudgetGuard(project).reserve(tokens(300))).not.toThrow();
+    });
+
+    it('counts project calls made outside any guard', () => {
+        const project = makeProject({ maxProjectTokens: 1_000 });
+        const guard = createBudgetGuard(project);
+
+        meter(project, tokens(1_000));
+
+        expect(() => guard.check()).toThrow(/Reached the project token cap/);
+    });
+
+    it('starts from the usage already recorded on the project', () => {
+        const guard = createBudgetGuard(makeProject({ maxProjectTokens: 1_000 }, tokens(900)));
+
+        expect(() => guard.reserve(tokens(200))).toThrow(/used or in flight/);
+        expect(() => guard.reserve(tokens(100))).not.toThrow();
+    });
+
+    it('warns once per cap when spend crosses the threshold', () => {
+        const onWarning = vi.fn();
+        const guard = createBudgetGuard(makeProject({ maxRunTokens: 1_000, warnAt: 0.5 }), onWarning);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        guard.reserve(tokens(400)).settle(tokens(400));
+        expect(onWarning).not.toHaveBeenCalled();
+
+        guard.reserve(tokens(200)).settle(tokens(200));
+        guard.reserve(tokens(100)).settle(tokens(100));
+        expect(onWarning).toHaveBeenCalledTimes(1);
+        expect(onWarning).toHaveBeenCalledWith('60% of the run token cap used (600 of 1.0k).');
+        warn.mockRestore();
+    });
+
+    it('leaves unset caps unbounded', () => {
+        const guard = createBudgetGuard(makeProject({}));
+
+        expect(() => guard.reserve(tokens(1_000_000))).not.toThrow();
+    });
+});
@@ -0,0 +1,164 @@
+import { Project, ProjectBudget, SpendGuard, SpendReservation, UsageTotals } from '../types';
+import { addUsage, emptyUsage, formatCost, formatTokens, subscribeUsage, totalTokens } from './usageTracker';
+
+// ============================================
+// SPEND BUDGETS
+// Per-run and per-project caps on cost and tokens, checked
+// before every metered call
+// ============================================
+
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+export type BudgetScope = 'run' | 'project';
+
+export class BudgetExceededError extends Error {
+    constructor(message: string, public readonly scope: BudgetScope) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const isBudgetExceeded = (error: unknown): error is BudgetExceededError =>
+    error instanceof BudgetExceededError;
+
+const withoutUsage = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+    promptTokens: a.promptTokens - b.promptTokens,
+    completionTokens: a.completionTokens - b.completionTokens,
+    cost: a.cost - b.cost,
+    calls: a.calls - b.calls
+});
+
+interface BudgetLimit {
+    key: string;
+    label: string;
+    scope: BudgetScope;
+    cap: number;
+    spent: number;
+    format: (value: number) => string;
+}
+
+/** A project's spend, shared by every guard on it so concurrent runs see each other's calls */
+export interface ProjectLedger {
+    spent: UsageTotals; // Every metered call attributed to the project
+    reserved: UsageTotals; // Estimates of calls in flight, from any run
+}
+
+// One ledger per project id, fed by the usage events so unguarded calls (chat, images) count too
+const projectLedgers = new Map<string, ProjectLedger>();
+
+subscribeUsage(entry => {
+    const ledger = entry.projectId && projectLedgers.get(entry.projectId);
+    if (ledger) ledger.spent = addUsage(ledger.spent, entry.usage);
+});
+
+/** The project's shared ledger, seeded with its recorded usage the first time */
+const getProjectLedger = (project: Project): ProjectLedger => {
+    let ledger = projectLedgers.get(project.id);
+    if (!ledger) {
+        ledger = { spent: project.usage?.total || emptyUsage(), reserved: emptyUsage() };
+        projectLedgers.set(project.id, ledger);
+    }
+    return ledger;
+};
+
+/** Forget a deleted project's ledger */
+export const clearProjectLedger = (projectId: string): void => {
+    projectLedgers.delete(projectId);
+};
+
+/**
+ * Tracks one run (a workflow, a synthesis, a generator action) against the project's budget.
+ * Pass it as `options.budget`: generateMetered reserves a worst-case estimate before each call
+ * and settles it with the metered usage after. Project spend and reservations live in the
+ * shared ledger, so concurrent runs on a project cannot together slip past a project cap.
+ */
+export class BudgetGuard implements SpendGuard {
+    private runUsage: UsageTotals = emptyUsage();
+    private runReserved: UsageTotals = emptyUsage(); // Estimates of this run's calls in flight
+    private warned = new Set<string>();
+
+    constructor(
+        private budget: ProjectBudget = {},
+        private ledger: ProjectLedger = { spent: emptyUsage(), reserved: emptyUsage() },
+        private onWarning?: (message: string) => void
+    ) {}
+
+    // Spend against each cap: committed, plus reservations in flight and `pending` when asked
+    private limits(pending?: UsageTotals): BudgetLimit[] {
+        const { budget, ledger } = this;
+        const runUsage = pending ? addUsage(addUsage(this.runUsage, this.runReserved), pending) : this.runUsage;
+        const projectUsage = pending ? addUsage(addUsage(ledger.spent, ledger.reserved), pending) : ledger.spent;
+        const limits: Array<Omit<BudgetLimit, 'cap'> & { cap?: number }> = [
+            { key: 'runCost', label: 'run budget', scope: 'run', cap: budget.maxRunCost, spent: runUsage.cost, format: formatCost },
+            { key: 'runTokens', label: 'run token cap', scope: 'run', cap: budget.maxRunTokens, spent: totalTokens(runUsage), format: formatTokens },
+            { key: 'projectCost', label: 'project budget', scope: 'project', cap: budget.maxProjectCost, spent: projectUsage.cost, format: formatCost },
+            { key: 'projectTokens', label: 'project token cap', scope: 'project', cap: budget.maxProjectTokens, spent: totalTokens(projectUsage), format: formatTokens }
+        ];
+        // Unset or zero caps are unbounded
+        return limits.filter((l): l is BudgetLimit => !!l.cap && l.cap > 0);
+    }
+
+    /** Throw BudgetExceededError when any cap has been reached, counting calls still in flight */
+    check(): void {
+        const exceeded = this.limits(emptyUsage()).find(l => l.spent >= l.cap);
+        if (exceeded) {
+            throw new BudgetExceededError(
+                `Reached the ${exceeded.label} (${exceeded.format(exceeded.spent)} of ${exceeded.format(exceeded.cap)}). Raise it in the project settings to continue.`,
+                exceeded.scope
+            );
+        }
+    }
+
+    /** Hold `estimate` against the caps until the call settles; refuse it when it could cross one */
+    reserve(estimate: UsageTotals): SpendReservation {
+        this.check();
+        const committed = new Map(this.limits(emptyUsage()).map(l => [l.key, l.spent]));
+        const exceeded = this.limits(estimate).find(l => l.spent > l.cap);
+        if (exceeded) {
+            const used = committed.get(exceeded.key) ?? 0;
+            throw new BudgetExceededError(
+                `The next call could exceed the ${exceeded.label} (up to ${exceeded.format(exceeded.spent - used)} more, with ${exceeded.format(used)} of ${exceeded.format(exceeded.cap)} used or in flight). Raise it in the project settings to continue.`,
+                exceeded.scope
+            );
+        }
+
+        this.runReserved = addUsage(this.runReserved, estimate);
+        this.ledger.reserved = addUsage(this.ledger.reserved, estimate);
+        let settled = false;
+        return {
+            settle: (usage) => {
+                if (settled) return;
+                settled = true;
+                this.runReserved = withoutUsage(this.runReserved, estimate);
+                this.ledger.reserved = withoutUsage(this.ledger.reserved, estimate);
+                if (usage) this.record(usage);
+            }
+        };
+    }
+
+    /**
+     * Add a metered call to the run, warning once per cap when it crosses the threshold.
+     * The project's share reaches the ledger through the usage event meterUsage records.
+     */
+    private record(usage: UsageTotals): void {
+        this.runUsage = addUsage(this.runUsage, usage);
+
+        const warnAt = this.budget.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+        for (const limit of this.limits()) {
+            if (limit.spent < limit.cap * warnAt || this.warned.has(limit.key)) continue;
+            this.warned.add(limit.key);
+            const percent = Math.min(100, Math.round((limit.spent / limit.cap) * 100));
+            const message = `${percent}% of the ${limit.label} used (${limit.format(limit.spent)} of ${limit.format(limit.cap)}).`;
+            console.warn(`[Budget] ${message}`);
+            this.onWarning?.(message);
+        }
+    }
+
+    get usage(): UsageTotals {
+        return this.runUsage;
+    }
+}
+
+/** Guard for one run on the project, sharing the project's ledger with its other runs */
+export const createBudgetGuard = (project: Project, onWarning?: (message: string) => void): BudgetGuard =>
+    new BudgetGuard(project.settings.budget, getProjectLedger(project), onWarning);
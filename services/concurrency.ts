@@ -0,0 +1,152 @@
+import { ModelProvider } from '../types';
+
+// ============================================
+// CONCURRENCY CONTROL
+// Per-provider rate limiting and a bounded worker pool
+// for running independent workflow tasks in parallel
+// ============================================
+
+export interface ProviderRateLimit {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+}
+
+// Conservative defaults that stay within each vendor's free/entry tier
+export const PROVIDER_RATE_LIMITS: Record<ModelProvider, ProviderRateLimit> = {
+    [ModelProvider.GEMINI]: { maxConcurrent: 3, requestsPerMinute: 15 },
+    [ModelProvider.GROQ]: { maxConcurrent: 2, requestsPerMinute: 30 },
+    [ModelProvider.DEEPSEEK]: { maxConcurrent: 3, requestsPerMinute: 60 },
+    [ModelProvider.MISTRAL]: { maxConcurrent: 2, requestsPerMinute: 60 },
+    [ModelProvider.OPENROUTER]: { maxConcurrent: 2, requestsPerMinute: 20 },
+    [ModelProvider.HUGGINGFACE]: { maxConcurrent: 1, requestsPerMinute: 30 },
+    [ModelProvider.LOCAL]: { maxConcurrent: 1, requestsPerMinute: 600 } // One GPU; no vendor quota
+};
+
+export const DEFAULT_MAX_CONCURRENT_TASKS = 2;
+export const MAX_CONCURRENT_TASKS_LIMIT = 6;
+
+const RATE_WINDOW_MS = 60_000;
+
+// ============================================
+// PROVIDER RATE LIMITER
+// ============================================
+
+interface LimiterState {
+    active: number;
+    recentStarts: number[];
+    waiters: Array<() => void>;
+}
+
+const limiterStates = new Map<ModelProvider, LimiterState>();
+
+const getLimiterState = (provider: ModelProvider): LimiterState => {
+    let state = limiterStates.get(provider);
+    if (!state) {
+        state = { active: 0, recentStarts: [], waiters: [] };
+        limiterStates.set(provider, state);
+    }
+    return state;
+};
+
+// Resolves when a slot is released or the rate window frees up, rejects on abort
+const waitForSlot = (state: LimiterState, timeoutMs: number | undefined, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            state.waiters = state.waiters.filter(w => w !== wake);
+        };
+        const wake = () => {
+            cleanup();
+            resolve();
+        };
+        const onAbort = () => {
+            cleanup();
+            reject(signal!.reason);
+        };
+
+        state.waiters.push(wake);
+        if (timeoutMs !== undefined) timer = setTimeout(wake, timeoutMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Wait for a request slot on the provider. Call the returned release function when the request settles.
+ */
+export async function acquireProviderSlot(provider: ModelProvider, signal?: AbortSignal): Promise<() => void> {
+    const limit = PROVIDER_RATE_LIMITS[provider];
+    const state = getLimiterState(provider);
+
+    while (true) {
+        signal?.throwIfAborted();
+
+        const now = Date.now();
+        state.recentStarts = state.recentStarts.filter(t => now - t < RATE_WINDOW_MS);
+
+        if (state.active < limit.maxConcurrent && state.recentStarts.length < limit.requestsPerMinute) {
+            state.active++;
+            state.recentStarts.push(now);
+
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                state.active--;
+                state.waiters[0]?.();
+            };
+        }
+
+        // Concurrency-bound waits for a release; rate-bound waits for the oldest start to age out
+        const timeoutMs = state.active >= limit.maxConcurrent
+            ? undefined
+            : RATE_WINDOW_MS - (now - state.recentStarts[0]);
+        console.log(`[Concurrency] ${provider} at capacity, waiting for a slot`);
+        await waitForSlot(state, timeoutMs, signal);
+    }
+}
+
+/** Run fn while holding a rate-limited slot on the provider */
+export async function withProviderSlot<T>(provider: ModelProvider, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await acquireProviderSlot(provider, signal);
+    try {
+        return await fn();
+    } finally {
+        release();
+    }
+}
+
+// ============================================
+// WORKER POOL
+// ============================================
+
+/**
+ * Run worker over items with at most `limit` in flight, starting items in order.
+ * After the first failure no new items start; in-flight ones settle, then the error is rethrown.
+ */
+export async function runPool<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    let failed = false;
+    let firstError: unknown;
+
+    const lane = async () => {
+        while (!failed && next < items.length) {
+            const item = items[next++];
+            try {
+                await worker(item);
+            } catch (error) {
+                if (!failed) {
+                    failed = true;
+                    firstError = error;
+                }
+            }
+        }
+    };
+
+    const laneCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: laneCount }, lane));
+
+    if (failed) throw firstError;
+}
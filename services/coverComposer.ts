@@ -0,0 +1,365 @@
+import { CoverSpecs, TRIM_SIZES } from './kdpHelper';
+import { crc32 } from './zipWriter';
+import { POINTS_PER_INCH, createPdfDocument, imageOp } from './pdfWriter';
+import { downloadBlob } from './bookExporter';
+
+// ============================================
+// COVER COMPOSER
+// Full-wrap paperback covers (back, spine, front) drawn on a canvas at
+// the exact pixel size from calculateCoverSpecs, saved as a 300-DPI
+// PNG or as a PDF with its trim and bleed boxes set
+// ============================================
+
+export interface CoverDesign {
+    title: string;
+    subtitle?: string;
+    author: string;
+    blurb?: string; // Back cover copy, e.g. the KDP description
+    artUrl?: string; // Front cover art: an IMAGE block's content (data URL or URL)
+    backgroundColor?: string; // Back, spine, and the front when there is no art
+    textColor?: string;
+    showGuides?: boolean; // Bleed, trim, fold, safe-zone and barcode lines; for previews only, KDP rejects covers showing them
+}
+
+export interface CoverRect {
+    x: number; // Pixels from the top-left corner of the full cover, bleed included
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface CoverLayout {
+    width: number; // Pixels, bleed included
+    height: number;
+    dpi: number;
+    bleed: number; // Pixels
+    back: CoverRect; // Panels at their trim lines
+    spine: CoverRect;
+    front: CoverRect;
+    barcode: CoverRect; // Left empty for the ISBN barcode KDP prints
+    safeZone: number; // Pixels inside the trim that text stays clear of
+}
+
+// Inches
+const SAFE_ZONE = 0.125;
+const SPINE_CLEARANCE = 0.0625; // KDP: between spine text and each fold
+const TEXT_MARGIN = 0.5; // Composition margin inside each panel
+const BARCODE = { width: 2, height: 1.2, inset: 0.25 }; // KDP's barcode area, lower right of the back cover
+
+const TITLE_FONT = "'Playfair Display', Georgia, serif";
+const BODY_FONT = 'Georgia, serif';
+const DEFAULT_BACKGROUND = '#1a1a2e';
+const DEFAULT_TEXT_COLOR = '#f5f5f0';
+const PDF_JPEG_QUALITY = 0.95;
+
+// ============================================
+// LAYOUT
+// ============================================
+
+/** Panel, spine and barcode rectangles for a cover, in pixels */
+export function getCoverLayout(specs: CoverSpecs): CoverLayout {
+    const trim = TRIM_SIZES[specs.trimSize] || TRIM_SIZES['6x9'];
+    const { dpi } = specs;
+    const bleed = specs.bleed * dpi;
+    const panelWidth = trim.width * dpi;
+    const panelHeight = trim.height * dpi;
+    // The spine takes whatever the rounded total width leaves, so the parts add up exactly
+    const spineWidth = specs.coverWidth - bleed * 2 - panelWidth * 2;
+
+    const back = { x: bleed, y: bleed, width: panelWidth, height: panelHeight };
+    const spine = { x: bleed + panelWidth, y: bleed, width: spineWidth, height: panelHeight };
+    const front = { x: spine.x + spineWidth, y: bleed, width: panelWidth, height: panelHeight };
+    const barcode = {
+        x: back.x + back.width - (BARCODE.inset + BARCODE.width) * dpi,
+        y: back.y + back.height - (BARCODE.inset + BARCODE.height) * dpi,
+        width: BARCODE.width * dpi,
+        height: BARCODE.height * dpi
+    };
+
+    return { width: specs.coverWidth, height: specs.coverHeight, dpi, bleed, back, spine, front, barcode, safeZone: SAFE_ZONE * dpi };
+}
+
+// ============================================
+// DRAWING
+// ============================================
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.crossOrigin = 'anonymous'; // Remote art must allow CORS, or the canvas cannot be exported
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not load the cover art'));
+        image.src = url;
+    });
+
+// Lines of text wrapped to `maxWidth` in the context's current font; blank lines separate paragraphs
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    text.split(/\n\s*\n/).forEach((paragraph, i) => {
+        if (i > 0) lines.push('');
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        if (line) lines.push(line);
+    });
+    return lines;
+};
+
+/**
+ * Wrap text in the largest font size (down to `minSize`) whose lines fit the box;
+ * at the smallest size, lines that still do not fit are cut and the last one ellipsized.
+ */
+const fitText = (
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    font: (size: number) => string,
+    box: { width: number; height: number },
+    maxSize: number,
+    minSize: number,
+    lineHeight: number
+): { lines: string[]; size: number } => {
+    let size = maxSize;
+    for (; ; size = Math.max(minSize, size * 0.92)) {
+        ctx.font = font(size);
+        const lines = wrapText(ctx, text, box.width);
+        const capacity = Math.max(1, Math.floor(box.height / (size * lineHeight)));
+        if (lines.length <= capacity) return { lines, size };
+        if (size === minSize) {
+            const kept = lines.slice(0, capacity);
+            kept[kept.length - 1] = `${kept[kept.length - 1].replace(/\s*\S*$/, '')}…`;
+            return { lines: kept, size };
+        }
+    }
+};
+
+// Scale the image to cover the rectangle, cropping the overflow evenly
+const drawCoverFit = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sw = width / scale;
+    const sh = height / scale;
+    ctx.drawImage(image, (image.naturalWidth - sw) / 2, (image.naturalHeight - sh) / 2, sw, sh, x, y, width, height);
+};
+
+const drawGuides = (ctx: CanvasRenderingContext2D, layout: CoverLayout) => {
+    const { width, height, bleed, back, spine, front, barcode, safeZone, dpi } = layout;
+    ctx.save();
+    ctx.lineWidth = Math.max(2, dpi / 100);
+    ctx.setLineDash([dpi / 12, dpi / 24]);
+
+    // Trim (everything outside it is bleed)
+    ctx.strokeStyle = '#ef4444';
+    ctx.strokeRect(bleed, bleed, width - bleed * 2, height - bleed * 2);
+
+    // Spine folds
+    ctx.strokeStyle = '#3b82f6';
+    for (const x of [spine.x, spine.x + spine.width]) {
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+    }
+
+    // Safe zones
+    ctx.strokeStyle = '#22c55e';
+    for (const panel of [back, front]) {
+        ctx.strokeRect(panel.x + safeZone, panel.y + safeZone, panel.width - safeZone * 2, panel.height - safeZone * 2);
+    }
+    const clearance = SPINE_CLEARANCE * dpi;
+    if (spine.width > clearance * 2) {
+        ctx.strokeRect(spine.x + clearance, spine.y + safeZone, spine.width - clearance * 2, spine.height - safeZone * 2);
+    }
+
+    // Barcode area
+    ctx.strokeStyle = '#f97316';
+    ctx.strokeRect(barcode.x, barcode.y, barcode.width, barcode.height);
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#f97316';
+    ctx.font = `${dpi * 0.12}px ${BODY_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Barcode', barcode.x + barcode.width / 2, barcode.y + barcode.height / 2);
+    ctx.restore();
+};
+
+/**
+ * Draw the full-wrap cover: the art across the front (into the bleed), title, subtitle
+ * and author on the front, the blurb on the back above the barcode area, and title and
+ * author down the spine when the page count allows spine text.
+ */
+export async function renderCover(specs: CoverSpecs, design: CoverDesign): Promise<HTMLCanvasElement> {
+    const layout = getCoverLayout(specs);
+    const { dpi, back, spine, front, barcode } = layout;
+    const margin = TEXT_MARGIN * dpi;
+    const textColor = design.textColor || DEFAULT_TEXT_COLOR;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+
+    // Web fonts draw as fallbacks until loaded
+    await Promise.all([`700 64px ${TITLE_FONT}`, `italic 64px ${TITLE_FONT}`, `64px ${BODY_FONT}`]
+        .map(font => document.fonts?.load(font).catch(() => undefined)));
+
+    ctx.fillStyle = design.backgroundColor || DEFAULT_BACKGROUND;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+
+    // Front: art out to the bleed edges, then the type
+    if (design.artUrl) {
+        drawCoverFit(ctx, await loadImage(design.artUrl), front.x, 0, layout.width - front.x, layout.height);
+    }
+    ctx.fillStyle = textColor;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = dpi * 0.06;
+    const centerX = front.x + front.width / 2;
+    const textWidth = front.width - margin * 2;
+    let y = front.y + margin;
+
+    const title = fitText(ctx, design.title, size => `700 ${size}px ${TITLE_FONT}`,
+        { width: textWidth, height: front.height * 0.35 }, dpi * 0.55, dpi * 0.25, 1.15);
+    ctx.font = `700 ${title.size}px ${TITLE_FONT}`;
+    for (const line of title.lines) {
+        ctx.fillText(line, centerX, y);
+        y += title.size * 1.15;
+    }
+    if (design.subtitle) {
+        const subtitle = fitText(ctx, design.subtitle, size => `italic ${size}px ${TITLE_FONT}`,
+            { width: textWidth, height: front.height * 0.15 }, dpi * 0.22, dpi * 0.14, 1.3);
+        ctx.font = `italic ${subtitle.size}px ${TITLE_FONT}`;
+        y += subtitle.size * 0.6;
+        for (const line of subtitle.lines) {
+            ctx.fillText(line, centerX, y);
+            y += subtitle.size * 1.3;
+        }
+    }
+    const author = fitText(ctx, design.author, size => `${size}px ${TITLE_FONT}`,
+        { width: textWidth, height: dpi * 0.6 }, dpi * 0.28, dpi * 0.16, 1.2);
+    ctx.font = `${author.size}px ${TITLE_FONT}`;
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(author.lines[0] || '', centerX, front.y + front.height - margin);
+    ctx.shadowColor = 'transparent';
+
+    // Spine: reads top to bottom, title at the head and author at the foot
+    if (specs.spineText) {
+        const available = spine.width - SPINE_CLEARANCE * dpi * 2;
+        const length = spine.height - margin * 2;
+        let size = Math.min(available * 0.7, dpi * 0.3);
+        ctx.font = `700 ${size}px ${TITLE_FONT}`;
+        const titleWidth = ctx.measureText(design.title).width;
+        ctx.font = `${size}px ${TITLE_FONT}`;
+        const authorWidth = ctx.measureText(design.author).width;
+        const gap = size * 2;
+        if (titleWidth + authorWidth + gap > length) size *= length / (titleWidth + authorWidth + gap);
+
+        ctx.save();
+        ctx.translate(spine.x + spine.width / 2, spine.y + margin);
+        ctx.rotate(Math.PI / 2);
+        ctx.fillStyle = textColor;
+        ctx.textBaseline = 'middle';
+        ctx.textAlign = 'left';
+        ctx.font = `700 ${size}px ${TITLE_FONT}`;
+        ctx.fillText(design.title, 0, 0);
+        ctx.textAlign = 'right';
+        ctx.font = `${size}px ${TITLE_FONT}`;
+        ctx.fillText(design.author, length, 0);
+        ctx.restore();
+    }
+
+    // Back: the blurb, kept above the barcode area
+    if (design.blurb?.trim()) {
+        const box = { width: back.width - margin * 2, height: barcode.y - dpi * 0.25 - (back.y + margin) };
+        const blurb = fitText(ctx, design.blurb.trim(), size => `${size}px ${BODY_FONT}`, box, dpi * 0.15, dpi * 0.1, 1.45);
+        ctx.fillStyle = textColor;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.font = `${blurb.size}px ${BODY_FONT}`;
+        blurb.lines.forEach((line, i) => ctx.fillText(line, back.x + margin, back.y + margin + i * blurb.size * 1.45));
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(barcode.x, barcode.y, barcode.width, barcode.height);
+
+    if (design.showGuides) drawGuides(ctx, layout);
+    return canvas;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+const canvasBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array> =>
+    new Promise((resolve, reject) => canvas.toBlob(blob => {
+        if (!blob) return reject(new Error('Could not encode the cover'));
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, type, quality));
+
+/** The canvas as PNG, with a pHYs chunk so the file declares its DPI */
+export async function coverToPng(canvas: HTMLCanvasElement, dpi: number): Promise<Uint8Array> {
+    const png = await canvasBytes(canvas, 'image/png');
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    // Keep an existing pHYs chunk; chunks start after the 8-byte signature
+    for (let offset = 8; offset < png.length; offset += 12 + view.getUint32(offset)) {
+        const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+        if (type === 'pHYs') return png;
+        if (type === 'IDAT') break;
+    }
+
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+    const chunk = new Uint8Array(21);
+    const chunkView = new DataView(chunk.buffer);
+    chunkView.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+    chunkView.setUint32(8, pixelsPerMeter);
+    chunkView.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // Unit: meters
+    chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    // pHYs must come before the image data; right after IHDR (signature + 25 bytes) is safe
+    const out = new Uint8Array(png.length + chunk.length);
+    out.set(png.subarray(0, 33));
+    out.set(chunk, 33);
+    out.set(png.subarray(33), 33 + chunk.length);
+    return out;
+}
+
+/** The canvas as a one-page PDF at the cover's physical size, with trim and bleed boxes */
+export async function coverToPdf(canvas: HTMLCanvasElement, specs: CoverSpecs, design: CoverDesign): Promise<Uint8Array> {
+    const layout = getCoverLayout(specs);
+    const jpeg = await canvasBytes(canvas, 'image/jpeg', PDF_JPEG_QUALITY);
+    const doc = createPdfDocument({ title: `${design.title} (cover)`, author: design.author });
+    const image = doc.addJpeg(jpeg, canvas.width, canvas.height);
+
+    const scale = POINTS_PER_INCH / layout.dpi;
+    const width = layout.width * scale;
+    const height = layout.height * scale;
+    const bleed = layout.bleed * scale;
+    doc.addPage({
+        width,
+        height,
+        bleedBox: [0, 0, width, height],
+        trimBox: [bleed, bleed, width - bleed, height - bleed],
+        content: imageOp(image, 0, 0, width, height)
+    });
+    return doc.save();
+}
+
+/** Render the cover without guides and save it as PNG or PDF */
+export async function downloadCover(specs: CoverSpecs, design: CoverDesign, format: 'png' | 'pdf'): Promise<void> {
+    const finalDesign = { ...design, showGuides: false };
+    const canvas = await renderCover(specs, finalDesign);
+    const fileName = `${design.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_cover_${specs.trimSize}.${format}`;
+    if (format === 'png') {
+        downloadBlob(new Blob([await coverToPng(canvas, specs.dpi)], { type: 'image/png' }), fileName);
+    } else {
+        downloadBlob(new Blob([await coverToPdf(canvas, specs, finalDesign)], { type: 'application/pdf' }), fileName);
+    }
+}
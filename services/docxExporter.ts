@@ -0,0 +1,233 @@
+import { Project } from '../types';
+import { BookMetadata } from './workspaceManager';
+import { downloadBlob, exportFileName, exportableBlocks } from './bookExporter';
+import { Paragraph, Run, collectChapters, plainText } from './manuscript';
+import { createZip } from './zipWriter';
+import { escapeXml } from './xml';
+
+// ============================================
+// DOCX EXPORTER
+// Word manuscripts in standard submission format: title page with
+// word count, 12pt Times or Courier double-spaced with one-inch
+// margins, a "Surname / Title / page" header, each chapter on a new
+// page and scene breaks marked with a centered #
+// ============================================
+
+export interface DocxOptions {
+    includeDrafts?: boolean;
+    font?: 'times' | 'courier'; // Default 'times'
+}
+
+const FONTS = {
+    times: 'Times New Roman',
+    courier: 'Courier New'
+};
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Twentieths of a point: 1440 per inch
+const INCH = 1440;
+const TEXT_WIDTH = 6.5 * INCH; // US Letter less one-inch margins
+const CHAPTER_DROP = 2 * INCH; // Chapter titles start about a third of the way down the page
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+  <Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NAMESPACE}">
+  <Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="${REL_TYPE}/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NAMESPACE}">
+  <Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>
+  <Relationship Id="rId2" Type="${REL_TYPE}/settings" Target="settings.xml"/>
+  <Relationship Id="rId3" Type="${REL_TYPE}/header" Target="header1.xml"/>
+</Relationships>`;
+
+const SETTINGS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="${W_NAMESPACE}">
+  <w:defaultTabStop w:val="${INCH / 2}"/>
+  <w:compat>
+    <w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/>
+  </w:compat>
+</w:settings>`;
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Run properties in the order the schema requires
+const run = (text: string, style: Run['style'] = 'regular', variant?: Run['variant']): string => {
+    const properties = [
+        style === 'bold' || style === 'boldItalic' ? '<w:b/>' : '',
+        style === 'italic' || style === 'boldItalic' ? '<w:i/>' : '',
+        variant === 'smallCaps' ? '<w:smallCaps/>' : '',
+        variant === 'superscript' ? '<w:vertAlign w:val="superscript"/>' : ''
+    ].join('');
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (content: string, styleId?: string, properties: string = ''): string =>
+    `<w:p>${styleId || properties ? `<w:pPr>${styleId ? `<w:pStyle w:val="${styleId}"/>` : ''}${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+const runs = (items: Run[]): string => items.map(item => run(item.text, item.style, item.variant)).join('');
+
+/** Words in the manuscript's text, headings included */
+const countWords = (paragraphs: Paragraph[]): number =>
+    paragraphs.reduce((sum, p) => sum + plainText(p.runs).split(/\s+/).filter(Boolean).length, 0);
+
+// Manuscripts give an approximate count: to the hundred, or the thousand for long works
+const approximateWords = (count: number): string => {
+    const step = count >= 20000 ? 1000 : 100;
+    return `about ${(Math.max(step, Math.round(count / step) * step)).toLocaleString('en-US')} words`;
+};
+
+// ============================================
+// PARTS
+// ============================================
+
+const stylesXml = (font: string): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NAMESPACE}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:widowControl/><w:ind w:firstLine="${INCH / 2}"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="NoIndent"><w:name w:val="No Indent"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:firstLine="0"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Centered"><w:name w:val="Centered"/><w:basedOn w:val="NoIndent"/><w:pPr><w:jc w:val="center"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ChapterNumber"><w:name w:val="Chapter Number"/><w:basedOn w:val="Centered"/><w:next w:val="ChapterTitle"/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="${CHAPTER_DROP}"/><w:outlineLvl w:val="0"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ChapterTitle"><w:name w:val="Chapter Title"/><w:basedOn w:val="Centered"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:after="480"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="SectionHeading"><w:name w:val="Section Heading"/><w:basedOn w:val="Centered"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:outlineLvl w:val="1"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="SceneBreak"><w:name w:val="Scene Break"/><w:basedOn w:val="Centered"/><w:next w:val="Normal"/><w:pPr><w:keepNext/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="BlockQuote"><w:name w:val="Block Quote"/><w:basedOn w:val="NoIndent"/><w:pPr><w:ind w:left="${INCH / 2}" w:right="${INCH / 2}"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListItem"><w:name w:val="List Item"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="${INCH / 2}" w:hanging="${INCH / 4}"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="NoIndent"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:jc w:val="right"/></w:pPr></w:style>
+</w:styles>`;
+
+// "Surname / Title / page" on every page but the title page
+const headerXml = (surname: string, title: string): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="${W_NAMESPACE}">
+  ${paragraph(`${run(`${surname} / ${title} / `)}<w:fldSimple w:instr=" PAGE "><w:r><w:t>2</w:t></w:r></w:fldSimple>`, 'Header')}
+</w:hdr>`;
+
+const coreXml = (title: string, author: string): string => {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dc:creator>${escapeXml(author)}</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`;
+};
+
+const appXml = (words: number): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">
+  <Application>Vibe Creation Studio</Application>
+  <Words>${words}</Words>
+</Properties>`;
+
+const bodyParagraph = (p: Paragraph, indent: boolean): string => {
+    switch (p.kind) {
+        case 'heading':
+            return paragraph(runs(p.runs), 'SectionHeading');
+        case 'break':
+            return paragraph(run('#'), 'SceneBreak');
+        case 'quote':
+            return paragraph(runs(p.runs), 'BlockQuote');
+        case 'item':
+            return paragraph(`${run(p.bullet || '•')}<w:r><w:tab/></w:r>${runs(p.runs)}`, 'ListItem');
+        default:
+            return paragraph(runs(p.runs), indent ? undefined : 'NoIndent');
+    }
+};
+
+// ============================================
+// MANUSCRIPT
+// ============================================
+
+/**
+ * Build a .docx manuscript from the project's CHAPTER and TEXT blocks (approved and
+ * pending-review blocks only, unless `includeDrafts`). Returns the bytes of the file.
+ */
+export function buildManuscriptDocx(project: Project, metadata: BookMetadata, options: DocxOptions = {}): Uint8Array {
+    const font = FONTS[options.font || 'times'];
+    const title = metadata.title || project.title || 'Untitled';
+    const author = metadata.author || 'Unknown Author';
+    const surname = author.trim().split(/\s+/).pop() || author;
+
+    const chapters = collectChapters(exportableBlocks(project, options.includeDrafts));
+    const words = countWords(chapters.flatMap(chapter => chapter.paragraphs));
+
+    // Title page: name top left, word count top right, title and byline mid-page
+    const body: string[] = [
+        paragraph(`${run(author)}<w:r><w:tab/></w:r>${run(approximateWords(words))}`, 'NoIndent',
+            `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:line="240" w:lineRule="auto"/>`),
+        paragraph(run(title), 'Centered', `<w:spacing w:before="${3 * INCH}"/>`),
+        paragraph(run(`by ${author}`), 'Centered')
+    ];
+
+    chapters.forEach((chapter, i) => {
+        if (chapter.number !== undefined) {
+            body.push(paragraph(run(`Chapter ${chapter.number}`), 'ChapterNumber'));
+            body.push(paragraph(run(chapter.title), 'ChapterTitle'));
+        } else {
+            // The opening section has no heading of its own but still starts a page
+            body.push(paragraph('', 'NoIndent', '<w:pageBreakBefore/>'));
+        }
+        let indent = false; // Not after a heading or scene break
+        for (const p of chapter.paragraphs) {
+            body.push(bodyParagraph(p, indent));
+            indent = p.kind === 'body' || p.kind === 'item';
+        }
+        if (i === chapters.length - 1) body.push(paragraph(run('END'), 'Centered', '<w:spacing w:before="480"/>'));
+    });
+
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">
+  <w:body>
+    ${body.join('\n    ')}
+    <w:sectPr>
+      <w:headerReference w:type="default" r:id="rId3"/>
+      <w:pgSz w:w="12240" w:h="15840"/>
+      <w:pgMar w:top="${INCH}" w:right="${INCH}" w:bottom="${INCH}" w:left="${INCH}" w:header="${INCH / 2}" w:footer="${INCH / 2}" w:gutter="0"/>
+      <w:titlePg/>
+    </w:sectPr>
+  </w:body>
+</w:document>`;
+
+    return createZip([
+        { path: '[Content_Types].xml', data: CONTENT_TYPES },
+        { path: '_rels/.rels', data: PACKAGE_RELS },
+        { path: 'docProps/core.xml', data: coreXml(title, author) },
+        { path: 'docProps/app.xml', data: appXml(words) },
+        { path: 'word/document.xml', data: document },
+        { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+        { path: 'word/styles.xml', data: stylesXml(font) },
+        { path: 'word/settings.xml', data: SETTINGS },
+        { path: 'word/header1.xml', data: headerXml(surname, title) }
+    ]);
+}
+
+export function downloadAsDocx(project: Project, metadata: BookMetadata, options: DocxOptions = {}): void {
+    const docx = buildManuscriptDocx(project, metadata, options);
+    downloadBlob(
+        new Blob([docx], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }),
+        `${exportFileName(project)}_manuscript.docx`
+    );
+}
@@ -5,6 +5,7 @@
 
 import { ContentBlock, BlockType, Blueprint } from '../types';
 import { BookMetadata, ChapterMetadata } from './workspaceManager';
+import { renderMarkdown } from './markdown';
 
 export interface EbookOptions {
     format: 'html' | 'kindle' | 'epub' | 'print';
@@ -86,7 +87,33 @@ const generateStyles = (options: EbookOptions): string => {
       font-style: italic;
       color: #555;
     }
-    
+
+    hr.scene-break {
+      border: none;
+      margin: 2em 0;
+      text-align: center;
+    }
+
+    hr.scene-break::after {
+      content: '* * *';
+      letter-spacing: 0.5em;
+    }
+
+    hr.scene-break + p { text-indent: 0; }
+
+    .small-caps {
+      font-style: normal;
+      font-variant: small-caps;
+    }
+
+    .footnotes {
+      margin-top: 3em;
+      font-size: 0.85em;
+      border-top: 1px solid #ddd;
+    }
+
+    .footnotes p { text-indent: 0; }
+
     .cover-page {
       display: flex;
       flex-direction: column;
@@ -231,34 +258,6 @@ const generateTableOfContents = (chapters: ChapterMetadata[]): string => {
   `;
 };
 
-/**
- * Convert markdown to HTML (basic)
- */
-const markdownToHtml = (markdown: string): string => {
-    let html = markdown;
-
-    // Headers
-    html = html.replace(/^### (.*$)/gm, '<h3>$1</h3>');
-    html = html.replace(/^## (.*$)/gm, '<h2>$1</h2>');
-    html = html.replace(/^# (.*$)/gm, '<h1>$1</h1>');
-
-    // Bold and italic
-    html = html.replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em>$1</em></strong>');
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-    // Blockquotes
-    html = html.replace(/^> (.*$)/gm, '<blockquote>$1</blockquote>');
-
-    // Paragraphs
-    html = html.split('\n\n').map(para => {
-        if (para.trim().startsWith('<')) return para;
-        return `<p>${para.replace(/\n/g, '<br>')}</p>`;
-    }).join('\n');
-
-    return html;
-};
-
 /**
  * Generate chapter HTML
  */
@@ -268,7 +267,7 @@ const generateChapterHtml = (
     title: string
 ): string => {
     const content = typeof block.content === 'string'
-        ? markdownToHtml(block.content)
+        ? renderMarkdown(block.content, { idPrefix: `${block.id}-` })
         : '';
 
     return `
@@ -370,7 +369,7 @@ export default {
     generateStyles,
     generateCoverPage,
     generateTableOfContents,
-    markdownToHtml,
+    markdownToHtml: renderMarkdown,
     calculateWordCount,
     calculateReadingTime
 };
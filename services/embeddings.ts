@@ -0,0 +1,111 @@
+import { ModelProvider } from '../types';
+import { EmbedOptions, embedMetered, getProvider, getRegisteredProviders } from './modelRegistry';
+import { withProviderSlot } from './concurrency';
+import { fnv1a } from './hash';
+
+// ============================================
+// EMBEDDINGS
+// Text vectors for retrieval: any configured provider that implements
+// embed(), or a local hashing embedder that needs no network or key
+// ============================================
+
+export interface Embedder {
+    id: string; // Vectors from different embedders are not comparable
+    displayName: string;
+    embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+}
+
+// Preferred remote embedders; other providers with embed() follow in registration order
+const EMBEDDING_PROVIDER_PRIORITY: ModelProvider[] = [ModelProvider.GEMINI, ModelProvider.HUGGINGFACE];
+
+// ============================================
+// LOCAL FALLBACK
+// ============================================
+
+const LOCAL_DIMENSIONS = 512;
+const BIGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+    'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she',
+    'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what',
+    'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your'
+]);
+
+const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [])
+        .map(word => word.replace(/'s$/, '').replace(/'/g, ''))
+        .filter(word => word.length > 1 && !STOPWORDS.has(word))
+        // Crude plural folding so "dragons" matches "dragon"
+        .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+/**
+ * Hashed bag of words and bigrams (the "hashing trick"), log-scaled and L2-normalized.
+ * Lexical only, but deterministic, instant and private.
+ */
+export function embedLocally(text: string): number[] {
+    const counts = new Map<string, number>();
+    const words = tokenize(text);
+    words.forEach((word, i) => {
+        counts.set(word, (counts.get(word) || 0) + 1);
+        if (i > 0) {
+            const bigram = `${words[i - 1]} ${word}`;
+            counts.set(bigram, (counts.get(bigram) || 0) + BIGRAM_WEIGHT);
+        }
+    });
+
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+        const h = fnv1a(feature);
+        // A second hash bit picks the sign, so collisions cancel out on average
+        vector[h % LOCAL_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+export const localEmbedder: Embedder = {
+    id: 'local-hash',
+    displayName: 'Local (keyword hashing)',
+    embed: async (texts) => texts.map(embedLocally)
+};
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * The best configured embedder: a remote provider when one is configured, else the local one.
+ * Remote calls share the provider's rate-limit slots with generation and are metered like it.
+ */
+export function getEmbedder(): Embedder {
+    const names = [
+        ...EMBEDDING_PROVIDER_PRIORITY,
+        ...getRegisteredProviders().map(p => p.name).filter(name => !EMBEDDING_PROVIDER_PRIORITY.includes(name))
+    ];
+    for (const name of names) {
+        const provider = getProvider(name);
+        if (provider?.embed && provider.isConfigured()) {
+            return {
+                id: name,
+                displayName: provider.displayName,
+                embed: (texts, options) => withProviderSlot(name, () => embedMetered(provider, texts, options), options?.signal)
+            };
+        }
+    }
+    return localEmbedder;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,357 @@
+import { v5 as uuidv5 } from 'uuid';
+import { Project, ContentBlock, BlockType } from '../types';
+import { BookMetadata } from './workspaceManager';
+import { downloadBlob, escapeHtml, exportFileName, exportableBlocks } from './bookExporter';
+import { renderMarkdown } from './markdown';
+import { createZip, ZipEntry } from './zipWriter';
+
+// ============================================
+// EPUB BUILDER
+// EPUB 3 packages: OCF container, OPF package document, nav.xhtml
+// with an NCX for older readers, one XHTML document per chapter,
+// and images embedded as resources
+// ============================================
+
+export interface EpubOptions {
+    includeDrafts?: boolean;
+    includeTableOfContents?: boolean; // Adds the nav document to the reading order (default true)
+    coverImageId?: string; // IMAGE block to use as the cover (default: the first one)
+}
+
+interface EpubImage {
+    id: string;
+    href: string; // Relative to OEBPS/
+    mediaType: string;
+    data: Uint8Array;
+}
+
+interface EpubDocument {
+    id: string;
+    href: string; // Relative to OEBPS/
+    title: string;
+    body: string;
+}
+
+const OPF_NAMESPACE = 'http://www.idpf.org/2007/opf';
+// Names the book's UUID (derived from the project id, so re-exports keep the same identifier)
+const IDENTIFIER_NAMESPACE = '6f2c1e3a-58b1-4c1e-9a6f-0b7f4c2d9e11';
+
+// Core media types EPUB readers must support
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg'
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const EPUB_CSS = `
+body { font-family: Georgia, serif; line-height: 1.6; margin: 0 5%; }
+h1, h2, h3, h4 { line-height: 1.3; page-break-after: avoid; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, h2 + p, h3 + p, .chapter-title + p { text-indent: 0; }
+blockquote { margin: 1em 2em; font-style: italic; }
+figure { margin: 1.5em 0; text-align: center; page-break-inside: avoid; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-size: 0.85em; font-style: italic; margin-top: 0.5em; }
+.chapter-number { text-align: center; text-indent: 0; text-transform: uppercase; letter-spacing: 0.2em; font-size: 0.8em; margin-top: 3em; }
+.chapter-title { text-align: center; margin: 0.5em 0 2em; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { text-indent: 0; text-align: center; }
+.title-page .subtitle { font-style: italic; margin-top: 0.5em; }
+.title-page .author { margin-top: 3em; text-transform: uppercase; letter-spacing: 0.1em; }
+.title-page .isbn { margin-top: 4em; font-size: 0.8em; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+hr.scene-break { border: none; margin: 1.5em 0; text-align: center; }
+hr.scene-break::after { content: "* * *"; letter-spacing: 0.5em; }
+hr.scene-break + p { text-indent: 0; }
+.small-caps { font-style: normal; font-variant: small-caps; }
+.footnotes { margin-top: 2em; font-size: 0.85em; }
+.footnotes-label { font-size: 1em; text-transform: uppercase; letter-spacing: 0.1em; }
+.footnotes p { text-indent: 0; }
+nav ol { list-style: none; padding: 0; }
+nav li { margin: 0.5em 0; }
+`.trim();
+
+// ============================================
+// HELPERS
+// ============================================
+
+const xhtmlPage = (title: string, body: string, language: string, cssHref: string = '../styles/book.css'): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="${cssHref}"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+// "data:image/png;base64,...." -> bytes and media type (undefined for remote or unsupported images)
+const decodeDataUrl = (url: string): { mediaType: string; data: Uint8Array } | undefined => {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (!match || !IMAGE_EXTENSIONS[match[1]]) return undefined;
+    const binary = atob(match[2]);
+    return { mediaType: match[1], data: Uint8Array.from(binary, c => c.charCodeAt(0)) };
+};
+
+// ISBN digits (and a final X) or undefined when it is not a 10 or 13 character ISBN
+const normalizeIsbn = (isbn?: string): string | undefined => {
+    const digits = isbn?.replace(/[^0-9Xx]/g, '').toUpperCase();
+    return digits && (digits.length === 10 || digits.length === 13) ? digits : undefined;
+};
+
+const leadingHeading = (markdown: string): string | undefined =>
+    markdown.match(/^\s*#{1,3}\s+(.+)$/m)?.[1]?.trim();
+
+// EPUB wants whole seconds, UTC
+const modifiedTimestamp = (): string => new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+// ============================================
+// CONTENT DOCUMENTS
+// ============================================
+
+/**
+ * Split the blocks into content documents: each CHAPTER block starts one, and the
+ * TEXT and IMAGE blocks after it join it. Blocks before the first chapter form an
+ * opening document. Images become resources; data URLs only, since EPUBs are offline.
+ * The cover block is left out, as it already opens the book.
+ */
+const buildDocuments = (
+    blocks: ContentBlock[],
+    language: string,
+    fallbackTitle: string,
+    coverBlockId?: string
+): { documents: EpubDocument[]; images: EpubImage[] } => {
+    const images = new Map<string, EpubImage>(); // By block id
+    const sections: { title: string; chapterNumber?: number; parts: string[] }[] = [];
+
+    const imageFor = (block: ContentBlock): EpubImage | undefined => {
+        if (images.has(block.id)) return images.get(block.id);
+        const decoded = decodeDataUrl(block.content);
+        if (!decoded) {
+            console.warn(`[EPUB] Skipping image ${block.id}: only embedded PNG, JPEG, GIF, WebP or SVG images can be packaged`);
+            return undefined;
+        }
+        const n = images.size + 1;
+        const image: EpubImage = {
+            id: `image-${n}`,
+            href: `images/image-${String(n).padStart(3, '0')}.${IMAGE_EXTENSIONS[decoded.mediaType]}`,
+            ...decoded
+        };
+        images.set(block.id, image);
+        return image;
+    };
+
+    let chapterCount = 0;
+    for (const [index, block] of blocks.entries()) {
+        if (block.type === BlockType.CHAPTER) {
+            chapterCount++;
+            const number = block.metadata?.chapterNumber ?? chapterCount;
+            sections.push({
+                title: block.metadata?.title || `Chapter ${number}`,
+                chapterNumber: number,
+                parts: [renderMarkdown(block.content, { idPrefix: `b${index}-` })]
+            });
+            continue;
+        }
+
+        let part = '';
+        if (block.type === BlockType.IMAGE) {
+            if (block.id === coverBlockId) continue; // Shown as the cover, not again inline
+            const image = imageFor(block);
+            if (!image) continue;
+            const alt = escapeHtml(block.metadata?.prompt || 'Illustration');
+            part = `<figure><img src="../${image.href}" alt="${alt}"/>${block.metadata?.prompt ? `<figcaption>${alt}</figcaption>` : ''}</figure>`;
+        } else if (block.type === BlockType.TEXT) {
+            part = renderMarkdown(block.content, { idPrefix: `b${index}-` });
+        } else {
+            continue; // Plans and artifacts are working notes, not book content
+        }
+
+        if (sections.length === 0) {
+            sections.push({ title: (block.type === BlockType.TEXT && leadingHeading(block.content)) || fallbackTitle, parts: [] });
+        }
+        sections[sections.length - 1].parts.push(part);
+    }
+
+    const documents = sections.map((section, i): EpubDocument => {
+        const n = String(i + 1).padStart(3, '0');
+        const heading = section.chapterNumber !== undefined
+            ? `<p class="chapter-number">Chapter ${section.chapterNumber}</p>\n<h1 class="chapter-title">${escapeHtml(section.title)}</h1>\n`
+            : '';
+        const type = section.chapterNumber !== undefined ? 'chapter' : 'bodymatter';
+        return {
+            id: `section-${n}`,
+            href: `text/section-${n}.xhtml`,
+            title: section.title,
+            body: xhtmlPage(
+                section.title,
+                `<section epub:type="${type}" id="section-${n}">\n${heading}${section.parts.join('\n')}\n</section>`,
+                language
+            )
+        };
+    });
+
+    return { documents, images: Array.from(images.values()) };
+};
+
+// ============================================
+// PACKAGE
+// ============================================
+
+/**
+ * Build an EPUB 3 file for the project. Chapters come from CHAPTER blocks (with the
+ * TEXT and IMAGE blocks that follow them), metadata from `metadata`, and the cover
+ * from the chosen IMAGE block. Returns the bytes of the .epub (a ZIP archive).
+ */
+export function buildEpub(project: Project, metadata: BookMetadata, options: EpubOptions = {}): Uint8Array {
+    const { includeDrafts = false, includeTableOfContents = true } = options;
+    const language = metadata.language?.replace(/[^A-Za-z0-9-]/g, '') || 'en';
+    const title = metadata.title || project.title || 'Untitled';
+    const author = metadata.author || 'Unknown Author';
+
+    const blocks = exportableBlocks(project, includeDrafts);
+
+    // Cover: the chosen image block, else the first image with embeddable data
+    const coverBlock = blocks.find(b => b.id === options.coverImageId && b.type === BlockType.IMAGE)
+        ?? blocks.find(b => b.type === BlockType.IMAGE && decodeDataUrl(b.content));
+    const coverData = coverBlock && decodeDataUrl(coverBlock.content);
+    const cover: EpubImage | undefined = coverData && {
+        id: 'cover-image',
+        href: `images/cover.${IMAGE_EXTENSIONS[coverData.mediaType]}`,
+        ...coverData
+    };
+
+    const { documents, images } = buildDocuments(blocks, language, title, cover && coverBlock!.id);
+    if (documents.length === 0) {
+        throw new Error('Nothing to export: the project has no chapters or text blocks (drafts are excluded)');
+    }
+
+    const isbn = normalizeIsbn(metadata.isbn);
+    const identifier = isbn ? `urn:isbn:${isbn}` : `urn:uuid:${uuidv5(project.id, IDENTIFIER_NAMESPACE)}`;
+
+    // --- Front matter ---
+    const frontMatter: EpubDocument[] = [];
+    if (cover) {
+        frontMatter.push({
+            id: 'cover',
+            href: 'text/cover.xhtml',
+            title: 'Cover',
+            body: xhtmlPage(title, `<section epub:type="cover" class="cover">\n<img src="../${cover.href}" alt="${escapeHtml(title)}"/>\n</section>`, language)
+        });
+    }
+    frontMatter.push({
+        id: 'title-page',
+        href: 'text/title.xhtml',
+        title: 'Title Page',
+        body: xhtmlPage(title, [
+            '<section epub:type="titlepage" class="title-page">',
+            `<h1>${escapeHtml(title)}</h1>`,
+            metadata.subtitle ? `<p class="subtitle">${escapeHtml(metadata.subtitle)}</p>` : '',
+            `<p class="author">${escapeHtml(author)}</p>`,
+            isbn ? `<p class="isbn">ISBN ${escapeHtml(metadata.isbn!.trim())}</p>` : '',
+            '</section>'
+        ].filter(Boolean).join('\n'), language)
+    });
+
+    // --- Navigation ---
+    const tocEntries = documents.map(d => `      <li><a href="${d.href}">${escapeHtml(d.title)}</a></li>`).join('\n');
+    const navXhtml = xhtmlPage('Contents', `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${tocEntries}
+  </ol>
+</nav>
+<nav epub:type="landmarks" id="landmarks" hidden="">
+  <ol>
+${cover ? '    <li><a epub:type="cover" href="text/cover.xhtml">Cover</a></li>\n' : ''}    <li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+    <li><a epub:type="bodymatter" href="${documents[0].href}">Start of Content</a></li>
+  </ol>
+</nav>`, language, 'styles/book.css');
+
+    const tocNcx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${language}">
+  <head>
+    <meta name="dtb:uid" content="${escapeHtml(identifier)}"/>
+    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeHtml(title)}</text></docTitle>
+  <docAuthor><text>${escapeHtml(author)}</text></docAuthor>
+  <navMap>
+${documents.map((d, i) => `    <navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+      <navLabel><text>${escapeHtml(d.title)}</text></navLabel>
+      <content src="${d.href}"/>
+    </navPoint>`).join('\n')}
+  </navMap>
+</ncx>`;
+
+    // --- Package document ---
+    const allImages = [...(cover ? [cover] : []), ...images];
+    const subjects = [metadata.genre, ...(metadata.keywords || [])].filter(Boolean);
+    const manifest = [
+        '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+        '    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+        '    <item id="css" href="styles/book.css" media-type="text/css"/>',
+        ...[...frontMatter, ...documents].map(d =>
+            `    <item id="${d.id}" href="${d.href}" media-type="application/xhtml+xml"/>`),
+        ...allImages.map(img =>
+            `    <item id="${img.id}" href="${img.href}" media-type="${img.mediaType}"${img === cover ? ' properties="cover-image"' : ''}/>`)
+    ].join('\n');
+    const spine = [
+        ...frontMatter.map(d => `    <itemref idref="${d.id}"/>`),
+        ...(includeTableOfContents ? ['    <itemref idref="nav"/>'] : []),
+        ...documents.map(d => `    <itemref idref="${d.id}"/>`)
+    ].join('\n');
+
+    const contentOpf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="${OPF_NAMESPACE}" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+${isbn ? `    <meta refines="#book-id" property="identifier-type" scheme="onix:codelist5">${isbn.length === 13 ? '15' : '02'}</meta>\n` : ''}    <dc:title id="title">${escapeHtml(title)}</dc:title>
+${metadata.subtitle ? `    <dc:title id="subtitle">${escapeHtml(metadata.subtitle)}</dc:title>
+    <meta refines="#subtitle" property="title-type">subtitle</meta>\n` : ''}    <dc:creator id="creator">${escapeHtml(author)}</dc:creator>
+    <meta refines="#creator" property="role" scheme="marc:relators">aut</meta>
+    <dc:language>${escapeHtml(language)}</dc:language>
+${metadata.description ? `    <dc:description>${escapeHtml(metadata.description)}</dc:description>\n` : ''}${subjects.map(s => `    <dc:subject>${escapeHtml(s)}</dc:subject>\n`).join('')}${metadata.publishDate ? `    <dc:date>${escapeHtml(metadata.publishDate)}</dc:date>\n` : ''}    <meta property="dcterms:modified">${modifiedTimestamp()}</meta>
+${cover ? '    <meta name="cover" content="cover-image"/>\n' : ''}  </metadata>
+  <manifest>
+${manifest}
+  </manifest>
+  <spine toc="ncx">
+${spine}
+  </spine>
+</package>`;
+
+    // mimetype must come first, uncompressed (createZip stores every entry)
+    const entries: ZipEntry[] = [
+        { path: 'mimetype', data: 'application/epub+zip' },
+        { path: 'META-INF/container.xml', data: CONTAINER_XML },
+        { path: 'OEBPS/content.opf', data: contentOpf },
+        { path: 'OEBPS/nav.xhtml', data: navXhtml },
+        { path: 'OEBPS/toc.ncx', data: tocNcx },
+        { path: 'OEBPS/styles/book.css', data: EPUB_CSS },
+        ...[...frontMatter, ...documents].map(d => ({ path: `OEBPS/${d.href}`, data: d.body })),
+        ...allImages.map(img => ({ path: `OEBPS/${img.href}`, data: img.data }))
+    ];
+    console.log(`[EPUB] Packaged ${documents.length} section(s) and ${allImages.length} image(s)`);
+    return createZip(entries);
+}
+
+export function downloadAsEpub(project: Project, metadata: BookMetadata, options: EpubOptions = {}): void {
+    const epub = buildEpub(project, metadata, options);
+    downloadBlob(new Blob([epub], { type: 'application/epub+zip' }), `${exportFileName(project)}.epub`);
+}
@@ -217,15 +217,15 @@ export const findFilesByPattern = (context: ProjectContext, pattern: RegExp): Fi
 };
 
 /**
- * Get all content from indexed files
+ * Get all files whose content was loaded during the scan
  */
-export const getAllIndexedContent = (context: ProjectContext): string => {
-    const contents: string[] = [];
+export const getIndexedFiles = (context: ProjectContext): FileNode[] => {
+    const files: FileNode[] = [];
 
     const traverse = (nodes: FileNode[]) => {
         for (const node of nodes) {
             if (node.type === 'file' && node.content) {
-                contents.push(`--- ${node.path} ---\n${node.content}`);
+                files.push(node);
             }
             if (node.children) {
                 traverse(node.children);
@@ -234,9 +234,15 @@ export const getAllIndexedContent = (context: ProjectContext): string => {
     };
 
     traverse(context.files);
-    return contents.join('\n\n');
+    return files;
 };
 
+/**
+ * Get all content from indexed files (whole files; use services/retrieval for task-relevant passages)
+ */
+export const getAllIndexedContent = (context: ProjectContext): string =>
+    getIndexedFiles(context).map(node => `--- ${node.path} ---\n${node.content}`).join('\n\n');
+
 /**
  * Format file size for display
  */
@@ -251,6 +257,7 @@ export default {
     scanDirectory,
     findFile,
     findFilesByPattern,
+    getIndexedFiles,
     getAllIndexedContent,
     formatFileSize
 };
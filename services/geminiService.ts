@@ -1,19 +1,15 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { Message, MessageRole, Project, ContentBlock, BlockType } from "../types";
+import { routeGenerate } from "./providerRouter";
+import { formatPassages, retrieve } from "./retrieval";
+import { assemblePrompt, getPromptBudget, PromptSection } from "./promptAssembler";
 
-// Lazy initialization to avoid crash when API key is not set
-let ai: GoogleGenAI | null = null;
-
-function getAI(): GoogleGenAI {
-  if (!ai) {
-    const apiKey = (import.meta as any).env?.VITE_API_KEY || '';
-    if (!apiKey || apiKey === '') {
-      throw new Error('Gemini API key not configured. Add VITE_API_KEY to .env.local');
-    }
-    ai = new GoogleGenAI({ apiKey });
-  }
-  return ai;
-}
+// Retrieved passages per chat turn
+const CHAT_PASSAGE_CHARS = 4000;
+// Each block's excerpt in the chat context: up to this much when the window has room,
+// dropped below the minimum (the passages carry the detail)
+const CHAT_BLOCK_MAX_TOKENS = 300;
+const CHAT_BLOCK_MIN_TOKENS = 15;
 
 // System instruction to guide the "Vibe" persona
 const SYSTEM_INSTRUCTION = `
@@ -32,31 +28,45 @@ export const generateChatMessage = async (
   projectContext?: Project
 ): Promise<string> => {
   try {
-    const model = 'gemini-2.5-flash';
+    // The router takes a single prompt, so earlier turns are sent as a transcript
+    const transcript = history
+      .filter(m => m.role !== MessageRole.SYSTEM)
+      .map(m => `${m.role === MessageRole.USER ? 'USER' : 'ASSISTANT'}: ${m.content}`)
+      .join('\n\n');
+
+    // Passages from the inputs, folder files and chapters that bear on the question
+    const passages = projectContext
+      ? formatPassages(await retrieve(projectContext.id, currentMessage, { maxChars: CHAT_PASSAGE_CHARS }))
+      : '';
+    // Image blocks hold a data URL; their prompt stands in for them
+    const blockSections: PromptSection[] = (projectContext?.blocks || []).map(b => ({
+      name: `block:${b.id}`,
+      text: `[${b.type.toUpperCase()}]: ${b.type === BlockType.IMAGE ? b.metadata?.prompt || '' : b.content}`,
+      priority: 2,
+      maxTokens: CHAT_BLOCK_MAX_TOKENS,
+      minTokens: CHAT_BLOCK_MIN_TOKENS
+    }));
+
+    // Fit to the chat model: the question first, then passages, block excerpts, and the most recent turns
+    const fitted = assemblePrompt([
+      { name: 'message', text: currentMessage, required: true },
+      { name: 'passages', text: passages, priority: 3 },
+      ...blockSections,
+      { name: 'transcript', text: transcript, priority: 1, trim: 'start' }
+    ], getPromptBudget('quick_response', { taskModels: projectContext?.settings.taskModels, systemPrompt: SYSTEM_INSTRUCTION }));
 
     let contextPrompt = "";
     if (projectContext) {
-      const projectSummary = projectContext.blocks.map(b => `[${b.type.toUpperCase()}]: ${b.content.substring(0, 100)}...`).join('\n');
-      contextPrompt = `\nCurrent Project Context (${projectContext.title}):\n${projectSummary}\n---\n`;
+      const projectSummary = blockSections.map(b => fitted.sections[b.name]).filter(Boolean).join('\n');
+      const fittedPassages = fitted.sections.passages;
+      contextPrompt = `\nCurrent Project Context (${projectContext.title}):\n${projectSummary}\n${fittedPassages ? `\n${fittedPassages}\n` : ''}---\n`;
     }
+    const prompt = `${fitted.sections.transcript ? `${fitted.sections.transcript}\n\n` : ''}USER: ${contextPrompt}${fitted.sections.message}`;
 
-    const contents = [
-      ...history.filter(m => m.role !== MessageRole.SYSTEM).map(m => ({
-        role: m.role,
-        parts: [{ text: m.content }]
-      })),
-      {
-        role: 'user',
-        parts: [{ text: contextPrompt + currentMessage }]
-      }
-    ];
-
-    const response = await getAI().models.generateContent({
-      model,
-      contents,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-      }
+    const response = await routeGenerate(prompt, 'quick_response', {
+      systemPrompt: SYSTEM_INSTRUCTION,
+      projectId: projectContext?.id,
+      taskModels: projectContext?.settings.taskModels
     });
 
     return response.text || "I'm vibing, but I couldn't generate a response.";
@@ -68,44 +78,18 @@ export const generateChatMessage = async (
 
 export const generateBlockContent = async (
   prompt: string,
-  currentBlocks: ContentBlock[],
-  blockType: 'text' | 'image' = 'text'
+  currentBlocks: ContentBlock[]
 ): Promise<string> => {
   try {
-    if (blockType === 'image') {
-      // Use image generation model
-      const response = await getAI().models.generateContent({
-        model: 'gemini-2.5-flash-image', // Using standard image model
-        contents: prompt,
-        config: {
-          responseMimeType: 'image/jpeg'
-          // Not setting responseSchema for image model
-        }
-      });
-
-      // Handle image response extraction
-      const candidates = response.candidates;
-      if (candidates && candidates.length > 0) {
-        for (const part of candidates[0].content.parts) {
-          if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          }
-        }
-      }
-      // If no inline data, check if it returned text (error or refusal)
-      return "";
-    } else {
-      // Text generation
-      const model = 'gemini-2.5-flash';
-      const context = currentBlocks.map(b => b.content).join('\n\n');
-      const fullPrompt = `Based on the following context:\n${context}\n\nTask: ${prompt}\n\nGenerate high-quality Markdown formatted text. Do not include introductory filler. Just the content.`;
+    // The most recent blocks matter most; older ones are cut first when the window is short
+    const fitted = assemblePrompt([
+      { name: 'context', text: currentBlocks.filter(b => b.type !== BlockType.IMAGE).map(b => b.content).join('\n\n'), trim: 'start' },
+      { name: 'task', text: prompt, required: true }
+    ], getPromptBudget('writing'));
+    const fullPrompt = `Based on the following context:\n${fitted.sections.context}\n\nTask: ${fitted.sections.task}\n\nGenerate high-quality Markdown formatted text. Do not include introductory filler. Just the content.`;
 
-      const response = await getAI().models.generateContent({
-        model,
-        contents: fullPrompt
-      });
-      return response.text || "";
-    }
+    const response = await routeGenerate(fullPrompt, 'writing');
+    return response.text || "";
   } catch (error) {
     console.error("Content generation error:", error);
     throw error;
@@ -114,10 +98,10 @@ export const generateBlockContent = async (
 
 export const suggestImprovement = async (content: string): Promise<string> => {
   try {
-    const response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Improve the following text to be more engaging, articulate, and "vibey". Keep the original meaning but elevate the prose:\n\n${content}`
-    });
+    const response = await routeGenerate(
+      `Improve the following text to be more engaging, articulate, and "vibey". Keep the original meaning but elevate the prose:\n\n${content}`,
+      'editing'
+    );
     return response.text || content;
   } catch (error) {
     return content;
@@ -0,0 +1,19 @@
+// ============================================
+// HASHING
+// ============================================
+
+/**
+ * FNV-1a, 32-bit: fast, synchronous and stable across runs. Not collision-resistant, so
+ * only for buckets and lookups that tolerate a clash (the hashing trick, fixture keys).
+ */
+export const fnv1a = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+/** fnv1a as eight hex digits */
+export const fnv1aHex = (text: string): string => fnv1a(text).toString(16).padStart(8, '0');
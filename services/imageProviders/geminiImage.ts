@@ -0,0 +1,84 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { ImageProviderName, ModelProvider } from '../../types';
+import { ImageProvider, ImageRequest, ImageResult, registerImageProvider } from '../imageRegistry';
+import { meterUsage } from '../modelRegistry';
+
+// ============================================
+// GEMINI IMAGE PROVIDER
+// ============================================
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+class GeminiImageProvider implements ImageProvider {
+    name = ImageProviderName.GEMINI;
+    displayName = 'Gemini Image';
+    supportsNegativePrompt = false; // Folded into the prompt as an "Avoid" line
+    supportsSeed = true; // Best effort: Gemini does not guarantee identical images
+
+    private client: GoogleGenAI | null = null;
+    private envKey: string;
+
+    constructor() {
+        this.envKey = (import.meta as any).env?.VITE_API_KEY || '';
+        this.initClient(this.envKey);
+    }
+
+    private initClient(apiKey: string): void {
+        this.client = apiKey && !apiKey.includes('your_') ? new GoogleGenAI({ apiKey }) : null;
+    }
+
+    isConfigured(): boolean {
+        return this.client !== null;
+    }
+
+    setCredential(apiKey: string | null): void {
+        this.initClient(apiKey || this.envKey);
+    }
+
+    async generateImage(request: ImageRequest): Promise<ImageResult> {
+        if (!this.client) {
+            throw new Error('Gemini API key not configured');
+        }
+
+        const prompt = request.negativePrompt
+            ? `${request.prompt}\n\nAvoid: ${request.negativePrompt}`
+            : request.prompt;
+
+        const response = await this.client.models.generateContent({
+            model: GEMINI_IMAGE_MODEL,
+            contents: prompt,
+            config: {
+                responseModalities: [Modality.IMAGE],
+                ...(request.aspectRatio && { imageConfig: { aspectRatio: request.aspectRatio } }),
+                ...(request.seed !== undefined && { seed: request.seed }),
+                abortSignal: request.signal
+            }
+        });
+
+        const usage = response.usageMetadata;
+        if (usage) {
+            meterUsage(ModelProvider.GEMINI, GEMINI_IMAGE_MODEL, {
+                promptTokens: usage.promptTokenCount || 0,
+                completionTokens: usage.candidatesTokenCount || 0
+            }, request.projectId);
+        }
+
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+            if (part.inlineData) {
+                return {
+                    dataUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+                    modelId: GEMINI_IMAGE_MODEL,
+                    seed: request.seed
+                };
+            }
+        }
+        // No image part: the model answered in text (usually a refusal)
+        throw new Error(`Gemini returned no image${response.text ? `: ${response.text.substring(0, 200)}` : ''}`);
+    }
+}
+
+const geminiImageProvider = new GeminiImageProvider();
+registerImageProvider(geminiImageProvider);
+
+export { geminiImageProvider };
+export default GeminiImageProvider;
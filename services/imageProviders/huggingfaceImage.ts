@@ -0,0 +1,94 @@
+import { ImageProviderName } from '../../types';
+import { ImageProvider, ImageRequest, ImageResult, registerImageProvider, sizeForAspectRatio } from '../imageRegistry';
+
+// ============================================
+// HUGGINGFACE IMAGE PROVIDER (Free Inference API)
+// ============================================
+
+const HF_API_URL = 'https://api-inference.huggingface.co/models';
+const HF_IMAGE_MODEL = 'stabilityai/stable-diffusion-xl-base-1.0';
+const MODEL_LOADING_RETRIES = 3;
+const MODEL_LOADING_WAIT_MS = 10_000;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+
+class HuggingFaceImageProvider implements ImageProvider {
+    name = ImageProviderName.HUGGINGFACE;
+    displayName = 'Stable Diffusion XL (HuggingFace)';
+    supportsNegativePrompt = true;
+    supportsSeed = true;
+
+    private apiKey: string | null = null;
+    private envKey: string | null = null; // Shares the HuggingFace text key
+
+    constructor() {
+        this.envKey = (import.meta as any).env?.VITE_HUGGINGFACE_API_KEY || null;
+        this.apiKey = this.envKey;
+    }
+
+    isConfigured(): boolean {
+        return this.apiKey !== null && this.apiKey !== '' && this.apiKey !== 'your_huggingface_api_key_here';
+    }
+
+    setCredential(apiKey: string | null): void {
+        this.apiKey = apiKey || this.envKey;
+    }
+
+    async generateImage(request: ImageRequest): Promise<ImageResult> {
+        if (!this.isConfigured()) {
+            throw new Error('HuggingFace API key not configured');
+        }
+
+        const { width, height } = sizeForAspectRatio(request.aspectRatio || '1:1');
+
+        for (let attempt = 0; ; attempt++) {
+            const response = await fetch(`${HF_API_URL}/${HF_IMAGE_MODEL}`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    inputs: request.prompt,
+                    parameters: {
+                        width,
+                        height,
+                        ...(request.negativePrompt && { negative_prompt: request.negativePrompt }),
+                        ...(request.seed !== undefined && { seed: request.seed })
+                    }
+                }),
+                signal: request.signal
+            });
+
+            // 503 while the model is loading on a cold free-tier worker
+            if (response.status === 503 && attempt < MODEL_LOADING_RETRIES) {
+                console.log('[Images] HuggingFace image model is loading, retrying...');
+                await new Promise(resolve => setTimeout(resolve, MODEL_LOADING_WAIT_MS));
+                continue;
+            }
+            if (!response.ok) {
+                throw new Error(`HuggingFace image error: ${await response.text()}`);
+            }
+
+            return {
+                dataUrl: await blobToDataUrl(await response.blob()),
+                modelId: HF_IMAGE_MODEL,
+                seed: request.seed,
+                width,
+                height
+            };
+        }
+    }
+}
+
+const huggingFaceImageProvider = new HuggingFaceImageProvider();
+registerImageProvider(huggingFaceImageProvider);
+
+export { huggingFaceImageProvider };
+export default HuggingFaceImageProvider;
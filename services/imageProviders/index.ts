@@ -0,0 +1,20 @@
+// Image provider initialization - import all image providers to register them
+// This file should be imported once at app startup
+
+import './geminiImage';
+import './huggingfaceImage';
+import './sdWebUI';
+
+export { geminiImageProvider } from './geminiImage';
+export { huggingFaceImageProvider } from './huggingfaceImage';
+export { sdWebUIProvider } from './sdWebUI';
+
+// Re-export registry functions
+export {
+    generateImage,
+    parseImageCommand,
+    getImageProvider,
+    getImageProviders,
+    getAvailableImageProviders,
+    ASPECT_RATIOS
+} from '../imageRegistry';
@@ -0,0 +1,96 @@
+import { ImageProviderName } from '../../types';
+import { ImageProvider, ImageRequest, ImageResult, registerImageProvider, sizeForAspectRatio } from '../imageRegistry';
+
+// ============================================
+// STABLE DIFFUSION WEBUI PROVIDER (Local)
+// Any server exposing the AUTOMATIC1111 txt2img API
+// (AUTOMATIC1111 or Forge started with --api, SD.Next)
+// ============================================
+
+const DEFAULT_STEPS = 25;
+const DEFAULT_LONG_SIDE = 1024; // SDXL; set VITE_SD_WEBUI_SIZE=768 or 512 for SD 1.5 checkpoints
+
+class SdWebUIProvider implements ImageProvider {
+    name = ImageProviderName.SD_WEBUI;
+    displayName = 'Stable Diffusion WebUI (Local)';
+    supportsNegativePrompt = true;
+    supportsSeed = true;
+
+    private baseUrl = '';
+    private envUrl = '';
+    private steps: number;
+    private longSide: number;
+
+    constructor() {
+        const env = (import.meta as any).env || {};
+        this.envUrl = env.VITE_SD_WEBUI_URL || '';
+        this.steps = Number(env.VITE_SD_WEBUI_STEPS) || DEFAULT_STEPS;
+        this.longSide = Number(env.VITE_SD_WEBUI_SIZE) || DEFAULT_LONG_SIDE;
+        this.setCredential(null);
+    }
+
+    isConfigured(): boolean {
+        return this.baseUrl !== '';
+    }
+
+    // The "credential" is the server URL, e.g. http://127.0.0.1:7860
+    setCredential(baseUrl: string | null): void {
+        this.baseUrl = (baseUrl || this.envUrl).replace(/\/+$/, '');
+        if (this.baseUrl) {
+            console.log(`[SD WebUI] Using ${this.baseUrl}`);
+        }
+    }
+
+    async generateImage(request: ImageRequest): Promise<ImageResult> {
+        if (!this.baseUrl) {
+            throw new Error('Stable Diffusion WebUI URL not configured. Set VITE_SD_WEBUI_URL or add it in Settings');
+        }
+
+        const { width, height } = sizeForAspectRatio(request.aspectRatio || '1:1', this.longSide);
+        const response = await fetch(`${this.baseUrl}/sdapi/v1/txt2img`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                prompt: request.prompt,
+                negative_prompt: request.negativePrompt || '',
+                seed: request.seed ?? -1,
+                width,
+                height,
+                steps: this.steps
+            }),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            throw new Error(`SD WebUI error ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        const image: string | undefined = data.images?.[0];
+        if (!image) {
+            throw new Error('SD WebUI returned no image');
+        }
+
+        // `info` is a JSON string with the seed and checkpoint actually used
+        let info: { seed?: number; sd_model_name?: string } = {};
+        try {
+            info = JSON.parse(data.info || '{}');
+        } catch {
+            // Older builds send plain text; keep the requested values
+        }
+
+        return {
+            dataUrl: image.startsWith('data:') ? image : `data:image/png;base64,${image}`,
+            modelId: info.sd_model_name || 'sd-webui',
+            seed: info.seed ?? request.seed,
+            width,
+            height
+        };
+    }
+}
+
+const sdWebUIProvider = new SdWebUIProvider();
+registerImageProvider(sdWebUIProvider);
+
+export { sdWebUIProvider };
+export default SdWebUIProvider;
@@ -0,0 +1,209 @@
+import { AspectRatio, ImageDefaults, ImageGenerationMetadata, ImageProviderName } from '../types';
+
+// ============================================
+// IMAGE PROVIDER INTERFACE
+// ============================================
+
+export interface ImageRequest {
+    prompt: string;
+    negativePrompt?: string;
+    aspectRatio?: AspectRatio; // Default 1:1
+    seed?: number; // Random when unset (providers that take seeds)
+    signal?: AbortSignal;
+    projectId?: string; // Attributes metered usage to a project
+}
+
+export interface ImageResult {
+    dataUrl: string; // data:image/...;base64,...
+    modelId: string;
+    seed?: number; // The seed actually used, when the provider reports or takes one
+    width?: number;
+    height?: number;
+}
+
+export interface ImageProvider {
+    name: ImageProviderName;
+    displayName: string;
+
+    // Whether the vendor takes these natively (otherwise they are approximated or ignored)
+    supportsNegativePrompt: boolean;
+    supportsSeed: boolean;
+
+    isConfigured(): boolean;
+
+    generateImage(request: ImageRequest): Promise<ImageResult>;
+
+    // Swap in a runtime API key (the server URL for SD_WEBUI); null reverts to the env value
+    setCredential?(credential: string | null): void;
+}
+
+// ============================================
+// IMAGE PROVIDER REGISTRY
+// ============================================
+
+// Tried in this order when the user has not picked a provider
+export const IMAGE_PROVIDER_PRIORITY: ImageProviderName[] = [
+    ImageProviderName.GEMINI,
+    ImageProviderName.SD_WEBUI,
+    ImageProviderName.HUGGINGFACE
+];
+
+const imageProviders = new Map<ImageProviderName, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider): void {
+    imageProviders.set(provider.name, provider);
+    console.log(`[Images] Registered provider: ${provider.displayName}`);
+}
+
+export function getImageProvider(name: ImageProviderName): ImageProvider | undefined {
+    return imageProviders.get(name);
+}
+
+export function getImageProviders(): ImageProvider[] {
+    return Array.from(imageProviders.values());
+}
+
+export function getAvailableImageProviders(): ImageProviderName[] {
+    return IMAGE_PROVIDER_PRIORITY.filter(name => imageProviders.get(name)?.isConfigured());
+}
+
+// ============================================
+// ASPECT RATIOS
+// ============================================
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '1:1';
+
+/** Pixel size for a ratio, longest side `longSide`, both sides multiples of 64 (what diffusion models expect) */
+export function sizeForAspectRatio(aspectRatio: AspectRatio, longSide: number = 1024): { width: number; height: number } {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const snap = (n: number) => Math.max(64, Math.round(n / 64) * 64);
+    return w >= h
+        ? { width: snap(longSide), height: snap(longSide * h / w) }
+        : { width: snap(longSide * w / h), height: snap(longSide) };
+}
+
+// ============================================
+// GENERATION
+// ============================================
+
+export interface GeneratedImage extends ImageResult {
+    provider: ImageProviderName;
+    metadata: ImageGenerationMetadata;
+}
+
+const randomSeed = (): number => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Generate an image with the chosen provider, falling back through the other configured
+ * providers in priority order. The result carries the metadata to store on the IMAGE block.
+ */
+export async function generateImage(request: ImageRequest, preferred?: ImageProviderName): Promise<GeneratedImage> {
+    const available = getAvailableImageProviders();
+    if (available.length === 0) {
+        throw new Error('No image provider configured. Add a Gemini or Hugging Face key, or a Stable Diffusion WebUI URL, in Settings');
+    }
+
+    const order = preferred && available.includes(preferred)
+        ? [preferred, ...available.filter(name => name !== preferred)]
+        : available;
+    if (preferred && !available.includes(preferred)) {
+        console.warn(`[Images] ${preferred} is not configured; using ${order[0]}`);
+    }
+
+    const aspectRatio = request.aspectRatio || DEFAULT_ASPECT_RATIO;
+    const errors: string[] = [];
+
+    for (const name of order) {
+        const provider = imageProviders.get(name)!;
+        // Pick the seed here so it is on record even when the vendor does not echo it back
+        const seed = provider.supportsSeed ? request.seed ?? randomSeed() : undefined;
+
+        try {
+            console.log(`[Images] Generating with ${provider.displayName} (${aspectRatio}${seed !== undefined ? `, seed ${seed}` : ''})`);
+            const result = await provider.generateImage({ ...request, aspectRatio, seed });
+            return {
+                ...result,
+                provider: name,
+                metadata: {
+                    provider: name,
+                    modelId: result.modelId,
+                    aspectRatio,
+                    ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+                    ...((result.seed ?? seed) !== undefined && { seed: result.seed ?? seed }),
+                    ...(result.width && { width: result.width, height: result.height }),
+                    generatedAt: Date.now()
+                }
+            };
+        } catch (error) {
+            if (request.signal?.aborted) throw error;
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[Images] ${name} failed: ${message}`);
+            errors.push(`${name}: ${message}`);
+        }
+    }
+
+    throw new Error(`All image providers failed:\n${errors.join('\n')}`);
+}
+
+// ============================================
+// /image COMMAND
+// ============================================
+
+const PROVIDER_ALIASES: Record<string, ImageProviderName> = {
+    gemini: ImageProviderName.GEMINI,
+    hf: ImageProviderName.HUGGINGFACE,
+    huggingface: ImageProviderName.HUGGINGFACE,
+    sd: ImageProviderName.SD_WEBUI,
+    sd_webui: ImageProviderName.SD_WEBUI,
+    local: ImageProviderName.SD_WEBUI
+};
+
+export interface ImageCommand {
+    request: ImageRequest;
+    provider?: ImageProviderName;
+}
+
+/**
+ * Parse the text after /image: a prompt followed by optional flags
+ * `--ar 16:9`, `--seed 42`, `--no blurry, text` and `--provider sd`.
+ * Project defaults fill in whatever the flags leave out.
+ */
+export function parseImageCommand(input: string, defaults: ImageDefaults = {}): ImageCommand {
+    const [prompt, ...flags] = ` ${input}`.split(/\s--(?=[a-z])/i);
+    const request: ImageRequest = {
+        prompt: prompt.trim(),
+        aspectRatio: defaults.aspectRatio,
+        negativePrompt: defaults.negativePrompt || undefined
+    };
+    let provider = defaults.provider;
+
+    for (const flag of flags) {
+        const [name, ...rest] = flag.trim().split(/\s+/);
+        const value = rest.join(' ');
+        switch (name.toLowerCase()) {
+            case 'ar':
+            case 'aspect':
+                if (ASPECT_RATIOS.includes(value as AspectRatio)) request.aspectRatio = value as AspectRatio;
+                else throw new Error(`Unsupported aspect ratio "${value}" (use ${ASPECT_RATIOS.join(', ')})`);
+                break;
+            case 'seed':
+                if (!/^\d+$/.test(value)) throw new Error(`Seed must be a whole number, got "${value}"`);
+                request.seed = Number(value);
+                break;
+            case 'no':
+                request.negativePrompt = value || undefined;
+                break;
+            case 'provider':
+                provider = PROVIDER_ALIASES[value.toLowerCase()];
+                if (!provider) throw new Error(`Unknown image provider "${value}" (use ${Object.keys(PROVIDER_ALIASES).join(', ')})`);
+                break;
+            default:
+                throw new Error(`Unknown /image flag --${name}`);
+        }
+    }
+
+    if (!request.prompt) throw new Error('Describe the image after /image');
+    return { request, provider };
+}
@@ -0,0 +1,95 @@
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { generateKDPMetadata, validateKDPMetadata } from './kdpHelper';
+import { BookMetadata } from './workspaceManager';
+import { MockProviderOptions, installMockProvider } from './providers/mockProvider';
+import { startReplay } from './providers/recordReplay';
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+    restore?.();
+    restore = undefined;
+});
+
+const mock = (options: MockProviderOptions = {}) => {
+    const installed = installMockProvider(options);
+    restore = installed.restore;
+    return installed.provider;
+};
+
+// The replayed fixture was recorded for exactly this book; changing it (or the prompts) needs a new recording
+const BOOK: BookMetadata = {
+    title: 'The Lighthouse Letters',
+    author: 'Ada Mock',
+    description: 'A lighthouse keeper finds letters addressed to her future self.',
+    genre: 'Mystery',
+    keywords: [],
+    language: 'en',
+    chapters: []
+};
+
+describe('generateKDPMetadata', () => {
+    it('combines generated keywords, blurb and categories', async () => {
+        const provider = mock();
+
+        const metadata = await generateKDPMetadata(BOOK);
+
+        expect(metadata.keywords).toHaveLength(7);
+        expect(metadata.description).toContain('Mock blurb.');
+        expect(metadata.categories).toEqual(['FICTION / General', 'FICTION / Fantasy / General']);
+        expect(validateKDPMetadata(metadata).valid).toBe(true);
+        expect(provider.calls.map(c => c.rule).sort()).toEqual(['kdp-blurb', 'kdp-categories', 'kdp-keywords']);
+    });
+
+    it('retries a blurb call that fails once', async () => {
+        const provider = mock({
+            rules: [{
+                name: 'blurb-outage',
+                match: /Amazon book description \(blurb\)/,
+                respond: () => { throw new Error('503 Service Unavailable'); },
+                times: 1
+            }]
+        });
+
+        const metadata = await generateKDPMetadata(BOOK);
+
+        expect(metadata.description).toContain('Mock blurb.');
+        expect(provider.callsFor('kdp-blurb')).toHaveLength(1);
+    });
+
+    it('falls back to genre keywords when the answer is not a list', async () => {
+        mock({ rules: [{ name: 'prose', match: /Amazon KDP keywords/, respond: 'Here are some keywords you might like.' }] });
+
+        const metadata = await generateKDPMetadata(BOOK);
+
+        expect(metadata.keywords).toHaveLength(7);
+        expect(metadata.keywords.slice(0, 2)).toEqual(['mystery', 'mystery books']);
+        expect(metadata.keywords).toContain('lighthouse mystery');
+        expect(new Set(metadata.keywords).size).toBe(7);
+        for (const keyword of metadata.keywords) {
+            expect(keyword.length).toBeLessThanOrEqual(50);
+            expect(keyword).not.toMatch(/^(the|a|an|her|to)$|best ?sell|new|free|\d{4}/i);
+        }
+    });
+
+    it('replays a recorded session', async () => {
+        restore = startReplay(readFileSync(new URL('./__fixtures__/kdp-metadata.json', import.meta.url), 'utf8'));
+
+        const metadata = await generateKDPMetadata(BOOK);
+
+        expect(metadata.keywords[0]).toBe('cozy lighthouse mystery');
+        expect(metadata.description).toMatch(/^<b>The letters were addressed to her\./);
+        expect(metadata.categories).toEqual(['FICTION / Mystery & Detective / General', 'FICTION / Thrillers / General']);
+    });
+
+    it('does not answer requests missing from the fixtures', async () => {
+        restore = startReplay(readFileSync(new URL('./__fixtures__/kdp-metadata.json', import.meta.url), 'utf8'));
+
+        // Every generator falls back when its call fails; none of the fixture answers appear
+        const metadata = await generateKDPMetadata({ ...BOOK, title: 'Another Book' });
+
+        expect(metadata.keywords).not.toContain('cozy lighthouse mystery');
+        expect(metadata.description).toBe(BOOK.description);
+    });
+});
@@ -4,7 +4,10 @@
 // ============================================
 
 import { BookMetadata } from './workspaceManager';
-import { generateWithBestModel, GenerateOptions } from './modelRegistry';
+import { GenerateOptions } from './modelRegistry';
+import { routeGenerate } from './providerRouter';
+import { generateStructured, SCHEMAS, viaRouter } from './structuredOutput';
+import { isBudgetExceeded } from './budget';
 
 export interface KDPMetadata {
     title: string;
@@ -21,7 +24,10 @@ export interface KDPMetadata {
 
 export interface CoverSpecs {
     trimSize: string;
+    pageCount: number;
     spineWidth: number;
+    spineText: boolean; // Whether the spine is wide enough for a title
+    bleed: number; // Inches, on every outer edge
     coverWidth: number;
     coverHeight: number;
     dpi: number;
@@ -38,6 +44,23 @@ const TRIM_SIZES: Record<string, { width: number; height: number }> = {
     '8.5x11': { width: 8.5, height: 11 }
 };
 
+// KDP only allows spine text on books of more than 79 pages
+const SPINE_TEXT_MIN_PAGES = 80;
+
+// Keyword limits: seven per book, up to 50 characters each
+const KEYWORD_COUNT = 7;
+const MAX_KEYWORD_CHARS = 50;
+
+// Words too common to search on, for the fallback keywords
+const KEYWORD_STOPWORDS = new Set([
+    'about', 'after', 'against', 'before', 'being', 'from', 'have', 'into', 'over', 'that', 'their',
+    'them', 'then', 'there', 'they', 'this', 'through', 'what', 'when', 'where', 'which', 'while',
+    'with', 'your'
+]);
+
+// KDP rejects sales and rank claims and time-sensitive terms in keywords
+const PROHIBITED_KEYWORD = /\b(best ?sell(er|ers|ing)?|free|sale|discount|new|latest|kindle unlimited|\d{4})\b/i;
+
 // BISAC Categories for books
 const POPULAR_CATEGORIES = [
     'FICTION / General',
@@ -86,7 +109,10 @@ export const calculateCoverSpecs = (
 
     return {
         trimSize,
+        pageCount,
         spineWidth: Math.round(spineWidth * 100) / 100,
+        spineText: pageCount >= SPINE_TEXT_MIN_PAGES,
+        bleed,
         coverWidth: Math.round(coverWidth * dpi),
         coverHeight: Math.round(coverHeight * dpi),
         dpi
@@ -99,7 +125,8 @@ export const calculateCoverSpecs = (
 export const generateKeywords = async (
     title: string,
     description: string,
-    genre: string
+    genre: string,
+    options: GenerateOptions = {}
 ): Promise<string[]> => {
     const prompt = `Generate exactly 7 Amazon KDP keywords for a book with the following details:
 
@@ -118,28 +145,39 @@ Return ONLY a JSON array of 7 keyword strings, nothing else.
 Example: ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5", "keyword6", "keyword7"]`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await generateStructured<string[]>(SCHEMAS.kdpKeywords, prompt, viaRouter('writing', {
+            ...options,
             responseFormat: 'json',
             temperature: 0.7
-        });
+        }));
 
-        const keywords = JSON.parse(result.text);
-        return Array.isArray(keywords) ? keywords.slice(0, 7) : [];
+        if (!result.data) throw new Error(`Invalid keywords: ${result.errors.join('; ')}`);
+        return result.data.slice(0, KEYWORD_COUNT);
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error generating keywords:', error);
-        // Fallback keywords
-        return [
-            genre.toLowerCase(),
-            `${genre} books`,
-            `best ${genre}`,
-            title.split(' ')[0].toLowerCase(),
-            'new release',
-            'bestseller',
-            '2024 books'
-        ];
+        return fallbackKeywords(title, description, genre);
     }
 };
 
+/**
+ * Keywords built from the genre and the significant words of the title and description,
+ * for when generation fails. May be fewer than seven for a very short description.
+ */
+const fallbackKeywords = (title: string, description: string, genre: string): string[] => {
+    const genreTerm = genre.trim().toLowerCase();
+    const words = Array.from(`${title} ${description}`.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => match[0])
+        .filter(word => word.length > 3 && !KEYWORD_STOPWORDS.has(word));
+    const candidates = [
+        genreTerm,
+        genreTerm && `${genreTerm} books`,
+        ...words.map(word => genreTerm ? `${word} ${genreTerm}` : word)
+    ];
+    return Array.from(new Set(candidates))
+        .filter(keyword => keyword !== '' && keyword.length <= MAX_KEYWORD_CHARS && !PROHIBITED_KEYWORD.test(keyword))
+        .slice(0, KEYWORD_COUNT);
+};
+
 /**
  * Generate book description/blurb using AI
  */
@@ -147,7 +185,8 @@ export const generateBlurb = async (
     title: string,
     description: string,
     genre: string,
-    maxChars: number = 4000
+    maxChars: number = 4000,
+    options: GenerateOptions = {}
 ): Promise<string> => {
     const prompt = `Write a compelling Amazon book description (blurb) for:
 
@@ -167,13 +206,15 @@ Requirements:
 Write ONLY the blurb, no other text.`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await routeGenerate(prompt, 'writing', {
+            ...options,
             temperature: 0.8,
             maxTokens: 1000
         });
 
         return result.text.substring(0, maxChars);
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error generating blurb:', error);
         return description;
     }
@@ -184,7 +225,8 @@ Write ONLY the blurb, no other text.`;
  */
 export const suggestCategories = async (
     description: string,
-    genre: string
+    genre: string,
+    options: GenerateOptions = {}
 ): Promise<string[]> => {
     const prompt = `Based on this book description and genre, suggest the 2 most appropriate BISAC categories:
 
@@ -197,14 +239,16 @@ ${POPULAR_CATEGORIES.join('\n')}
 Return ONLY a JSON array with exactly 2 category strings from the list above.`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await generateStructured<string[]>(SCHEMAS.kdpCategories, prompt, viaRouter('writing', {
+            ...options,
             responseFormat: 'json',
             temperature: 0.3
-        });
+        }));
 
-        const categories = JSON.parse(result.text);
-        return Array.isArray(categories) ? categories.slice(0, 2) : [POPULAR_CATEGORIES[0]];
+        if (!result.data) throw new Error(`Invalid categories: ${result.errors.join('; ')}`);
+        return result.data.slice(0, 2);
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error suggesting categories:', error);
         return [POPULAR_CATEGORIES[0]];
     }
@@ -214,12 +258,13 @@ Return ONLY a JSON array with exactly 2 category strings from the list above.`;
  * Generate complete KDP metadata
  */
 export const generateKDPMetadata = async (
-    bookMetadata: BookMetadata
+    bookMetadata: BookMetadata,
+    options: GenerateOptions = {}
 ): Promise<KDPMetadata> => {
     const [keywords, blurb, categories] = await Promise.all([
-        generateKeywords(bookMetadata.title, bookMetadata.description, bookMetadata.genre),
-        generateBlurb(bookMetadata.title, bookMetadata.description, bookMetadata.genre),
-        suggestCategories(bookMetadata.description, bookMetadata.genre)
+        generateKeywords(bookMetadata.title, bookMetadata.description, bookMetadata.genre, options),
+        generateBlurb(bookMetadata.title, bookMetadata.description, bookMetadata.genre, undefined, options),
+        suggestCategories(bookMetadata.description, bookMetadata.genre, options)
     ]);
 
     return {
@@ -258,7 +303,7 @@ export const validateKDPMetadata = (metadata: KDPMetadata): {
         errors.push('Description is required and must be under 4000 characters');
     }
 
-    if (metadata.keywords.length !== 7) {
+    if (metadata.keywords.length !== KEYWORD_COUNT) {
         errors.push('Exactly 7 keywords are required');
     }
 
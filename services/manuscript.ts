@@ -0,0 +1,204 @@
+import type { FootnoteDefinition, Nodes, PhrasingContent, Root, RootContent } from 'mdast';
+import { ContentBlock, BlockType } from '../types';
+import { isSmallCaps, parseMarkdown } from './markdown';
+
+// ============================================
+// MANUSCRIPT
+// The book's text as chapters of styled paragraphs, for exporters
+// that lay text out themselves (print PDF, DOCX) rather than as HTML
+// ============================================
+
+export type TextStyle = 'regular' | 'italic' | 'bold' | 'boldItalic';
+
+export interface Run {
+    text: string;
+    style: TextStyle;
+    variant?: 'smallCaps' | 'superscript';
+}
+
+export interface Paragraph {
+    kind: 'body' | 'heading' | 'quote' | 'item' | 'break';
+    runs: Run[];
+    bullet?: string;
+}
+
+export interface Chapter {
+    number?: number; // Undefined for the opening section (blocks before the first chapter)
+    title: string;
+    paragraphs: Paragraph[];
+}
+
+interface Format {
+    bold: boolean;
+    italic: boolean;
+    variant?: Run['variant'];
+}
+
+// Footnotes are numbered through a chapter and printed together at its end
+interface ChapterNotes {
+    numbers: Map<FootnoteDefinition, number>;
+    paragraphs: Paragraph[];
+}
+
+type NoteReferencer = (identifier: string) => number | undefined;
+
+const styleOf = (format: Format): TextStyle =>
+    format.bold && format.italic ? 'boldItalic' : format.bold ? 'bold' : format.italic ? 'italic' : 'regular';
+
+const appendRun = (runs: Run[], text: string, format: Format): void => {
+    const last = runs[runs.length - 1];
+    const style = styleOf(format);
+    if (last && last.style === style && last.variant === format.variant) last.text += text;
+    else runs.push(format.variant ? { text, style, variant: format.variant } : { text, style });
+};
+
+// Nested emphasis adds up the way the Canvas nests <em> and <strong>
+const inlineRuns = (nodes: PhrasingContent[], format: Format, reference: NoteReferencer, runs: Run[] = []): Run[] => {
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+            case 'inlineCode':
+            case 'html': // Shown as typed, as on the Canvas
+                appendRun(runs, node.value.replace(/\s*\n\s*/g, ' '), format);
+                break;
+            case 'break':
+                appendRun(runs, ' ', format);
+                break;
+            case 'emphasis':
+                inlineRuns(node.children, isSmallCaps(node) ? { ...format, variant: 'smallCaps' } : { ...format, italic: true }, reference, runs);
+                break;
+            case 'strong':
+                inlineRuns(node.children, { ...format, bold: true }, reference, runs);
+                break;
+            case 'link':
+            case 'linkReference':
+            case 'delete':
+                inlineRuns(node.children, format, reference, runs);
+                break;
+            case 'footnoteReference': {
+                const number = reference(node.identifier);
+                if (number !== undefined) appendRun(runs, String(number), { ...format, variant: 'superscript' });
+                break;
+            }
+            // Images have nothing to typeset
+        }
+    }
+    return runs;
+};
+
+export const plainText = (runs: Run[]): string => runs.map(run => run.text).join('').trim();
+
+/** Headings, scene breaks, list items, block quotes and paragraphs of parsed markdown */
+const blockParagraphs = (nodes: RootContent[], quote: boolean, reference: NoteReferencer, paragraphs: Paragraph[] = []): Paragraph[] => {
+    const format: Format = { bold: false, italic: quote };
+    const push = (kind: Paragraph['kind'], runs: Run[], bullet?: string) => {
+        if (plainText(runs)) paragraphs.push(bullet ? { kind, runs, bullet } : { kind, runs });
+    };
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'paragraph':
+                push(quote ? 'quote' : 'body', inlineRuns(node.children, format, reference));
+                break;
+            case 'code':
+            case 'html':
+                push(quote ? 'quote' : 'body', [{ text: node.value.replace(/\s*\n\s*/g, ' '), style: styleOf(format) }]);
+                break;
+            case 'heading':
+                push('heading', inlineRuns(node.children, { bold: true, italic: false }, reference));
+                break;
+            case 'thematicBreak':
+                paragraphs.push({ kind: 'break', runs: [] });
+                break;
+            case 'blockquote':
+                blockParagraphs(node.children, true, reference, paragraphs);
+                break;
+            case 'list':
+                node.children.forEach((item, i) => {
+                    const [first, ...rest] = item.children;
+                    if (first?.type !== 'paragraph') {
+                        blockParagraphs(item.children, quote, reference, paragraphs);
+                        return;
+                    }
+                    push('item', inlineRuns(first.children, format, reference), node.ordered ? `${(node.start ?? 1) + i}.` : '•');
+                    blockParagraphs(rest, quote, reference, paragraphs);
+                });
+                break;
+            // Link and footnote definitions are not running text
+        }
+    }
+    return paragraphs;
+};
+
+const footnoteDefinitions = (node: Nodes, found = new Map<string, FootnoteDefinition>()): Map<string, FootnoteDefinition> => {
+    if (node.type === 'footnoteDefinition' && !found.has(node.identifier)) found.set(node.identifier, node);
+    if ('children' in node) node.children.forEach(child => footnoteDefinitions(child, found));
+    return found;
+};
+
+// Number a block's footnotes on first reference, writing each note out for the chapter's end
+const noteReferencer = (tree: Root, notes: ChapterNotes): NoteReferencer => {
+    const definitions = footnoteDefinitions(tree);
+    const reference: NoteReferencer = (identifier) => {
+        const definition = definitions.get(identifier);
+        if (!definition) return undefined;
+        const known = notes.numbers.get(definition);
+        if (known !== undefined) return known;
+
+        const number = notes.numbers.size + 1;
+        notes.numbers.set(definition, number);
+        const runs: Run[] = [];
+        for (const child of definition.children) {
+            if (child.type !== 'paragraph') continue;
+            if (runs.length > 0) appendRun(runs, ' ', { bold: false, italic: false });
+            inlineRuns(child.children, { bold: false, italic: false }, reference, runs);
+        }
+        notes.paragraphs.push({ kind: 'item', bullet: `${number}.`, runs });
+        return number;
+    };
+    return reference;
+};
+
+/**
+ * Group the blocks into chapters the way the EPUB export does: each CHAPTER block
+ * starts one and the TEXT blocks after it join it; blocks before the first chapter
+ * form an untitled opening section. A chapter's leading heading is dropped when it
+ * repeats the chapter title, and its footnotes follow it under a "Notes" heading.
+ * IMAGE blocks and working notes are left out.
+ */
+export const collectChapters = (blocks: ContentBlock[]): Chapter[] => {
+    const chapters: Chapter[] = [];
+    const notes = new Map<Chapter, ChapterNotes>();
+    let chapterCount = 0;
+    const open = (chapter: Chapter) => {
+        chapters.push(chapter);
+        notes.set(chapter, { numbers: new Map(), paragraphs: [] });
+    };
+
+    for (const block of blocks) {
+        if (block.type !== BlockType.CHAPTER && block.type !== BlockType.TEXT) continue;
+        if (block.type === BlockType.CHAPTER) {
+            chapterCount++;
+            open({ number: block.metadata?.chapterNumber ?? chapterCount, title: '', paragraphs: [] });
+        } else if (chapters.length === 0) {
+            open({ title: '', paragraphs: [] });
+        }
+
+        const chapter = chapters[chapters.length - 1];
+        const tree = parseMarkdown(block.content);
+        const paragraphs = blockParagraphs(tree.children, false, noteReferencer(tree, notes.get(chapter)!));
+        if (block.type === BlockType.CHAPTER) {
+            const leading = paragraphs[0]?.kind === 'heading' ? plainText(paragraphs[0].runs) : undefined;
+            chapter.title = block.metadata?.title || leading || `Chapter ${chapter.number}`;
+            if (leading && leading.toLowerCase() === chapter.title.toLowerCase()) paragraphs.shift();
+        }
+        chapter.paragraphs.push(...paragraphs);
+    }
+
+    for (const chapter of chapters) {
+        const written = notes.get(chapter)!.paragraphs;
+        if (written.length === 0) continue;
+        chapter.paragraphs.push({ kind: 'heading', runs: [{ text: 'Notes', style: 'bold' }] }, ...written);
+    }
+    return chapters;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+    it('renders CommonMark emphasis and headings', () => {
+        expect(renderMarkdown('## Chapter One\n\nShe *ran*.')).toBe('<h2>Chapter One</h2>\n<p>She <em>ran</em>.</p>');
+    });
+
+    it('turns [text]{.smallcaps} into a small-caps span', () => {
+        expect(renderMarkdown('[The End]{.smallcaps} came.')).toBe('<p><span class="small-caps">The End</span> came.</p>');
+    });
+
+    it('marks scene breaks', () => {
+        expect(renderMarkdown('Before.\n\n***\n\nAfter.')).toContain('<hr class="scene-break"/>');
+    });
+
+    it('links footnote references to their definitions, with prefixed ids', () => {
+        const html = renderMarkdown('A claim.[^1]\n\n[^1]: The source.', { idPrefix: 'ch1-' });
+
+        expect(html).toContain('href="#ch1-fn-1"');
+        expect(html).toContain('id="ch1-fn-1"');
+        expect(html).toContain('The source.');
+        expect(html).toContain('id="ch1-footnote-label"');
+        expect(html).not.toContain('[^1]');
+    });
+
+    it('escapes raw HTML and strips characters XML cannot hold', () => {
+        expect(renderMarkdown('Tom & <b>Jerry</b>\u0001')).toBe('<p>Tom &amp; &lt;b&gt;Jerry&lt;/b&gt;</p>');
+    });
+
+    it('renders nothing for blank input', () => {
+        expect(renderMarkdown('  \n ')).toBe('');
+    });
+});
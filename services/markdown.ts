@@ -0,0 +1,245 @@
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toHast, Options as HastOptions } from 'mdast-util-to-hast';
+import type { Emphasis, FootnoteDefinition, Nodes, Paragraph, Parent, PhrasingContent, Root, RootContent } from 'mdast';
+import type { Nodes as HastNodes, Properties } from 'hast';
+import { escapeXml } from './xml';
+
+// ============================================
+// MARKDOWN
+// The one CommonMark pipeline behind the Canvas and every exporter, with
+// the book extensions: footnotes ([^1] and [^1]: ...), small caps
+// ([text]{.smallcaps}) and scene breaks (*** or ---)
+// ============================================
+
+export const SMALL_CAPS_CLASS = 'small-caps';
+export const SCENE_BREAK_CLASS = 'scene-break';
+
+/** Options for mdast-util-to-hast; the Canvas passes the same to react-markdown */
+export const MARKDOWN_HAST_OPTIONS: HastOptions = {
+    footnoteLabel: 'Notes',
+    footnoteLabelTagName: 'h3',
+    footnoteLabelProperties: { className: ['footnotes-label'] }
+};
+
+export interface RenderOptions {
+    idPrefix?: string; // Keeps footnote ids unique when several blocks share one document
+}
+
+// ============================================
+// EXTENSIONS
+// ============================================
+
+const FOOTNOTE_DEFINITION = /(^|\n)\[\^([^\]\s]+)\]:[ \t]*/g;
+const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\]/g;
+const SMALL_CAPS_CLOSE = /\]\{\.small-?caps\}/i;
+
+const eachParent = (node: Nodes, visit: (parent: Parent) => void): void => {
+    if (!('children' in node)) return;
+    visit(node);
+    for (const child of node.children) eachParent(child, visit);
+};
+
+const hasContent = (node: PhrasingContent): boolean => node.type !== 'text' || node.value.trim() !== '';
+
+const footnoteDefinition = (id: string, children: PhrasingContent[]): FootnoteDefinition => ({
+    type: 'footnoteDefinition',
+    identifier: id.toLowerCase(),
+    label: id,
+    children: [{ type: 'paragraph', children }]
+});
+
+// CommonMark reads "[^1]: Some note." as a plain paragraph; cut it into definitions at each "[^id]:" line
+const splitFootnoteDefinitions = (paragraph: Paragraph): (Paragraph | FootnoteDefinition)[] => {
+    const segments: { id?: string; children: PhrasingContent[] }[] = [{ children: [] }];
+    const append = (node: PhrasingContent) => segments[segments.length - 1].children.push(node);
+
+    paragraph.children.forEach((child, index) => {
+        if (child.type !== 'text') {
+            append(child);
+            return;
+        }
+        let last = 0;
+        for (const match of child.value.matchAll(FOOTNOTE_DEFINITION)) {
+            if (match.index === 0 && !match[1] && index > 0) continue; // Only at the start of a line
+            if (match.index > last) append({ type: 'text', value: child.value.slice(last, match.index) });
+            segments.push({ id: match[2], children: [] });
+            last = match.index + match[0].length;
+        }
+        if (last < child.value.length) append(last === 0 ? child : { type: 'text', value: child.value.slice(last) });
+    });
+
+    if (segments.length === 1) return [paragraph];
+    return segments
+        .filter(segment => segment.id !== undefined || segment.children.some(hasContent))
+        .map(segment => segment.id !== undefined
+            ? footnoteDefinition(segment.id, segment.children)
+            : { type: 'paragraph', children: segment.children });
+};
+
+// Text "[^id]" (or a one-word note parsed as a link reference) becomes a reference when the note exists
+const linkFootnoteReferences = (parent: Parent, ids: Set<string>): void => {
+    parent.children = parent.children.flatMap((child): RootContent[] => {
+        if (child.type === 'linkReference' && child.identifier.startsWith('^') && ids.has(child.identifier.slice(1))) {
+            return [{ type: 'footnoteReference', identifier: child.identifier.slice(1), label: child.label?.slice(1) }];
+        }
+        if (child.type !== 'text') return [child];
+
+        const nodes: RootContent[] = [];
+        let last = 0;
+        for (const match of child.value.matchAll(FOOTNOTE_REFERENCE)) {
+            const id = match[1].toLowerCase();
+            if (!ids.has(id)) continue;
+            if (match.index > last) nodes.push({ type: 'text', value: child.value.slice(last, match.index) });
+            nodes.push({ type: 'footnoteReference', identifier: id, label: match[1] });
+            last = match.index + match[0].length;
+        }
+        if (last === 0) return [child];
+        if (last < child.value.length) nodes.push({ type: 'text', value: child.value.slice(last) });
+        return nodes;
+    });
+};
+
+// "[text]{.smallcaps}"; the text may carry emphasis, so the brackets can sit in different text nodes
+const applySmallCaps = (parent: Parent): void => {
+    const children = parent.children;
+    for (let j = 0; j < children.length; j++) {
+        const closing = children[j];
+        if (closing.type !== 'text') continue;
+        const close = SMALL_CAPS_CLOSE.exec(closing.value);
+        if (!close) continue;
+
+        let i = j;
+        let start = closing.value.lastIndexOf('[', close.index);
+        while (start === -1 && i > 0) {
+            const node = children[--i];
+            if (node.type === 'text') start = node.value.lastIndexOf('[');
+        }
+        if (start === -1) continue;
+
+        const opening = children[i];
+        if (opening.type !== 'text') continue;
+        const inner: PhrasingContent[] = i === j
+            ? [{ type: 'text', value: closing.value.slice(start + 1, close.index) }]
+            : [
+                { type: 'text', value: opening.value.slice(start + 1) },
+                ...children.slice(i + 1, j) as PhrasingContent[],
+                { type: 'text', value: closing.value.slice(0, close.index) }
+            ];
+        const span: Emphasis = {
+            type: 'emphasis',
+            children: inner.filter(node => node.type !== 'text' || node.value !== ''),
+            data: { hName: 'span', hProperties: { className: [SMALL_CAPS_CLASS] } }
+        };
+        const before = opening.value.slice(0, start);
+        const after = closing.value.slice(close.index + close[0].length);
+        const replacement: RootContent[] = [
+            ...(before ? [{ type: 'text' as const, value: before }] : []),
+            span,
+            ...(after ? [{ type: 'text' as const, value: after }] : [])
+        ];
+        children.splice(i, j - i + 1, ...replacement);
+        j = i + (before ? 1 : 0); // Carry on from the span; the text after it may hold another
+    }
+};
+
+/** Rewrite a parsed tree with the book extensions (footnotes, small caps, scene breaks) */
+const applyBookExtensions = (tree: Root): void => {
+    const ids = new Set<string>();
+    eachParent(tree, parent => {
+        parent.children = parent.children.flatMap((child): RootContent[] => {
+            if (child.type === 'definition' && child.identifier.startsWith('^')) {
+                // A one-word note ("[^1]: Ibid.") parses as a link definition
+                return [footnoteDefinition(child.label?.slice(1) || child.identifier.slice(1), [{ type: 'text', value: child.url }])];
+            }
+            return child.type === 'paragraph' ? splitFootnoteDefinitions(child) : [child];
+        });
+        for (const child of parent.children) {
+            if (child.type === 'footnoteDefinition') ids.add(child.identifier);
+        }
+    });
+
+    eachParent(tree, parent => {
+        if (ids.size > 0) linkFootnoteReferences(parent, ids);
+        applySmallCaps(parent);
+        for (const child of parent.children) {
+            if (child.type === 'thematicBreak') {
+                child.data = { hName: 'hr', hProperties: { className: [SCENE_BREAK_CLASS] } };
+            }
+        }
+    });
+};
+
+/** Whether an mdast node is a small-caps span made by the extensions */
+export const isSmallCaps = (node: Nodes): boolean =>
+    node.type === 'emphasis' && node.data?.hName === 'span';
+
+/** Parse markdown (CommonMark) and apply the book extensions */
+export function parseMarkdown(markdown: string): Root {
+    const tree = fromMarkdown(markdown);
+    applyBookExtensions(tree);
+    return tree;
+}
+
+/** The book extensions as a remark plugin, for react-markdown */
+export const remarkBookExtensions = () => applyBookExtensions;
+
+// ============================================
+// HTML
+// ============================================
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// hast property names -> attribute names (className -> class, dataFootnoteRef -> data-footnote-ref,
+// ariaDescribedBy -> aria-describedby)
+const attributeName = (property: string): string =>
+    property === 'className' ? 'class'
+        : property === 'htmlFor' ? 'for'
+            : /^data[A-Z]/.test(property) ? property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)
+                : /^aria[A-Z]/.test(property) ? `aria-${property.slice(4).toLowerCase()}`
+                    : property.toLowerCase();
+
+const serializeAttributes = (properties: Properties): string =>
+    Object.entries(properties).map(([property, value]) => {
+        if (value === false || value === null || value === undefined) return '';
+        const name = attributeName(property);
+        const text = value === true ? '' : Array.isArray(value) ? value.join(' ') : String(value);
+        return ` ${name}="${escapeXml(text)}"`;
+    }).join('');
+
+// Well-formed XHTML, so the EPUB content documents can use it as-is
+const serialize = (node: HastNodes): string => {
+    switch (node.type) {
+        case 'root':
+            return node.children.map(serialize).join('');
+        case 'element': {
+            const open = `<${node.tagName}${serializeAttributes(node.properties)}`;
+            if (VOID_ELEMENTS.has(node.tagName)) return `${open}/>`;
+            return `${open}>${node.children.map(serialize).join('')}</${node.tagName}>`;
+        }
+        case 'text':
+        case 'raw':
+            return escapeXml(node.value); // Raw HTML shows as text, as on the Canvas
+        default:
+            return '';
+    }
+};
+
+// mdast-util-to-hast does not prefix the footnote heading's id; do it so every block's is unique
+const prefixFootnoteLabel = (node: HastNodes, prefix: string): void => {
+    if (node.type === 'element') {
+        if (node.properties.id === 'footnote-label') node.properties.id = `${prefix}footnote-label`;
+        if (Array.isArray(node.properties.ariaDescribedBy)) {
+            node.properties.ariaDescribedBy = node.properties.ariaDescribedBy.map(id => id === 'footnote-label' ? `${prefix}footnote-label` : id);
+        }
+    }
+    if ('children' in node) node.children.forEach(child => prefixFootnoteLabel(child, prefix));
+};
+
+/** Render markdown to semantic XHTML, the same elements react-markdown puts on the Canvas */
+export function renderMarkdown(markdown: string, options: RenderOptions = {}): string {
+    if (!markdown?.trim()) return '';
+    const prefix = options.idPrefix ?? '';
+    const hast = toHast(parseMarkdown(markdown), { ...MARKDOWN_HAST_OPTIONS, allowDangerousHtml: true, clobberPrefix: prefix });
+    if (prefix) prefixFootnoteLabel(hast, prefix);
+    return serialize(hast).trim();
+}
@@ -1,21 +1,27 @@
-import { ModelProvider, ModelConfig, TaskType } from '../types';
+import { GenerateOptions, ModelProvider, ModelConfig, ModelCapability, ModelPricing, TaskType, TokenUsage, UsageTotals } from '../types';
+import { recordUsage, estimateTokens } from './usageTracker';
 
 // ============================================
 // AI PROVIDER INTERFACE
 // ============================================
 
-export interface GenerateOptions {
-    systemPrompt?: string;
-    temperature?: number;
-    maxTokens?: number;
-    responseFormat?: 'text' | 'json';
-}
+// Defined with the shared types; re-exported for the providers that import it from here
+export type { GenerateOptions };
 
 export type ContentPart =
     | { text: string }
     | { inlineData: { mimeType: string; data: string } } // base64
     | { fileData: { mimeType: string; fileUri: string } };
 
+export interface GenerationResult {
+    text: string;
+    modelId: string;
+    usage?: TokenUsage; // Omitted when the vendor does not report usage
+}
+
+// Returned by streamText once the stream has finished
+export type StreamSummary = Omit<GenerationResult, 'text'>;
+
 export interface AIProvider {
     name: ModelProvider;
     displayName: string;
@@ -24,10 +30,51 @@ export interface AIProvider {
     isConfigured(): boolean;
 
     // Generate content (supports text-only or multimodal inputs)
-    generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string>;
+    generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult>;
+
+    // Stream content as incremental text chunks (optional - callers fall back to generateText)
+    streamText?(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary>;
 
     // Check if provider is available (configured + API responding)
     checkAvailability(): Promise<boolean>;
+
+    // Swap in a runtime API key (the server URL for LOCAL); null reverts to the env value
+    setCredential?(credential: string | null): void;
+
+    // Embed texts for retrieval, one vector per text (optional - providers with an embedding model)
+    embed?(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+    embeddingModel?: string; // Model id embed() calls, for metering
+}
+
+export type ChunkCallback = (chunk: string, accumulated: string) => void;
+
+/**
+ * Generate with a provider, streaming chunks to onChunk when it supports streaming
+ */
+export async function generateStreaming(
+    provider: AIProvider,
+    prompt: string | ContentPart[],
+    options: GenerateOptions | undefined,
+    onChunk: ChunkCallback
+): Promise<GenerationResult> {
+    if (!provider.streamText) {
+        const result = await provider.generateText(prompt, options);
+        onChunk(result.text, result.text);
+        return result;
+    }
+
+    // Iterate manually: the generator's return value carries the usage summary
+    const stream = provider.streamText(prompt, options);
+    let accumulated = '';
+    while (true) {
+        const next = await stream.next();
+        if (next.done) {
+            return { text: accumulated, ...next.value };
+        }
+        const chunk = next.value as string;
+        accumulated += chunk;
+        onChunk(chunk, accumulated);
+    }
 }
 
 // ============================================
@@ -42,7 +89,10 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Gemini 2.5 Flash',
         description: 'Balanced speed and quality, supports image generation',
         strengths: ['images', 'balanced', 'multimodal'],
-        isAvailable: true // Will be updated at runtime
+        capabilities: ['vision', 'pdf', 'long_context'],
+        contextWindow: 1_048_576,
+        isAvailable: true, // Will be updated at runtime
+        pricing: { input: 0.30, output: 2.50 }
     },
     {
         provider: ModelProvider.GEMINI,
@@ -50,7 +100,10 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Gemini 1.5 Pro',
         description: 'Long context (1M tokens), best for complex documents',
         strengths: ['long_context', 'reasoning', 'analysis'],
-        isAvailable: true
+        capabilities: ['vision', 'pdf', 'long_context'],
+        contextWindow: 2_097_152,
+        isAvailable: true,
+        pricing: { input: 1.25, output: 5.00 }
     },
 
     // Groq Models (Ultra-fast)
@@ -60,7 +113,10 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Llama 3.3 70B (Groq)',
         description: 'Ultra-fast inference, strong general capabilities',
         strengths: ['speed', 'reasoning', 'general'],
-        isAvailable: false
+        capabilities: ['long_context'],
+        contextWindow: 131_072,
+        isAvailable: false,
+        pricing: { input: 0.59, output: 0.79 }
     },
     {
         provider: ModelProvider.GROQ,
@@ -68,7 +124,20 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Mixtral 8x7B (Groq)',
         description: 'Fast, multilingual, 32k context',
         strengths: ['speed', 'multilingual', 'balanced'],
-        isAvailable: false
+        contextWindow: 32_768,
+        isAvailable: false,
+        pricing: { input: 0.24, output: 0.24 }
+    },
+    {
+        provider: ModelProvider.GROQ,
+        modelId: 'meta-llama/llama-4-scout-17b-16e-instruct',
+        displayName: 'Llama 4 Scout (Groq)',
+        description: 'Fast vision model for image inputs',
+        strengths: ['vision'],
+        capabilities: ['vision', 'long_context'],
+        contextWindow: 131_072,
+        isAvailable: false,
+        pricing: { input: 0.11, output: 0.34 }
     },
 
     // DeepSeek Models (Best reasoning)
@@ -78,7 +147,10 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'DeepSeek V3',
         description: 'Excellent reasoning and coding capabilities',
         strengths: ['reasoning', 'coding', 'analysis', 'planning'],
-        isAvailable: false
+        capabilities: ['long_context'],
+        contextWindow: 65_536,
+        isAvailable: false,
+        pricing: { input: 0.27, output: 1.10 }
     },
 
     // Mistral Models (Quality prose)
@@ -88,7 +160,10 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Mistral Large',
         description: 'High quality text generation, excellent for prose',
         strengths: ['writing', 'prose', 'creative', 'quality'],
-        isAvailable: false
+        capabilities: ['long_context'],
+        contextWindow: 131_072,
+        isAvailable: false,
+        pricing: { input: 2.00, output: 6.00 }
     },
     {
         provider: ModelProvider.MISTRAL,
@@ -96,22 +171,235 @@ export const MODEL_REGISTRY: ModelConfig[] = [
         displayName: 'Mistral Small',
         description: 'Efficient, good for quick tasks',
         strengths: ['speed', 'efficiency', 'quick_tasks'],
-        isAvailable: false
+        capabilities: ['vision', 'long_context'],
+        contextWindow: 131_072,
+        isAvailable: false,
+        pricing: { input: 0.20, output: 0.60 }
+    },
+
+    // OpenRouter Models (the free default first; strengths stay neutral so it remains the pick)
+    {
+        provider: ModelProvider.OPENROUTER,
+        modelId: 'mistralai/mistral-7b-instruct:free',
+        displayName: 'Mistral 7B (OpenRouter, Free)',
+        description: 'Community-hosted free model',
+        strengths: ['free', 'general'],
+        contextWindow: 32_768,
+        isAvailable: false,
+        pricing: { input: 0, output: 0 }
+    },
+    {
+        provider: ModelProvider.OPENROUTER,
+        modelId: 'google/gemini-flash-1.5',
+        displayName: 'Gemini 1.5 Flash (OpenRouter)',
+        description: 'Reads images and PDFs through OpenRouter',
+        strengths: ['multimodal'],
+        capabilities: ['vision', 'pdf', 'long_context'],
+        contextWindow: 1_000_000,
+        isAvailable: false,
+        pricing: { input: 0.075, output: 0.30 }
     }
 ];
 
+// ============================================
+// CONTEXT WINDOWS
+// ============================================
+
+// Windows in tokens for models the registry does not list (e.g. Hugging Face and local models)
+export const PROVIDER_CONTEXT_WINDOWS: Record<ModelProvider, number> = {
+    [ModelProvider.GEMINI]: 1_048_576,
+    [ModelProvider.GROQ]: 32_768,
+    [ModelProvider.DEEPSEEK]: 65_536,
+    [ModelProvider.MISTRAL]: 32_768,
+    [ModelProvider.OPENROUTER]: 32_768,
+    [ModelProvider.HUGGINGFACE]: 8_192,
+    [ModelProvider.LOCAL]: 8_192 // Ollama and llama.cpp default to small windows
+};
+
+// Reply tokens to leave room for when the caller sets no maxTokens (the providers' usual default)
+export const DEFAULT_OUTPUT_TOKENS = 4_096;
+
+/** Context window of a model (prompt and reply together); unset modelId = the provider's default model */
+export function getContextWindow(provider: ModelProvider, modelId?: string): number {
+    const model = modelId
+        ? MODEL_REGISTRY.find(m => m.provider === provider && m.modelId === modelId)
+        : MODEL_REGISTRY.find(m => m.provider === provider);
+    return model?.contextWindow ?? PROVIDER_CONTEXT_WINDOWS[provider];
+}
+
+const promptText = (prompt: string | ContentPart[], options?: GenerateOptions): string => {
+    const body = typeof prompt === 'string'
+        ? prompt
+        : prompt.map(p => ('text' in p ? p.text : '')).join('\n');
+    return `${options?.systemPrompt || ''}${body}`;
+};
+
+/** Estimated tokens of a prompt and its system prompt (attachments not counted) */
+export const estimatePromptTokens = (prompt: string | ContentPart[], options?: GenerateOptions): number =>
+    estimateTokens(promptText(prompt, options));
+
+// ============================================
+// CAPABILITIES
+// ============================================
+
+// Prompts above this need a long-context model (it fits the smallest 32k windows with room to answer)
+const LONG_PROMPT_TOKENS = 24_000;
+
+const partMimeType = (part: ContentPart): string | undefined =>
+    'inlineData' in part ? part.inlineData.mimeType : 'fileData' in part ? part.fileData.mimeType : undefined;
+
+/** Capabilities a model needs to read the whole prompt */
+export function requiredCapabilities(prompt: string | ContentPart[], options?: GenerateOptions): ModelCapability[] {
+    const required = new Set<ModelCapability>();
+    if (typeof prompt !== 'string') {
+        for (const part of prompt) {
+            const mimeType = partMimeType(part);
+            if (mimeType?.startsWith('image/')) required.add('vision');
+            else if (mimeType === 'application/pdf') required.add('pdf');
+        }
+    }
+    if (estimatePromptTokens(prompt, options) > LONG_PROMPT_TOKENS) required.add('long_context');
+    return Array.from(required);
+}
+
+/** Whether the registry lists the model with every required capability (unlisted models are text only) */
+export function supportsCapabilities(provider: ModelProvider, modelId: string | undefined, required: ModelCapability[]): boolean {
+    if (required.length === 0) return true;
+    const model = MODEL_REGISTRY.find(m => m.provider === provider && m.modelId === modelId);
+    return required.every(c => model?.capabilities?.includes(c));
+}
+
+// ============================================
+// USAGE METERING
+// ============================================
+
+// Embedding models are not chat models, so they live outside MODEL_REGISTRY (USD per 1M input tokens)
+const EMBEDDING_PRICING: Record<string, ModelPricing> = {
+    'gemini-embedding-001': { input: 0.15, output: 0 }
+};
+
+/** USD cost of a call, from the model's registry pricing (0 when unpriced, e.g. free tiers) */
+export function calculateCost(provider: ModelProvider, modelId: string, usage: TokenUsage): number {
+    const pricing = MODEL_REGISTRY.find(m => m.provider === provider && m.modelId === modelId)?.pricing
+        ?? EMBEDDING_PRICING[modelId];
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+/** Price a call and add it to the usage ledger */
+export function meterUsage(provider: ModelProvider, modelId: string, usage: TokenUsage, projectId?: string): UsageTotals {
+    const totals: UsageTotals = {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cost: calculateCost(provider, modelId, usage),
+        calls: 1,
+        ...(usage.estimated && { estimated: true })
+    };
+    recordUsage({ provider, modelId, usage: totals, projectId, timestamp: Date.now() });
+    return totals;
+}
+
+/**
+ * Worst-case usage of a call before it is made: the whole prompt and a full-length reply, at the
+ * price of the model named in options (else the provider's priciest registry model)
+ */
+export function estimateCallUsage(provider: ModelProvider, prompt: string | ContentPart[], options?: GenerateOptions): UsageTotals {
+    const usage: TokenUsage = {
+        promptTokens: estimatePromptTokens(prompt, options),
+        completionTokens: options?.maxTokens ?? DEFAULT_OUTPUT_TOKENS
+    };
+    const modelIds = options?.model
+        ? [options.model]
+        : MODEL_REGISTRY.filter(m => m.provider === provider).map(m => m.modelId);
+    return { ...usage, cost: Math.max(0, ...modelIds.map(id => calculateCost(provider, id, usage))), calls: 1 };
+}
+
+export interface MeteredResult {
+    text: string;
+    modelId: string;
+    usage: UsageTotals;
+}
+
+/**
+ * Generate (streaming when onChunk is given) and meter the call, estimating usage the vendor did not report.
+ * The call is refused up front when options.budget has reached its cap; otherwise its estimated cost is
+ * reserved against the budget until the call finishes.
+ */
+export async function generateMetered(
+    provider: AIProvider,
+    prompt: string | ContentPart[],
+    options?: GenerateOptions,
+    onChunk?: ChunkCallback
+): Promise<MeteredResult> {
+    const reservation = options?.budget?.reserve(estimateCallUsage(provider.name, prompt, options));
+
+    let result: GenerationResult;
+    try {
+        result = onChunk
+            ? await generateStreaming(provider, prompt, options, onChunk)
+            : await provider.generateText(prompt, options);
+    } catch (error) {
+        reservation?.settle();
+        throw error;
+    }
+
+    const usage: TokenUsage = result.usage || {
+        promptTokens: estimatePromptTokens(prompt, options),
+        completionTokens: estimateTokens(result.text),
+        estimated: true
+    };
+
+    const totals = meterUsage(provider.name, result.modelId, usage, options?.projectId);
+    reservation?.settle(totals);
+
+    return {
+        text: result.text,
+        modelId: result.modelId,
+        usage: totals
+    };
+}
+
+export type EmbedOptions = Pick<GenerateOptions, 'signal' | 'projectId' | 'budget'>;
+
+/**
+ * Embed and meter the call like generateMetered: refused up front when options.budget has
+ * reached its cap, and charged to options.projectId. Vendors report no usage, so it is estimated.
+ */
+export async function embedMetered(provider: AIProvider, texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    if (!provider.embed) throw new Error(`${provider.displayName} has no embedding model`);
+    const modelId = provider.embeddingModel || provider.name;
+    const usage: TokenUsage = {
+        promptTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+        completionTokens: 0,
+        estimated: true
+    };
+    const reservation = options.budget?.reserve({ ...usage, cost: calculateCost(provider.name, modelId, usage), calls: 1 });
+
+    let vectors: number[][];
+    try {
+        vectors = await provider.embed(texts, options.signal);
+    } catch (error) {
+        reservation?.settle();
+        throw error;
+    }
+    reservation?.settle(meterUsage(provider.name, modelId, usage, options.projectId));
+    return vectors;
+}
+
 // ============================================
 // TASK-TO-MODEL MAPPING
 // ============================================
 
-const TASK_MODEL_PRIORITY: Record<TaskType, ModelProvider[]> = {
-    planning: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL],
-    writing: [ModelProvider.MISTRAL, ModelProvider.DEEPSEEK, ModelProvider.GEMINI],
-    editing: [ModelProvider.GROQ, ModelProvider.MISTRAL, ModelProvider.GEMINI],
-    critique: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL],
-    synthesis: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL],
-    image_generation: [ModelProvider.GEMINI], // Only Gemini supports images
-    quick_response: [ModelProvider.GROQ, ModelProvider.GEMINI, ModelProvider.MISTRAL]
+// Provider order per task; the router tries these first (see providerRouter.ts)
+// Local models come last: they are the offline fallback unless the user picks them
+export const TASK_MODEL_PRIORITY: Record<TaskType, ModelProvider[]> = {
+    planning: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL, ModelProvider.LOCAL],
+    writing: [ModelProvider.MISTRAL, ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.LOCAL],
+    editing: [ModelProvider.GROQ, ModelProvider.MISTRAL, ModelProvider.GEMINI, ModelProvider.LOCAL],
+    critique: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL, ModelProvider.LOCAL],
+    synthesis: [ModelProvider.DEEPSEEK, ModelProvider.GEMINI, ModelProvider.MISTRAL, ModelProvider.LOCAL],
+    image_generation: [ModelProvider.GEMINI], // Text routing only; pictures go through imageRegistry
+    quick_response: [ModelProvider.GROQ, ModelProvider.GEMINI, ModelProvider.MISTRAL, ModelProvider.LOCAL]
 };
 
 // ============================================
@@ -128,6 +416,24 @@ export function getProvider(name: ModelProvider): AIProvider | undefined {
     return providerInstances.get(name);
 }
 
+export function getRegisteredProviders(): AIProvider[] {
+    return Array.from(providerInstances.values());
+}
+
+/**
+ * Swap the whole provider set (mock and replay harnesses), so no call can reach a live API.
+ * Returns a function that restores the previous set.
+ */
+export function replaceProviders(providers: AIProvider[]): () => void {
+    const previous = getRegisteredProviders();
+    providerInstances.clear();
+    providers.forEach(registerProvider);
+    return () => {
+        providerInstances.clear();
+        previous.forEach(registerProvider);
+    };
+}
+
 export function getAvailableProviders(): ModelProvider[] {
     const available: ModelProvider[] = [];
     for (const [name, provider] of providerInstances) {
@@ -142,70 +448,56 @@ export function getAvailableProviders(): ModelProvider[] {
 // AUTO-SELECT BEST MODEL
 // ============================================
 
+// Registry strengths that make a model a good fit for each task
+const TASK_STRENGTHS: Record<TaskType, string[]> = {
+    planning: ['planning', 'reasoning', 'analysis'],
+    writing: ['writing', 'prose', 'creative', 'quality'],
+    editing: ['quality', 'writing', 'prose'],
+    critique: ['reasoning', 'analysis'],
+    synthesis: ['long_context', 'analysis', 'reasoning'],
+    image_generation: ['images', 'multimodal'],
+    quick_response: ['speed', 'efficiency', 'quick_tasks']
+};
+
+/**
+ * The provider's registry model whose strengths best match the task (ties go to the first listed),
+ * among those with the required capabilities. Undefined when none qualifies; providers without
+ * registry entries then use their default model.
+ */
+export function selectModelForTask(provider: ModelProvider, taskType: TaskType, required: ModelCapability[] = []): ModelConfig | undefined {
+    const wanted = TASK_STRENGTHS[taskType];
+    let best: ModelConfig | undefined;
+    let bestScore = -1;
+    for (const model of MODEL_REGISTRY.filter(m => m.provider === provider && supportsCapabilities(provider, m.modelId, required))) {
+        const score = model.strengths.filter(s => wanted.includes(s)).length;
+        if (score > bestScore) {
+            best = model;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
 export function selectBestModel(taskType: TaskType, availableProviders: ModelProvider[]): ModelConfig | null {
     const priorityList = TASK_MODEL_PRIORITY[taskType];
 
     for (const preferredProvider of priorityList) {
         if (availableProviders.includes(preferredProvider)) {
             // Find the best model for this provider
-            const model = MODEL_REGISTRY.find(
-                m => m.provider === preferredProvider && m.isAvailable
-            );
-            if (model) return model;
+            const model = selectModelForTask(preferredProvider, taskType);
+            if (model?.isAvailable) return model;
         }
     }
 
     // Fallback: return any available model
     for (const provider of availableProviders) {
-        const model = MODEL_REGISTRY.find(m => m.provider === provider && m.isAvailable);
-        if (model) return model;
+        const model = selectModelForTask(provider, taskType);
+        if (model?.isAvailable) return model;
     }
 
     return null;
 }
 
-// ============================================
-// UNIFIED GENERATE FUNCTION
-// ============================================
-
-export async function generateWithBestModel(
-    prompt: string | ContentPart[],
-    taskType: TaskType,
-    options?: GenerateOptions,
-    preferredProvider?: ModelProvider
-): Promise<{ text: string; modelUsed: string }> {
-    const available = getAvailableProviders();
-
-    if (available.length === 0) {
-        throw new Error('No AI providers configured. Please add API keys to .env.local');
-    }
-
-    // Use preferred provider if specified and available
-    let targetProvider: ModelProvider;
-    if (preferredProvider && available.includes(preferredProvider)) {
-        targetProvider = preferredProvider;
-    } else {
-        const bestModel = selectBestModel(taskType, available);
-        if (!bestModel) {
-            throw new Error('No suitable model found for task: ' + taskType);
-        }
-        targetProvider = bestModel.provider;
-    }
-
-    const provider = getProvider(targetProvider);
-    if (!provider) {
-        throw new Error(`Provider ${targetProvider} not initialized`);
-    }
-
-    const text = await provider.generateText(prompt, options);
-    const model = MODEL_REGISTRY.find(m => m.provider === targetProvider);
-
-    return {
-        text,
-        modelUsed: model?.displayName || targetProvider
-    };
-}
-
 // ============================================
 // UPDATE MODEL AVAILABILITY
 // ============================================
@@ -218,6 +510,14 @@ export function updateModelAvailability(provider: ModelProvider, isAvailable: bo
     });
 }
 
+/** Replace a provider's registry entries, for providers whose model list is configured at runtime */
+export function registerModels(provider: ModelProvider, models: ModelConfig[]): void {
+    for (let i = MODEL_REGISTRY.length - 1; i >= 0; i--) {
+        if (MODEL_REGISTRY[i].provider === provider) MODEL_REGISTRY.splice(i, 1);
+    }
+    MODEL_REGISTRY.push(...models);
+}
+
 // ============================================
 // GET MODELS BY PROVIDER
 // ============================================
@@ -0,0 +1,291 @@
+import { TrueTypeFont } from './trueType';
+
+// ============================================
+// PDF WRITER
+// Minimal PDF 1.7 documents: pages with content streams, JPEG images
+// and embedded TrueType fonts (Type0 / Identity-H, so any glyph the font
+// has can be shown, with a ToUnicode map to keep the text searchable)
+// ============================================
+
+export type PdfBox = [number, number, number, number]; // llx lly urx ury, in points
+
+export interface PdfPage {
+    width: number; // Points (1/72 in)
+    height: number;
+    content: string; // Content stream operators
+    trimBox?: PdfBox;
+    bleedBox?: PdfBox;
+}
+
+export interface PdfFont {
+    resourceName: string; // e.g. 'F1', for the Tf operator
+    font: TrueTypeFont;
+    encode(text: string): string; // Hex string operand for Tj
+    measure(text: string, size: number): number; // Advance width in points
+    readonly missing: ReadonlySet<string>; // Characters encoded so far that the font has no glyph for
+}
+
+export interface PdfImage {
+    resourceName: string; // e.g. 'Im1', for the Do operator
+    width: number; // Pixels
+    height: number;
+}
+
+export interface PdfInfo {
+    title?: string;
+    author?: string;
+    subject?: string;
+    creator?: string;
+}
+
+export interface PdfDocument {
+    addFont(font: TrueTypeFont): PdfFont;
+    addJpeg(data: Uint8Array, width: number, height: number): PdfImage; // Baseline RGB JPEG
+    addPage(page: PdfPage): void;
+    readonly pageCount: number;
+    save(): Promise<Uint8Array>;
+}
+
+export const POINTS_PER_INCH = 72;
+
+const encoder = new TextEncoder();
+
+/** A number as a PDF operand: at most three decimals, no exponent */
+export const pdfNumber = (n: number): string =>
+    (Math.round(n * 1000) / 1000).toString();
+
+// Text strings (document info) as UTF-16BE with a byte order mark
+const pdfTextString = (text: string): string => {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+    return `<${hex.toUpperCase()}>`;
+};
+
+const pdfDate = (date: Date): string =>
+    `(D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z)`;
+
+const hex4 = (n: number): string => n.toString(16).padStart(4, '0').toUpperCase();
+
+// Flate (zlib) compression where the runtime offers CompressionStream; undefined otherwise
+const deflate = async (data: Uint8Array): Promise<Uint8Array | undefined> => {
+    if (typeof CompressionStream === 'undefined') return undefined;
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Operators painting an image into the rectangle at (x, y), `width` × `height` points */
+export const imageOp = (image: PdfImage, x: number, y: number, width: number, height: number): string =>
+    `q ${pdfNumber(width)} 0 0 ${pdfNumber(height)} ${pdfNumber(x)} ${pdfNumber(y)} cm /${image.resourceName} Do Q`;
+
+/** A text-showing operator sequence for one string at (x, y) */
+export const textOp = (font: PdfFont, size: number, x: number, y: number, text: string): string =>
+    `BT /${font.resourceName} ${pdfNumber(size)} Tf 1 0 0 1 ${pdfNumber(x)} ${pdfNumber(y)} Tm ${font.encode(text)} Tj ET`;
+
+// ToUnicode CMap: glyph id -> the character it was used for
+const toUnicodeCMap = (used: Map<number, number>): string => {
+    const entries = Array.from(used.entries()).sort((a, b) => a[0] - b[0]);
+    const chunks: string[] = [];
+    // bfchar sections hold at most 100 entries each
+    for (let i = 0; i < entries.length; i += 100) {
+        const chunk = entries.slice(i, i + 100);
+        chunks.push(`${chunk.length} beginbfchar\n${chunk.map(([glyph, codePoint]) => {
+            const utf16 = String.fromCodePoint(codePoint);
+            let target = '';
+            for (let j = 0; j < utf16.length; j++) target += hex4(utf16.charCodeAt(j));
+            return `<${hex4(glyph)}> <${target}>`;
+        }).join('\n')}\nendbfchar`);
+    }
+    return [
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+        ...chunks,
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end'
+    ].join('\n');
+};
+
+/** Start an empty PDF document */
+export function createPdfDocument(info: PdfInfo = {}): PdfDocument {
+    const fonts: { handle: PdfFont; used: Map<number, number>; missing: Set<string> }[] = [];
+    const pages: PdfPage[] = [];
+    const images: { handle: PdfImage; data: Uint8Array }[] = [];
+
+    const addFont = (font: TrueTypeFont): PdfFont => {
+        const used = new Map<number, number>(); // Glyph id -> code point
+        const missing = new Set<string>();
+        const handle: PdfFont = {
+            resourceName: `F${fonts.length + 1}`,
+            font,
+            encode: (text) => {
+                let hex = '';
+                for (const char of text) {
+                    const codePoint = char.codePointAt(0)!;
+                    const glyph = font.glyphId(codePoint);
+                    if (glyph === 0) missing.add(char);
+                    else if (!used.has(glyph)) used.set(glyph, codePoint);
+                    hex += hex4(glyph);
+                }
+                return `<${hex}>`;
+            },
+            measure: (text, size) => {
+                let width = 0;
+                for (const char of text) width += font.advance(font.glyphId(char.codePointAt(0)!));
+                return width * size / 1000;
+            },
+            missing
+        };
+        fonts.push({ handle, used, missing });
+        return handle;
+    };
+
+    const addJpeg = (data: Uint8Array, width: number, height: number): PdfImage => {
+        const handle: PdfImage = { resourceName: `Im${images.length + 1}`, width, height };
+        images.push({ handle, data });
+        return handle;
+    };
+
+    const save = async (): Promise<Uint8Array> => {
+        const objects: Uint8Array[] = [];
+        const reserve = (): number => objects.push(new Uint8Array(0));
+        const set = (ref: number, body: string) => { objects[ref - 1] = encoder.encode(body); };
+        const addObject = (body: string): number => {
+            const ref = reserve();
+            set(ref, body);
+            return ref;
+        };
+        // Already-compressed data (JPEG) is written as is
+        const addStream = async (dict: string, data: Uint8Array | string, compress = true): Promise<number> => {
+            const raw = typeof data === 'string' ? encoder.encode(data) : data;
+            const compressed = compress ? await deflate(raw) : undefined;
+            const bytes = compressed ?? raw;
+            const head = encoder.encode(`<< ${dict}${compressed ? ' /Filter /FlateDecode' : ''} /Length ${bytes.length} >>\nstream\n`);
+            const tail = encoder.encode('\nendstream');
+            const body = new Uint8Array(head.length + bytes.length + tail.length);
+            body.set(head);
+            body.set(bytes, head.length);
+            body.set(tail, head.length + bytes.length);
+            const ref = reserve();
+            objects[ref - 1] = body;
+            return ref;
+        };
+
+        const catalogRef = reserve();
+        const pagesRef = reserve();
+
+        const fontRefs: string[] = [];
+        for (const { handle, used, missing } of fonts) {
+            const { font } = handle;
+            if (missing.size > 0) {
+                console.warn(`[PDF] ${font.postScriptName} has no glyph for: ${Array.from(missing).join(' ')}`);
+            }
+            const fileRef = await addStream(`/Length1 ${font.data.length}`, font.data);
+            const flags = 32 | (font.italicAngle !== 0 ? 64 : 0); // Nonsymbolic, italic
+            const descriptorRef = addObject(
+                `<< /Type /FontDescriptor /FontName /${font.postScriptName} /Flags ${flags}` +
+                ` /FontBBox [${font.bbox.join(' ')}] /ItalicAngle ${pdfNumber(font.italicAngle)}` +
+                ` /Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.capHeight}` +
+                ` /StemV ${font.bold ? 140 : 80} /FontFile2 ${fileRef} 0 R >>`
+            );
+            const widths = Array.from(used.keys())
+                .sort((a, b) => a - b)
+                .map(glyph => `${glyph} [${font.advance(glyph)}]`)
+                .join(' ');
+            const cidFontRef = addObject(
+                `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${font.postScriptName}` +
+                ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>' +
+                ` /FontDescriptor ${descriptorRef} 0 R /DW ${font.advance(0)} /W [${widths}] /CIDToGIDMap /Identity >>`
+            );
+            const toUnicodeRef = await addStream('', toUnicodeCMap(used));
+            const fontRef = addObject(
+                `<< /Type /Font /Subtype /Type0 /BaseFont /${font.postScriptName} /Encoding /Identity-H` +
+                ` /DescendantFonts [${cidFontRef} 0 R] /ToUnicode ${toUnicodeRef} 0 R >>`
+            );
+            fontRefs.push(`/${handle.resourceName} ${fontRef} 0 R`);
+        }
+        const imageRefs: string[] = [];
+        for (const { handle, data } of images) {
+            const imageRef = await addStream(
+                `/Type /XObject /Subtype /Image /Width ${handle.width} /Height ${handle.height}` +
+                ' /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+                data,
+                false
+            );
+            imageRefs.push(`/${handle.resourceName} ${imageRef} 0 R`);
+        }
+        const resourcesRef = addObject(
+            `<< /Font << ${fontRefs.join(' ')} >>` +
+            (imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : '') +
+            ' /ProcSet [/PDF /Text /ImageC] >>'
+        );
+
+        const box = (b: PdfBox) => `[${b.map(pdfNumber).join(' ')}]`;
+        const pageRefs: number[] = [];
+        for (const page of pages) {
+            const contentRef = await addStream('', page.content);
+            pageRefs.push(addObject(
+                `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}]` +
+                (page.bleedBox ? ` /BleedBox ${box(page.bleedBox)}` : '') +
+                (page.trimBox ? ` /TrimBox ${box(page.trimBox)}` : '') +
+                ` /Resources ${resourcesRef} 0 R /Contents ${contentRef} 0 R >>`
+            ));
+        }
+        set(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+        set(catalogRef, `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+
+        const infoEntries = [
+            info.title && `/Title ${pdfTextString(info.title)}`,
+            info.author && `/Author ${pdfTextString(info.author)}`,
+            info.subject && `/Subject ${pdfTextString(info.subject)}`,
+            `/Creator ${pdfTextString(info.creator || 'Vibe Creation Studio')}`,
+            `/CreationDate ${pdfDate(new Date())}`
+        ].filter(Boolean);
+        const infoRef = addObject(`<< ${infoEntries.join(' ')} >>`);
+
+        // Serialize: header, numbered objects, cross-reference table, trailer
+        const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n%âãÏÓ\n')];
+        let offset = parts[0].length;
+        const offsets: number[] = [];
+        objects.forEach((body, i) => {
+            const head = encoder.encode(`${i + 1} 0 obj\n`);
+            const tail = encoder.encode('\nendobj\n');
+            offsets.push(offset);
+            parts.push(head, body, tail);
+            offset += head.length + body.length + tail.length;
+        });
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>`,
+            'startxref',
+            offset.toString(),
+            '%%EOF\n'
+        ].join('\n');
+        parts.push(encoder.encode(xref));
+
+        const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let at = 0;
+        for (const part of parts) {
+            out.set(part, at);
+            at += part.length;
+        }
+        return out;
+    };
+
+    return {
+        addFont,
+        addJpeg,
+        addPage: (page) => { pages.push(page); },
+        get pageCount() { return pages.length; },
+        save
+    };
+}
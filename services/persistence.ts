@@ -0,0 +1,417 @@
+// ============================================
+// PERSISTENCE SERVICE
+// IndexedDB-backed storage for projects, chat history,
+// agent logs, input hub items and version snapshots
+// ============================================
+
+import { CreationState, Message, AgentLog } from '../types';
+import { InputHubState } from '../types/inputs';
+
+const DB_NAME = 'vibe-creation-studio';
+const DB_VERSION = 2;
+
+// Data schema version (bumped whenever persisted shapes change)
+export const SCHEMA_VERSION = 1;
+
+export const STORES = {
+    projects: 'projects',
+    sessions: 'sessions',
+    versions: 'versions',
+    runs: 'runs',
+    meta: 'meta'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const SAVE_DEBOUNCE_MS = 800;
+const LEGACY_VERSION_PREFIX = 'vibe_versions_';
+
+// Limits applied when the browser reports the storage quota is exhausted
+const QUOTA_RECOVERY = {
+    maxAutoVersionsPerProject: 3,
+    maxLogsPerProject: 100
+};
+
+export interface PersistedWorkspace extends Pick<CreationState, 'activeProjectId' | 'projects' | 'chatHistory' | 'agentLogs'> {
+    inputHubStates: Record<string, InputHubState>;
+}
+
+// One record per project holding everything that is not the project itself
+interface SessionRecord {
+    projectId: string;
+    messages: Message[];
+    agentLogs: AgentLog[];
+    inputHub?: InputHubState;
+}
+
+interface MetaRecord {
+    key: string;
+    value: unknown;
+}
+
+export type PersistenceStatus = 'idle' | 'saving' | 'saved' | 'error';
+export interface SaveResult {
+    // Set when quota recovery kept only each project's newest agent logs; the caller should
+    // trim its own state to match, or every later save would overflow and recover again
+    logsTrimmedTo?: number;
+}
+
+export type PersistenceListener = (status: PersistenceStatus, error?: string, result?: SaveResult) => void;
+
+// ============================================
+// DATABASE CONNECTION
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+};
+
+/**
+ * Structural upgrades, applied in order from the stored DB version
+ */
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number): void => {
+    if (oldVersion < 1) {
+        db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        db.createObjectStore(STORES.sessions, { keyPath: 'projectId' });
+        const versions = db.createObjectStore(STORES.versions, { keyPath: 'id' });
+        versions.createIndex('projectId', 'projectId', { unique: false });
+        db.createObjectStore(STORES.meta, { keyPath: 'key' });
+    }
+    if (oldVersion < 2) {
+        // Checkpointed agent workflow runs
+        const runs = db.createObjectStore(STORES.runs, { keyPath: 'id' });
+        runs.createIndex('projectId', 'projectId', { unique: false });
+    }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not supported in this browser'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            upgradeDatabase(request.result, event.oldVersion);
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema: drop our handle so it can proceed
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('[Persistence] Database upgrade blocked by another tab');
+    }).then(async (db) => {
+        await runMigrations(db);
+        return db;
+    }).catch((error) => {
+        dbPromise = null;
+        throw error;
+    });
+
+    return dbPromise;
+};
+
+// ============================================
+// GENERIC RECORD ACCESS
+// ============================================
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const getAllRecords = async <T>(store: StoreName, index?: string, query?: IDBValidKey): Promise<T[]> => {
+    const db = await openDatabase();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const source = index ? objectStore.index(index) : objectStore;
+    return requestToPromise(source.getAll(query));
+};
+
+export const putRecord = async <T>(store: StoreName, value: T): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(value);
+    await transactionDone(tx);
+};
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    await transactionDone(tx);
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+    if (!error || typeof error !== 'object') return false;
+    const name = (error as { name?: string }).name;
+    return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+// ============================================
+// DATA MIGRATIONS
+// ============================================
+
+type Migration = (db: IDBDatabase) => Promise<void>;
+
+// Keyed by the schema version they migrate *to*
+const MIGRATIONS: Record<number, Migration> = {
+    // v1: import version history previously kept in localStorage
+    1: async (db) => {
+        if (typeof localStorage === 'undefined') return;
+
+        const legacyKeys: string[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key?.startsWith(LEGACY_VERSION_PREFIX)) legacyKeys.push(key);
+        }
+        if (legacyKeys.length === 0) return;
+
+        const tx = db.transaction(STORES.versions, 'readwrite');
+        const store = tx.objectStore(STORES.versions);
+        for (const key of legacyKeys) {
+            try {
+                const versions = JSON.parse(localStorage.getItem(key) || '[]');
+                if (Array.isArray(versions)) versions.forEach(v => store.put(v));
+            } catch (error) {
+                console.warn(`[Persistence] Skipping unreadable legacy history: ${key}`, error);
+            }
+        }
+        await transactionDone(tx);
+
+        legacyKeys.forEach(key => localStorage.removeItem(key));
+        console.log(`[Persistence] Migrated ${legacyKeys.length} legacy version histories`);
+    }
+};
+
+const runMigrations = async (db: IDBDatabase): Promise<void> => {
+    const record = await requestToPromise<MetaRecord | undefined>(
+        db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get('schemaVersion')
+    );
+    const current = typeof record?.value === 'number' ? record.value : 0;
+
+    if (current > SCHEMA_VERSION) {
+        console.warn(`[Persistence] Stored schema v${current} is newer than this build (v${SCHEMA_VERSION})`);
+        return;
+    }
+
+    for (let version = current + 1; version <= SCHEMA_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (migrate) {
+            console.log(`[Persistence] Migrating schema to v${version}`);
+            await migrate(db);
+        }
+        const tx = db.transaction(STORES.meta, 'readwrite');
+        tx.objectStore(STORES.meta).put({ key: 'schemaVersion', value: version } as MetaRecord);
+        await transactionDone(tx);
+    }
+};
+
+// ============================================
+// WORKSPACE LOAD / SAVE
+// ============================================
+
+/**
+ * Load the full workspace, or null when nothing has been saved yet. Throws when the
+ * database cannot be opened, read or migrated: callers must not treat that as an
+ * empty workspace, since the next save would delete every stored project.
+ */
+export const loadWorkspace = async (): Promise<PersistedWorkspace | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.projects, STORES.sessions, STORES.meta], 'readonly');
+    const [projects, sessions, active] = await Promise.all([
+        requestToPromise(tx.objectStore(STORES.projects).getAll()),
+        requestToPromise<SessionRecord[]>(tx.objectStore(STORES.sessions).getAll()),
+        requestToPromise<MetaRecord | undefined>(tx.objectStore(STORES.meta).get('activeProjectId'))
+    ]);
+
+    if (projects.length === 0) return null;
+
+    const workspace: PersistedWorkspace = {
+        activeProjectId: (active?.value as string | null) ?? null,
+        projects: projects.sort((a, b) => (a.createdOrder ?? 0) - (b.createdOrder ?? 0)).map(({ createdOrder, ...p }) => p),
+        chatHistory: {},
+        agentLogs: {},
+        inputHubStates: {}
+    };
+
+    for (const session of sessions) {
+        workspace.chatHistory[session.projectId] = session.messages || [];
+        workspace.agentLogs[session.projectId] = session.agentLogs || [];
+        if (session.inputHub) {
+            // A reload always interrupts processing
+            workspace.inputHubStates[session.projectId] = { ...session.inputHub, isProcessing: false };
+        }
+    }
+
+    if (!workspace.projects.some(p => p.id === workspace.activeProjectId)) {
+        workspace.activeProjectId = workspace.projects[0].id;
+    }
+
+    return workspace;
+};
+
+const writeWorkspace = async (workspace: PersistedWorkspace): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.projects, STORES.sessions, STORES.meta], 'readwrite');
+    const projectStore = tx.objectStore(STORES.projects);
+    const sessionStore = tx.objectStore(STORES.sessions);
+
+    const liveIds = new Set(workspace.projects.map(p => p.id));
+    const storedIds = await requestToPromise(projectStore.getAllKeys());
+    for (const id of storedIds) {
+        if (!liveIds.has(id as string)) {
+            projectStore.delete(id);
+            sessionStore.delete(id);
+        }
+    }
+
+    workspace.projects.forEach((project, index) => {
+        // createdOrder preserves sidebar ordering across reloads
+        projectStore.put({ ...project, createdOrder: index });
+        const session: SessionRecord = {
+            projectId: project.id,
+            messages: workspace.chatHistory[project.id] || [],
+            agentLogs: workspace.agentLogs[project.id] || [],
+            inputHub: workspace.inputHubStates[project.id]
+        };
+        sessionStore.put(session);
+    });
+
+    tx.objectStore(STORES.meta).put({ key: 'activeProjectId', value: workspace.activeProjectId } as MetaRecord);
+    await transactionDone(tx);
+};
+
+/**
+ * Free space by dropping old auto snapshots and trimming agent logs
+ */
+const reclaimSpace = async (workspace: PersistedWorkspace): Promise<{ workspace: PersistedWorkspace; trimmed: number }> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.versions, 'readwrite');
+    const versions = await requestToPromise(tx.objectStore(STORES.versions).getAll());
+
+    const autoByProject = new Map<string, { id: string; timestamp: number }[]>();
+    for (const v of versions) {
+        if (v.type !== 'auto') continue;
+        const list = autoByProject.get(v.projectId) || [];
+        list.push(v);
+        autoByProject.set(v.projectId, list);
+    }
+    let removed = 0;
+    for (const list of autoByProject.values()) {
+        list.sort((a, b) => b.timestamp - a.timestamp)
+            .slice(QUOTA_RECOVERY.maxAutoVersionsPerProject)
+            .forEach(v => {
+                tx.objectStore(STORES.versions).delete(v.id);
+                removed++;
+            });
+    }
+    await transactionDone(tx);
+
+    const agentLogs: Record<string, AgentLog[]> = {};
+    let trimmed = 0;
+    for (const [projectId, logs] of Object.entries(workspace.agentLogs)) {
+        agentLogs[projectId] = logs.slice(-QUOTA_RECOVERY.maxLogsPerProject);
+        trimmed += logs.length - agentLogs[projectId].length;
+    }
+    console.warn(`[Persistence] Quota exceeded: removed ${removed} auto snapshots and ${trimmed} agent log entries`);
+    return { workspace: { ...workspace, agentLogs }, trimmed };
+};
+
+/**
+ * Save immediately, attempting one recovery pass if the quota is exceeded
+ */
+export const saveWorkspace = async (workspace: PersistedWorkspace): Promise<SaveResult> => {
+    try {
+        await writeWorkspace(workspace);
+        return {};
+    } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        const reclaimed = await reclaimSpace(workspace);
+        await writeWorkspace(reclaimed.workspace);
+        return reclaimed.trimmed > 0 ? { logsTrimmedTo: QUOTA_RECOVERY.maxLogsPerProject } : {};
+    }
+};
+
+// ============================================
+// DEBOUNCED AUTO-SAVE
+// ============================================
+
+let pendingWorkspace: PersistedWorkspace | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let activeSave: Promise<void> | null = null;
+const listeners = new Set<PersistenceListener>();
+
+const notify = (status: PersistenceStatus, error?: string, result?: SaveResult) => {
+    listeners.forEach(listener => listener(status, error, result));
+};
+
+export const subscribePersistence = (listener: PersistenceListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Queue a save; rapid successive calls collapse into one write
+ */
+export const scheduleWorkspaceSave = (workspace: PersistedWorkspace): void => {
+    pendingWorkspace = workspace;
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        void flushWorkspaceSave();
+    }, SAVE_DEBOUNCE_MS);
+};
+
+/**
+ * Write any queued workspace now (e.g. before the page unloads)
+ */
+export const flushWorkspaceSave = async (): Promise<void> => {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+    // Serialize writes so an older snapshot never lands after a newer one
+    if (activeSave) await activeSave;
+    if (!pendingWorkspace) return;
+
+    const workspace = pendingWorkspace;
+    pendingWorkspace = null;
+    notify('saving');
+
+    activeSave = saveWorkspace(workspace)
+        .then(result => notify('saved', undefined, result))
+        .catch((error) => {
+            console.error('[Persistence] Failed to save workspace:', error);
+            notify('error', isQuotaError(error)
+                ? 'Browser storage is full. Delete old versions or projects to keep saving.'
+                : String(error));
+        })
+        .finally(() => {
+            activeSave = null;
+        });
+
+    await activeSave;
+};
@@ -0,0 +1,463 @@
+import { Project, BlockType } from '../types';
+import { BookMetadata } from './workspaceManager';
+import { TRIM_SIZES } from './kdpHelper';
+import { downloadBlob, exportFileName, exportableBlocks } from './bookExporter';
+import { Chapter, Run, TextStyle, collectChapters } from './manuscript';
+import { TrueTypeFont, parseTrueType } from './trueType';
+import { PdfFont, POINTS_PER_INCH, createPdfDocument, pdfNumber } from './pdfWriter';
+
+// ============================================
+// PRINT INTERIOR
+// Typeset the book as a print-ready PDF interior at a KDP trim size:
+// mirrored margins with a gutter sized for the page count, running
+// heads, page numbers, chapters opening on recto (odd) pages and no
+// widowed or orphaned lines. Fonts are TrueType files, embedded whole;
+// the default faces ship with the app, so export works offline.
+// ============================================
+
+export interface PrintInteriorOptions {
+    trimSize?: string; // Key of TRIM_SIZES (default '6x9')
+    includeDrafts?: boolean;
+    fontSize?: number; // Body text, in points (default 11)
+    fonts?: Partial<Record<TextStyle, string>>; // TrueType (.ttf) URLs, per style, in place of the bundled Crimson Pro
+}
+
+export interface PrintInterior {
+    pdf: Uint8Array;
+    pageCount: number; // Always even, ready for calculateCoverSpecs
+    trimSize: string;
+}
+
+// Crimson Pro (SIL Open Font License, assets/fonts/crimson-pro/OFL.txt), bundled by Vite as assets.
+// Full faces, not the latin subset: Latin Extended and Vietnamese are covered; Greek and Cyrillic are not
+const DEFAULT_FONTS: Record<TextStyle, string> = {
+    regular: new URL('../assets/fonts/crimson-pro/CrimsonPro-Regular.ttf', import.meta.url).href,
+    italic: new URL('../assets/fonts/crimson-pro/CrimsonPro-Italic.ttf', import.meta.url).href,
+    bold: new URL('../assets/fonts/crimson-pro/CrimsonPro-Bold.ttf', import.meta.url).href,
+    boldItalic: new URL('../assets/fonts/crimson-pro/CrimsonPro-BoldItalic.ttf', import.meta.url).href
+};
+
+// KDP's minimum inside (gutter) margin for paperbacks, by page count
+const GUTTERS: { maxPages: number; inches: number }[] = [
+    { maxPages: 150, inches: 0.375 },
+    { maxPages: 300, inches: 0.5 },
+    { maxPages: 500, inches: 0.625 },
+    { maxPages: 700, inches: 0.75 },
+    { maxPages: Infinity, inches: 0.875 }
+];
+
+// Margins in inches; the inside one is the gutter plus GUTTER_ALLOWANCE
+const GUTTER_ALLOWANCE = 0.125;
+const OUTSIDE_MARGIN = 0.5;
+const TOP_MARGIN = 0.8;
+const BOTTOM_MARGIN = 0.8;
+const HEAD_BASELINE = 0.5; // Running head, from the top edge
+const FOLIO_BASELINE = 0.45; // Page number, from the bottom edge
+
+const DEFAULT_FONT_SIZE = 11;
+const LEADING = 1.4; // Line height, as a multiple of the font size
+const INDENT = 1.5; // First-line and block indents, in ems
+const MIN_LINES = 2; // Fewest lines of a paragraph left at the foot or carried to the head of a page
+const CHAPTER_SINK = 0.25; // Chapter openings start this far down the text block
+const SMALL_CAPS_SCALE = 0.8; // Small capitals, as a fraction of the font size
+const SUPERSCRIPT_SCALE = 0.65; // Note numbers: size and baseline rise, as fractions of the font size
+const SUPERSCRIPT_RISE = 0.35;
+
+// Parsed fonts by URL (a promise, so parallel exports share one load)
+const fontCache = new Map<string, Promise<TrueTypeFont>>();
+
+/** KDP's minimum gutter, in inches, for a paperback of `pageCount` pages */
+export const gutterForPageCount = (pageCount: number): number =>
+    GUTTERS.find(g => pageCount <= g.maxPages)!.inches;
+
+// ============================================
+// LINE BREAKING
+// ============================================
+
+interface Fragment {
+    text: string;
+    style: TextStyle;
+    size: number;
+    rise: number; // Baseline shift, up
+    width: number;
+}
+
+interface Word {
+    fragments: Fragment[];
+    width: number;
+}
+
+interface SetLine {
+    words: Word[];
+    x: number; // From the left edge of the text block
+    width: number; // Measure the line is set in
+    align: 'justify' | 'left' | 'center';
+    size: number;
+}
+
+type Fonts = Record<TextStyle, PdfFont>;
+
+// Small caps set lowercase letters as reduced capitals; superscripts are smaller and raised
+const toFragments = (text: string, run: Run, size: number, fonts: Fonts): Fragment[] => {
+    const fragment = (piece: string, pieceSize: number, rise = 0): Fragment =>
+        ({ text: piece, style: run.style, size: pieceSize, rise, width: fonts[run.style].measure(piece, pieceSize) });
+    if (run.variant === 'superscript') return [fragment(text, size * SUPERSCRIPT_SCALE, size * SUPERSCRIPT_RISE)];
+    if (run.variant === 'smallCaps') {
+        return text.split(/(\p{Ll}+)/u).filter(Boolean)
+            .map(part => /\p{Ll}/u.test(part) ? fragment(part.toUpperCase(), size * SMALL_CAPS_SCALE) : fragment(part, size));
+    }
+    return [fragment(text, size)];
+};
+
+// Split runs into words; a word can change style midway (e.g. "*word*,")
+const toWords = (runs: Run[], size: number, fonts: Fonts): Word[] => {
+    const words: Word[] = [];
+    let fragments: Fragment[] = [];
+    const endWord = () => {
+        if (fragments.length === 0) return;
+        words.push({ fragments, width: fragments.reduce((sum, f) => sum + f.width, 0) });
+        fragments = [];
+    };
+    for (const run of runs) {
+        for (const piece of run.text.split(/([ \t\r\n]+)/)) {
+            if (!piece) continue;
+            if (/^[ \t\r\n]+$/.test(piece)) {
+                endWord();
+                continue;
+            }
+            fragments.push(...toFragments(piece, run, size, fonts));
+        }
+    }
+    endWord();
+    return words;
+};
+
+// Greedy line breaking; a word wider than the measure gets a line to itself
+const breakWords = (words: Word[], firstWidth: number, width: number, space: number): Word[][] => {
+    const lines: Word[][] = [];
+    let current: Word[] = [];
+    let currentWidth = 0;
+    for (const word of words) {
+        const available = lines.length === 0 ? firstWidth : width;
+        if (current.length > 0 && currentWidth + space + word.width > available) {
+            lines.push(current);
+            current = [];
+            currentWidth = 0;
+        }
+        currentWidth += (current.length > 0 ? space : 0) + word.width;
+        current.push(word);
+    }
+    if (current.length > 0) lines.push(current);
+    return lines;
+};
+
+// ============================================
+// PAGINATION
+// ============================================
+
+interface Draw {
+    x: number; // From the left edge of the text block
+    y: number; // Baseline, down from the top of the text block
+    size: number;
+    style: TextStyle;
+    text: string;
+}
+
+interface LaidPage {
+    draws: Draw[];
+    head: boolean; // Running head (not on chapter openings, front matter or blanks)
+    folio: boolean; // Page number (not on front matter or blanks)
+    chapterTitle?: string;
+}
+
+interface Frame {
+    width: number; // Text block, in points
+    height: number;
+    size: number;
+}
+
+/** Lay the front matter and chapters out onto pages of the text block */
+const paginate = (chapters: Chapter[], metadata: BookMetadata, fonts: Fonts, frame: Frame): LaidPage[] => {
+    const { width, height, size } = frame;
+    const leading = size * LEADING;
+    const indent = size * INDENT;
+    const pages: LaidPage[] = [];
+    let page: LaidPage = { draws: [], head: false, folio: false };
+    let y = 0;
+    let indentNext = false;
+
+    const newPage = (next: Omit<LaidPage, 'draws'>) => {
+        page = { draws: [], ...next };
+        pages.push(page);
+        y = 0;
+    };
+    const continuePage = () => newPage({ head: true, folio: true, chapterTitle: page.chapterTitle });
+    const space = (lineSize: number) => fonts.regular.measure(' ', lineSize);
+    const baseline = (top: number, lineSize: number, lineHeight: number) => top + (lineHeight - lineSize) / 2 + lineSize * 0.8;
+
+    const drawLine = (line: SetLine, top: number, lineHeight: number) => {
+        const gap = space(line.size);
+        const natural = line.words.reduce((sum, w) => sum + w.width, 0) + gap * (line.words.length - 1);
+        const spacing = line.align === 'justify' && line.words.length > 1
+            ? gap + Math.max(0, line.width - natural) / (line.words.length - 1)
+            : gap;
+        let x = line.x + (line.align === 'center' ? (line.width - natural) / 2 : 0);
+        const y = baseline(top, line.size, lineHeight);
+        for (const word of line.words) {
+            for (const fragment of word.fragments) {
+                page.draws.push({ x, y: y - fragment.rise, size: fragment.size, style: fragment.style, text: fragment.text });
+                x += fragment.width;
+            }
+            x += spacing;
+        }
+    };
+
+    const setLines = (runs: Run[], lineSize: number, x: number, lineWidth: number, align: SetLine['align'], firstIndent = 0): SetLine[] =>
+        breakWords(toWords(runs, lineSize, fonts), lineWidth - firstIndent, lineWidth, space(lineSize))
+            .map((words, i, all) => ({
+                words,
+                x: x + (i === 0 ? firstIndent : 0),
+                width: lineWidth - (i === 0 ? firstIndent : 0),
+                align: align === 'justify' && i === all.length - 1 ? 'left' : align,
+                size: lineSize
+            }));
+
+    // Place lines, breaking across pages without leaving fewer than MIN_LINES
+    // of the paragraph at the foot of a page or carrying fewer to the next
+    const placeLines = (lines: SetLine[], lineHeight: number = leading) => {
+        let index = 0;
+        while (index < lines.length) {
+            const remaining = lines.length - index;
+            const fit = Math.floor((height - y) / lineHeight + 0.001);
+            let take = Math.min(fit, remaining);
+            if (take < remaining) {
+                if (remaining - take < MIN_LINES) take = remaining - MIN_LINES; // Widow
+                if (index === 0 && take < MIN_LINES) take = 0; // Orphan
+                if (take <= 0) take = y === 0 ? Math.max(1, fit) : 0; // An empty page takes what fits
+            }
+            for (let i = 0; i < take; i++) {
+                drawLine(lines[index + i], y, lineHeight);
+                y += lineHeight;
+            }
+            index += take;
+            if (index < lines.length) continuePage();
+        }
+    };
+
+    // Start a new page unless `needed` points still fit on this one
+    const keepRoom = (needed: number) => {
+        if (y > 0 && y + needed > height + 0.001) continuePage();
+    };
+
+    const centeredBlock = (runs: Run[], lineSize: number, lineHeight: number) => {
+        for (const line of setLines(runs, lineSize, 0, width, 'center')) {
+            drawLine(line, y, lineHeight);
+            y += lineHeight;
+        }
+    };
+
+    // Title page (recto) and copyright page (verso)
+    newPage({ head: false, folio: false });
+    y = height * 0.25;
+    centeredBlock([{ text: metadata.title, style: 'bold' }], size * 2.2, size * 2.8);
+    if (metadata.subtitle) {
+        y += leading * 0.5;
+        centeredBlock([{ text: metadata.subtitle, style: 'italic' }], size * 1.3, size * 1.8);
+    }
+    y = Math.max(y + leading * 2, height * 0.6);
+    centeredBlock([{ text: metadata.author, style: 'regular' }], size * 1.3, size * 1.8);
+
+    newPage({ head: false, folio: false });
+    const notice = [
+        `Copyright © ${new Date().getFullYear()} ${metadata.author}`,
+        'All rights reserved.',
+        ...(metadata.isbn ? [`ISBN ${metadata.isbn}`] : [])
+    ];
+    const noticeSize = size * 0.8;
+    const noticeLeading = noticeSize * LEADING;
+    y = height - notice.length * noticeLeading;
+    for (const text of notice) {
+        for (const line of setLines([{ text, style: 'regular' }], noticeSize, 0, width, 'left')) {
+            drawLine(line, y, noticeLeading);
+            y += noticeLeading;
+        }
+    }
+
+    for (const chapter of chapters) {
+        // Chapters open on a recto page; pages are numbered from 1, so recto pages are odd
+        if (pages.length % 2 === 1) newPage({ head: false, folio: false });
+        newPage({ head: false, folio: true, chapterTitle: chapter.title || metadata.title });
+        y = height * CHAPTER_SINK;
+        if (chapter.number !== undefined) {
+            centeredBlock([{ text: `CHAPTER ${chapter.number}`, style: 'regular' }], size * 0.9, leading * 1.5);
+            centeredBlock([{ text: chapter.title, style: 'bold' }], size * 1.6, size * 2.1);
+            y += leading * 2;
+        }
+        indentNext = false;
+
+        for (const paragraph of chapter.paragraphs) {
+            switch (paragraph.kind) {
+                case 'heading': {
+                    const lines = setLines(paragraph.runs, size * 1.1, 0, width, 'center');
+                    if (y > 0) y += leading * 0.5;
+                    // Keep the heading with the first lines of what follows
+                    keepRoom((lines.length + MIN_LINES) * leading);
+                    placeLines(lines);
+                    y += leading * 0.5;
+                    indentNext = false;
+                    break;
+                }
+                case 'break': {
+                    keepRoom((2 + MIN_LINES) * leading);
+                    placeLines(setLines([{ text: '*   *   *', style: 'regular' }], size, 0, width, 'center'), leading * 2);
+                    indentNext = false;
+                    break;
+                }
+                case 'quote':
+                    placeLines(setLines(paragraph.runs, size, indent, width - indent * 2, 'justify'));
+                    indentNext = false;
+                    break;
+                case 'item': {
+                    const lines = setLines(paragraph.runs, size, indent, width - indent, 'left');
+                    if (lines.length > 0) {
+                        const marker: Run = { text: paragraph.bullet || '•', style: 'regular' };
+                        const bullet: Word = { fragments: toFragments(marker.text, marker, size, fonts), width: 0 };
+                        bullet.width = bullet.fragments[0].width;
+                        lines[0] = { ...lines[0], words: [bullet, ...lines[0].words], x: indent - bullet.width - space(size) };
+                    }
+                    placeLines(lines);
+                    indentNext = false;
+                    break;
+                }
+                default:
+                    placeLines(setLines(paragraph.runs, size, 0, width, 'justify', indentNext ? indent : 0));
+                    indentNext = true;
+            }
+        }
+    }
+
+    // A printed book has an even number of pages
+    if (pages.length % 2 === 1) newPage({ head: false, folio: false });
+    return pages;
+};
+
+// ============================================
+// RENDERING
+// ============================================
+
+// Shorten text with an ellipsis until it fits `maxWidth`
+const fitText = (text: string, font: PdfFont, size: number, maxWidth: number): string => {
+    if (font.measure(text, size) <= maxWidth) return text;
+    let kept = text;
+    while (kept.length > 1 && font.measure(`${kept}…`, size) > maxWidth) kept = kept.slice(0, -1);
+    return `${kept.trimEnd()}…`;
+};
+
+const loadFont = (url: string): Promise<TrueTypeFont> => {
+    let font = fontCache.get(url);
+    if (!font) {
+        font = fetch(url).then(async response => {
+            if (!response.ok) throw new Error(`Could not load font ${url} (${response.status})`);
+            return parseTrueType(new Uint8Array(await response.arrayBuffer()));
+        });
+        // A failed download is dropped so the next export retries it
+        font.catch(() => fontCache.delete(url));
+        fontCache.set(url, font);
+    }
+    return font;
+};
+
+/**
+ * Typeset the project as a PDF interior for a KDP paperback. The gutter depends on the
+ * page count, so the book is laid out again whenever the first layout lands in a
+ * different gutter band. Pages are the trim size exactly (no bleed).
+ */
+export async function buildPrintInterior(project: Project, metadata: BookMetadata, options: PrintInteriorOptions = {}): Promise<PrintInterior> {
+    const trimSize = options.trimSize && TRIM_SIZES[options.trimSize] ? options.trimSize : '6x9';
+    const trim = TRIM_SIZES[trimSize];
+    const size = options.fontSize ?? DEFAULT_FONT_SIZE;
+    const urls = { ...DEFAULT_FONTS, ...options.fonts };
+    const title = metadata.title || project.title || 'Untitled';
+    const author = metadata.author || 'Unknown Author';
+
+    const styles = Object.keys(urls) as TextStyle[];
+    const loaded = await Promise.all(styles.map(style => loadFont(urls[style])));
+
+    const doc = createPdfDocument({ title, author, subject: metadata.description || undefined });
+    const fonts = Object.fromEntries(styles.map((style, i) => [style, doc.addFont(loaded[i])])) as Fonts;
+
+    const blocks = exportableBlocks(project, options.includeDrafts);
+    const chapters = collectChapters(blocks);
+    const images = blocks.filter(b => b.type === BlockType.IMAGE).length;
+    if (images > 0) console.warn(`[Print] Left out ${images} image block(s); the print interior is text only`);
+    const pageWidth = trim.width * POINTS_PER_INCH;
+    const pageHeight = trim.height * POINTS_PER_INCH;
+    const height = (trim.height - TOP_MARGIN - BOTTOM_MARGIN) * POINTS_PER_INCH;
+
+    let gutter = gutterForPageCount(0);
+    let pages: LaidPage[] = [];
+    // More gutter means more pages, so this settles within a few passes
+    for (let pass = 0; pass < GUTTERS.length; pass++) {
+        const width = (trim.width - gutter - GUTTER_ALLOWANCE - OUTSIDE_MARGIN) * POINTS_PER_INCH;
+        pages = paginate(chapters, { ...metadata, title, author }, fonts, { width, height, size });
+        const needed = gutterForPageCount(pages.length);
+        if (needed <= gutter) break;
+        gutter = needed;
+    }
+
+    const inside = (gutter + GUTTER_ALLOWANCE) * POINTS_PER_INCH;
+    const outside = OUTSIDE_MARGIN * POINTS_PER_INCH;
+    const blockWidth = pageWidth - inside - outside;
+    const top = pageHeight - TOP_MARGIN * POINTS_PER_INCH;
+
+    pages.forEach((laid, i) => {
+        const recto = i % 2 === 0; // Page i + 1
+        const left = recto ? inside : outside;
+        const ops: string[] = [];
+        let current = '';
+        const show = (x: number, y: number, style: TextStyle, textSize: number, text: string) => {
+            const font = fonts[style];
+            const selection = `/${font.resourceName} ${pdfNumber(textSize)} Tf`;
+            if (selection !== current) {
+                ops.push(selection);
+                current = selection;
+            }
+            ops.push(`1 0 0 1 ${pdfNumber(x)} ${pdfNumber(y)} Tm ${font.encode(text)} Tj`);
+        };
+        const centered = (y: number, style: TextStyle, textSize: number, text: string) => {
+            const fitted = fitText(text, fonts[style], textSize, blockWidth);
+            show(left + (blockWidth - fonts[style].measure(fitted, textSize)) / 2, y, style, textSize, fitted);
+        };
+
+        for (const draw of laid.draws) show(left + draw.x, top - draw.y, draw.style, draw.size, draw.text);
+        // Verso pages carry the book title, recto pages the chapter
+        if (laid.head) {
+            centered(pageHeight - HEAD_BASELINE * POINTS_PER_INCH, 'italic', size * 0.8, recto ? laid.chapterTitle || title : title);
+        }
+        if (laid.folio) centered(FOLIO_BASELINE * POINTS_PER_INCH, 'regular', size * 0.8, String(i + 1));
+
+        doc.addPage({
+            width: pageWidth,
+            height: pageHeight,
+            trimBox: [0, 0, pageWidth, pageHeight],
+            content: ops.length > 0 ? `BT\n${ops.join('\n')}\nET` : ''
+        });
+    });
+
+    // A missing glyph prints as a box (.notdef); refuse rather than hand KDP a flawed interior
+    const missing = new Set(styles.flatMap(style => Array.from(fonts[style].missing)));
+    if (missing.size > 0) {
+        const language = metadata.language ? ` (book language: ${metadata.language})` : '';
+        throw new Error(`The print font has no glyphs for ${Array.from(missing).join(' ')}${language}. Choose fonts that cover them.`);
+    }
+
+    console.log(`[Print] ${pages.length} pages at ${trimSize}, ${gutter}" gutter`);
+    return { pdf: await doc.save(), pageCount: pages.length, trimSize };
+}
+
+/** Build the print interior and save it as a PDF; returns it for the page count */
+export async function downloadPrintInterior(project: Project, metadata: BookMetadata, options: PrintInteriorOptions = {}): Promise<PrintInterior> {
+    const interior = await buildPrintInterior(project, metadata, options);
+    downloadBlob(new Blob([interior.pdf], { type: 'application/pdf' }), `${exportFileName(project)}_print_${interior.trimSize}.pdf`);
+    return interior;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assemblePrompt, trimToTokens } from './promptAssembler';
+import { estimateTokens } from './usageTracker';
+
+const words = (count: number, word = 'word'): string => Array.from({ length: count }, (_, i) => `${word}${i}`).join(' ');
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('trimToTokens', () => {
+    it('returns text that fits unchanged', () => {
+        expect(trimToTokens('A short line.', 100)).toBe('A short line.');
+    });
+
+    it('keeps the part the mode asks for and marks the cut', () => {
+        const text = words(500);
+
+        const end = trimToTokens(text, 50);
+        const start = trimToTokens(text, 50, 'start');
+        const middle = trimToTokens(text, 50, 'middle');
+
+        for (const trimmed of [end, start, middle]) expect(estimateTokens(trimmed)).toBeLessThanOrEqual(50);
+        expect(end).toMatch(/^word0 word1 .*\n\[…\]$/s);
+        expect(start).toMatch(/^\[…\]\n.* word499$/s);
+        expect(middle).toMatch(/^word0 .*\n\[…\]\n.* word499$/s);
+    });
+
+    it('returns nothing when no words fit', () => {
+        expect(trimToTokens(words(50), 0)).toBe('');
+    });
+});
+
+describe('assemblePrompt', () => {
+    it('keeps everything that fits, in the order given', () => {
+        const result = assemblePrompt([
+            { name: 'context', text: 'Context.' },
+            { name: 'task', text: 'Task.', required: true }
+        ], 1_000);
+
+        expect(result.text).toBe('Context.\n\nTask.');
+        expect(result.trimmed).toEqual([]);
+        expect(result.dropped).toEqual([]);
+    });
+
+    it('budgets required and higher-priority sections first', () => {
+        const result = assemblePrompt([
+            { name: 'memory', text: words(400, 'memory'), priority: 1 },
+            { name: 'passages', text: words(400, 'passage') },
+            { name: 'task', text: words(100, 'task'), required: true }
+        ], 400);
+
+        expect(result.sections.task).toBe(words(100, 'task'));
+        expect(result.trimmed).toEqual(['memory']);
+        expect(result.dropped).toEqual(['passages']);
+        expect(result.tokens).toBeLessThanOrEqual(400);
+    });
+
+    it('shares what is left evenly between sections of equal rank', () => {
+        const result = assemblePrompt([
+            { name: 'a', text: words(400, 'a') },
+            { name: 'b', text: words(400, 'b') },
+            { name: 'small', text: 'Kept whole.' }
+        ], 600);
+
+        expect(result.sections.small).toBe('Kept whole.');
+        expect(result.trimmed).toEqual(['a', 'b']);
+        expect(Math.abs(estimateTokens(result.sections.a) - estimateTokens(result.sections.b))).toBeLessThanOrEqual(2);
+    });
+
+    it('drops an optional section rather than trim it below its minimum', () => {
+        const result = assemblePrompt([
+            { name: 'excerpt', text: words(400), minTokens: 300 },
+            { name: 'task', text: words(100, 'task'), required: true }
+        ], 300);
+
+        expect(result.sections.excerpt).toBe('');
+        expect(result.dropped).toEqual(['excerpt']);
+    });
+
+    it('trims a section to its own maxTokens without reporting it', () => {
+        const result = assemblePrompt([{ name: 'excerpt', text: words(400), maxTokens: 50 }], 10_000);
+
+        expect(estimateTokens(result.sections.excerpt)).toBeLessThanOrEqual(50);
+        expect(result.trimmed).toEqual(['excerpt']);
+        expect(console.log).not.toHaveBeenCalled();
+    });
+});
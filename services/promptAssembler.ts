@@ -0,0 +1,200 @@
+import { TaskType } from '../types';
+import { DEFAULT_OUTPUT_TOKENS, GenerateOptions, PROVIDER_CONTEXT_WINDOWS, getContextWindow } from './modelRegistry';
+import { getRouteOrder } from './providerRouter';
+import { estimateTokens } from './usageTracker';
+
+// ============================================
+// PROMPT ASSEMBLER
+// Build prompts from prioritized sections (blueprint, memory, passages,
+// the task itself), trimming or dropping the least important ones until
+// the prompt fits the context window of the model it is routed to
+// ============================================
+
+export type TrimMode = 'end' | 'start' | 'middle';
+
+export interface PromptSection {
+    name: string;
+    text: string;
+    priority?: number; // Higher is budgeted first (default 0); equal priorities share what is left evenly
+    required?: boolean; // Budgeted before every optional section and only dropped when nothing is left
+    trim?: TrimMode; // Which part to cut: 'end' keeps the beginning (default), 'start' the end, 'middle' both
+    minTokens?: number; // Dropped rather than trimmed below this (default 200)
+    maxTokens?: number; // Trimmed to this even when the window has room (e.g. excerpts)
+}
+
+export interface AssembledPrompt {
+    text: string; // Kept sections, in the order given
+    sections: Record<string, string>; // Each section as kept ('' when dropped)
+    tokens: number;
+    trimmed: string[];
+    dropped: string[];
+}
+
+export interface PromptBudgetOptions {
+    taskModels?: GenerateOptions['taskModels'];
+    systemPrompt?: string; // Sent with the prompt, so it counts against the window
+    maxTokens?: number; // Reply tokens to reserve (default DEFAULT_OUTPUT_TOKENS)
+}
+
+const DEFAULT_MIN_TOKENS = 200;
+// Token counts are estimates; leave part of the window unused
+const SAFETY_MARGIN = 0.9;
+// No token spans more characters than this, barring long whitespace runs
+const MAX_CHARS_PER_TOKEN = 16;
+const TRIM_MARKER = '[…]';
+const SECTION_SEPARATOR = '\n\n';
+
+// ============================================
+// BUDGET
+// ============================================
+
+/** Context window of the model a task is routed to first (the smallest window when none is configured) */
+export function getTaskContextWindow(taskType: TaskType, taskModels?: GenerateOptions['taskModels']): number {
+    const [target] = getRouteOrder(taskType, taskModels);
+    return target
+        ? getContextWindow(target.provider, target.modelId)
+        : Math.min(...Object.values(PROVIDER_CONTEXT_WINDOWS));
+}
+
+/** Prompt tokens a task can use on the model it is routed to first, after the system prompt and the reply */
+export function getPromptBudget(taskType: TaskType, options: PromptBudgetOptions = {}): number {
+    const window = getTaskContextWindow(taskType, options.taskModels);
+    const available = Math.floor((window - (options.maxTokens ?? DEFAULT_OUTPUT_TOKENS)) * SAFETY_MARGIN);
+    return Math.max(0, available - estimateTokens(options.systemPrompt || ''));
+}
+
+// ============================================
+// TRIMMING
+// ============================================
+
+// The first `chars` characters, backed off to a word boundary
+const head = (text: string, chars: number): string => {
+    const kept = text.slice(0, chars);
+    if (chars >= text.length || /\s/.test(text[chars])) return kept.trimEnd();
+    const space = kept.search(/\s\S*$/);
+    return (space > 0 ? kept.slice(0, space) : kept).trimEnd();
+};
+
+// The last `chars` characters, moved forward to a word boundary
+const tail = (text: string, chars: number): string => {
+    if (chars <= 0) return '';
+    const start = text.length - chars;
+    const kept = text.slice(start);
+    if (start <= 0 || /\s/.test(text[start - 1])) return kept.trimStart();
+    const space = kept.search(/\s/);
+    return (space !== -1 ? kept.slice(space) : kept).trimStart();
+};
+
+const cut = (text: string, chars: number, mode: TrimMode): string => {
+    switch (mode) {
+        case 'start':
+            return `${TRIM_MARKER}\n${tail(text, chars)}`;
+        case 'middle':
+            return `${head(text, Math.ceil(chars / 2))}\n${TRIM_MARKER}\n${tail(text, Math.floor(chars / 2))}`;
+        default:
+            return `${head(text, chars)}\n${TRIM_MARKER}`;
+    }
+};
+
+/** Cut text to at most `maxTokens` at word boundaries, marking the cut with […] ('' when nothing fits) */
+export function trimToTokens(text: string, maxTokens: number, mode: TrimMode = 'end'): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+
+    // Longest cut that fits, by binary search over the characters kept
+    let low = 0;
+    let high = Math.min(text.length, maxTokens * MAX_CHARS_PER_TOKEN);
+    let best = '';
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        const candidate = cut(text, mid, mode);
+        if (estimateTokens(candidate) <= maxTokens) {
+            best = candidate;
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return best.replace(TRIM_MARKER, '').trim() ? best : '';
+}
+
+// ============================================
+// ASSEMBLY
+// ============================================
+
+const rankOf = (section: PromptSection): number[] => [section.required ? 1 : 0, section.priority ?? 0];
+
+const compareRank = (a: PromptSection, b: PromptSection): number => {
+    const [requiredA, priorityA] = rankOf(a);
+    const [requiredB, priorityB] = rankOf(b);
+    return requiredB - requiredA || priorityB - priorityA;
+};
+
+/**
+ * Fit sections into `budgetTokens`. Required sections are budgeted first, then the rest
+ * from the highest priority down. Sections of equal rank share what is left: the small
+ * ones are kept whole and the large ones trimmed to an even share, or dropped when that
+ * share is under their minTokens.
+ */
+export function assemblePrompt(sections: PromptSection[], budgetTokens: number): AssembledPrompt {
+    const sizes = sections.map(section => estimateTokens(section.text));
+    const wanted = sections.map((section, i) => Math.min(sizes[i], section.maxTokens ?? Infinity));
+    const allocation = new Array<number>(sections.length).fill(0);
+    let remaining = Math.max(0, budgetTokens);
+
+    const order = sections
+        .map((_, i) => i)
+        .filter(i => sections[i].text.trim())
+        .sort((a, b) => compareRank(sections[a], sections[b]));
+
+    for (let start = 0; start < order.length;) {
+        let end = start + 1;
+        while (end < order.length && compareRank(sections[order[start]], sections[order[end]]) === 0) end++;
+
+        let pending = order.slice(start, end).sort((a, b) => wanted[a] - wanted[b]);
+        while (pending.length > 0) {
+            const share = Math.floor(remaining / pending.length);
+            if (wanted[pending[0]] <= share) {
+                allocation[pending[0]] = wanted[pending[0]];
+                remaining -= wanted[pending[0]];
+                pending = pending.slice(1);
+                continue;
+            }
+            // Everything left is larger than an even share. Drop the largest optional section
+            // that would be cut below its minimum and share again; otherwise trim them all.
+            const tooSmall = [...pending].reverse().find(i =>
+                !sections[i].required && share < (sections[i].minTokens ?? DEFAULT_MIN_TOKENS));
+            if (tooSmall !== undefined) {
+                pending = pending.filter(i => i !== tooSmall);
+                continue;
+            }
+            pending.forEach(i => { allocation[i] = share; });
+            remaining -= share * pending.length;
+            break;
+        }
+        start = end;
+    }
+
+    const kept: Record<string, string> = {};
+    const trimmed: string[] = [];
+    const dropped: string[] = [];
+    sections.forEach((section, i) => {
+        if (!section.text.trim()) {
+            kept[section.name] = '';
+        } else if (allocation[i] >= sizes[i]) {
+            kept[section.name] = section.text;
+        } else {
+            kept[section.name] = allocation[i] > 0 ? trimToTokens(section.text, allocation[i], section.trim) : '';
+            (kept[section.name] ? trimmed : dropped).push(section.name);
+        }
+    });
+
+    const text = sections.map(section => kept[section.name]).filter(Boolean).join(SECTION_SEPARATOR);
+    const tokens = estimateTokens(text);
+    // Cuts down to a section's own maxTokens are expected; only report cuts made for space
+    if (sections.some((section, i) => section.text.trim() && allocation[i] < wanted[i])) {
+        console.log(`[Prompt] Fitted to ${tokens}/${budgetTokens} tokens` +
+            (trimmed.length > 0 ? `; trimmed ${trimmed.join(', ')}` : '') +
+            (dropped.length > 0 ? `; dropped ${dropped.join(', ')}` : ''));
+    }
+    return { text, sections: kept, tokens, trimmed, dropped };
+}
@@ -0,0 +1,187 @@
+import { ModelProvider } from '../types';
+import { getProvider, updateModelAvailability } from './modelRegistry';
+
+// ============================================
+// PROVIDER HEALTH
+// Latency, error rate, rate-limit hits and last success per provider,
+// fed by every routed call plus a background availability ping for
+// providers that have seen no traffic lately
+// ============================================
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown' | 'unconfigured';
+
+export interface HealthSample {
+    timestamp: number;
+    ok: boolean;
+    latencyMs: number;
+    rateLimited?: boolean;
+    source: 'call' | 'ping';
+}
+
+export interface ProviderHealth {
+    provider: ModelProvider;
+    status: HealthStatus;
+    samples: HealthSample[]; // Most recent last, capped at HEALTH_HISTORY_SIZE
+    avgLatencyMs?: number; // Successful samples in the window
+    errorRate: number; // 0-1 over the window
+    rateLimitHits: number; // In the window
+    lastSuccess?: number;
+    lastError?: string;
+    lastErrorAt?: number;
+}
+
+type HealthListener = (health: ProviderHealth) => void;
+
+const HEALTH_HISTORY_SIZE = 50;
+const HEALTH_WINDOW = 20; // Samples the status is judged on
+export const HEALTH_PING_INTERVAL_MS = 5 * 60_000;
+
+const DOWN_ERROR_RATE = 0.5;
+const DEGRADED_ERROR_RATE = 0.2;
+const DEGRADED_LATENCY_MS = 20_000;
+const CONSECUTIVE_FAILURES_DOWN = 3;
+
+const RATE_LIMIT_ERROR = /429|rate.?limit|quota|too many requests/i;
+
+const history = new Map<ModelProvider, { samples: HealthSample[]; lastSuccess?: number; lastError?: string; lastErrorAt?: number }>();
+const listeners = new Set<HealthListener>();
+
+// ============================================
+// RECORDING
+// ============================================
+
+const getEntry = (provider: ModelProvider) => {
+    let entry = history.get(provider);
+    if (!entry) {
+        entry = { samples: [] };
+        history.set(provider, entry);
+    }
+    return entry;
+};
+
+const record = (provider: ModelProvider, sample: HealthSample, error?: string): void => {
+    const entry = getEntry(provider);
+    entry.samples = [...entry.samples, sample].slice(-HEALTH_HISTORY_SIZE);
+    if (sample.ok) {
+        entry.lastSuccess = sample.timestamp;
+    } else {
+        entry.lastError = error;
+        entry.lastErrorAt = sample.timestamp;
+    }
+    const health = getProviderHealth(provider);
+    listeners.forEach(listener => listener(health));
+};
+
+/** Report the outcome of one provider attempt (the router calls this for every attempt) */
+export function recordProviderCall(provider: ModelProvider, latencyMs: number, error?: unknown): void {
+    const message = error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+    record(provider, {
+        timestamp: Date.now(),
+        ok: error === undefined,
+        latencyMs,
+        source: 'call',
+        ...(message && RATE_LIMIT_ERROR.test(message) && { rateLimited: true })
+    }, message);
+}
+
+export const subscribeHealth = (listener: HealthListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// ============================================
+// STATUS
+// ============================================
+
+export function getProviderHealth(provider: ModelProvider): ProviderHealth {
+    const entry = history.get(provider) || { samples: [] };
+    const window = entry.samples.slice(-HEALTH_WINDOW);
+    const failures = window.filter(s => !s.ok).length;
+    const successes = window.filter(s => s.ok);
+    const errorRate = window.length ? failures / window.length : 0;
+    const rateLimitHits = window.filter(s => s.rateLimited).length;
+    const avgLatencyMs = successes.length
+        ? Math.round(successes.reduce((sum, s) => sum + s.latencyMs, 0) / successes.length)
+        : undefined;
+    const recentFailures = window.slice(-CONSECUTIVE_FAILURES_DOWN);
+
+    let status: HealthStatus;
+    if (!getProvider(provider)?.isConfigured()) status = 'unconfigured';
+    else if (window.length === 0) status = 'unknown';
+    else if (errorRate >= DOWN_ERROR_RATE || (recentFailures.length === CONSECUTIVE_FAILURES_DOWN && recentFailures.every(s => !s.ok))) status = 'down';
+    else if (errorRate >= DEGRADED_ERROR_RATE || rateLimitHits > 0 || (avgLatencyMs ?? 0) > DEGRADED_LATENCY_MS) status = 'degraded';
+    else status = 'healthy';
+
+    return {
+        provider,
+        status,
+        samples: entry.samples,
+        avgLatencyMs,
+        errorRate,
+        rateLimitHits,
+        lastSuccess: entry.lastSuccess,
+        lastError: entry.lastError,
+        lastErrorAt: entry.lastErrorAt
+    };
+}
+
+export const getAllProviderHealth = (): ProviderHealth[] =>
+    Object.values(ModelProvider).map(getProviderHealth);
+
+// Lower sorts first; unknown ranks with healthy so untried providers keep their priority slot
+const STATUS_RANK: Record<HealthStatus, number> = {
+    healthy: 0,
+    unknown: 0,
+    degraded: 1,
+    down: 2,
+    unconfigured: 3
+};
+
+/** Routing rank of a provider by health (0 = route normally) */
+export const healthRank = (provider: ModelProvider): number => STATUS_RANK[getProviderHealth(provider).status];
+
+// ============================================
+// BACKGROUND MONITOR
+// ============================================
+
+/** Ping one provider with checkAvailability, recording the result and updating the registry */
+export async function pingProvider(provider: ModelProvider): Promise<boolean> {
+    const instance = getProvider(provider);
+    if (!instance?.isConfigured()) {
+        updateModelAvailability(provider, false);
+        return false;
+    }
+
+    const started = Date.now();
+    let ok = false;
+    try {
+        ok = await instance.checkAvailability();
+    } catch {
+        ok = false;
+    }
+    updateModelAvailability(provider, ok);
+    record(provider, { timestamp: Date.now(), ok, latencyMs: Date.now() - started, source: 'ping' }, ok ? undefined : 'Availability check failed');
+    return ok;
+}
+
+/**
+ * Ping configured providers now and every intervalMs, skipping any that served a call
+ * within the interval (real traffic already measures them). Returns a stop function.
+ */
+export function startHealthMonitor(intervalMs: number = HEALTH_PING_INTERVAL_MS): () => void {
+    const sweep = () => {
+        const cutoff = Date.now() - intervalMs;
+        for (const provider of Object.values(ModelProvider)) {
+            const last = history.get(provider)?.samples.at(-1);
+            if (last && last.source === 'call' && last.timestamp > cutoff) continue;
+            void pingProvider(provider);
+        }
+    };
+
+    sweep();
+    const timer = setInterval(sweep, intervalMs);
+    console.log(`[Health] Monitor started (every ${Math.round(intervalMs / 1000)}s)`);
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModelProvider } from '../types';
+import { BudgetExceededError, BudgetGuard } from './budget';
+import { getCircuitStatus, routeGenerate } from './providerRouter';
+import { MockProviderOptions, installMockProvider } from './providers/mockProvider';
+
+let restore: (() => void) | undefined;
+
+beforeEach(() => {
+    // Only the clock: provider slots and backoff keep their real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    restore?.();
+    restore = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+const mock = (options: MockProviderOptions = {}) => {
+    const installed = installMockProvider(options);
+    restore = installed.restore;
+    return installed.provider;
+};
+
+// Not retryable, so each routed call makes a single attempt
+const outage = (times?: number) => ({
+    name: 'outage',
+    match: /Say hello/,
+    respond: vi.fn((): string => { throw new Error('401 Invalid API key'); }),
+    times
+});
+
+const route = () => routeGenerate('Say hello.', 'writing');
+
+const failTimes = async (count: number) => {
+    for (let i = 0; i < count; i++) await expect(route()).rejects.toThrow(/All providers failed/);
+};
+
+const passCooldown = () => vi.setSystemTime(Date.now() + 60_000);
+
+describe('circuit breaker', () => {
+    it('opens after three consecutive failures and refuses calls while cooling down', async () => {
+        const rule = outage();
+        mock({ rules: [rule] });
+
+        await failTimes(2);
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('closed');
+        await failTimes(1);
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('open');
+
+        await expect(route()).rejects.toThrow(/cooling down/);
+        expect(rule.respond).toHaveBeenCalledTimes(3);
+    });
+
+    it('lets a single probe through after the cooldown and closes on success', async () => {
+        const provider = mock({ rules: [outage(3)] });
+        await failTimes(3);
+
+        passCooldown();
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('half_open');
+
+        const probe = route();
+        // The probe holds the circuit open for every other caller until it settles
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('open');
+        await expect(route()).rejects.toThrow(/cooling down/);
+
+        expect((await probe).text).toBe('Mock response.');
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('closed');
+        expect(provider.callsFor('fallback')).toHaveLength(1);
+    });
+
+    it('re-opens for another cooldown when the probe fails', async () => {
+        mock({ rules: [outage()] });
+        await failTimes(3);
+
+        passCooldown();
+        await failTimes(1);
+
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('open');
+        vi.setSystemTime(Date.now() + 59_000);
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('open');
+        vi.setSystemTime(Date.now() + 1_000);
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('half_open');
+    });
+
+    it('leaves the circuit half-open when the budget stops the probe', async () => {
+        const provider = mock({ rules: [outage(3)] });
+        await failTimes(3);
+        passCooldown();
+
+        const spent = new BudgetGuard({ maxRunTokens: 1 });
+        await expect(routeGenerate('Say hello.', 'writing', { budget: spent })).rejects.toThrow(BudgetExceededError);
+
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('half_open');
+        expect(provider.callsFor('fallback')).toHaveLength(0);
+    });
+
+    it('resets the failure count after a success', async () => {
+        // Fails twice, answers once, then fails twice again
+        let calls = 0;
+        mock({
+            rules: [{
+                name: 'flaky',
+                match: /Say hello/,
+                respond: () => {
+                    if (++calls !== 3) throw new Error('401 Invalid API key');
+                    return 'Hello.';
+                }
+            }]
+        });
+
+        await failTimes(2);
+        await route();
+        await failTimes(2);
+
+        expect(getCircuitStatus(ModelProvider.LOCAL)).toBe('closed');
+    });
+});
@@ -0,0 +1,312 @@
+import { ModelCapability, ModelChoice, ModelProvider, TaskType, UsageTotals } from '../types';
+import {
+    ChunkCallback,
+    ContentPart,
+    DEFAULT_OUTPUT_TOKENS,
+    GenerateOptions,
+    MODEL_REGISTRY,
+    TASK_MODEL_PRIORITY,
+    estimatePromptTokens,
+    generateMetered,
+    getAvailableProviders,
+    getContextWindow,
+    getProvider,
+    requiredCapabilities,
+    selectModelForTask,
+    supportsCapabilities
+} from './modelRegistry';
+import { withProviderSlot } from './concurrency';
+import { isBudgetExceeded } from './budget';
+import { healthRank, recordProviderCall } from './providerHealth';
+
+// ============================================
+// PROVIDER ROUTER
+// The single generation entry point: orders providers by task
+// priority and the user's model choice, retries with exponential
+// backoff, and skips providers whose circuit breaker is open or
+// whose context window is too small for the prompt
+// ============================================
+
+// One provider to try, and the model to call on it (unset = provider default)
+export interface RouteTarget {
+    provider: ModelProvider;
+    modelId?: string;
+}
+
+export interface RoutedResult {
+    text: string;
+    provider: ModelProvider;
+    modelId: string;
+    modelUsed: string; // Display name for logs and block metadata
+    usage: UsageTotals;
+}
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open';
+
+const MAX_ATTEMPTS_PER_PROVIDER = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+// Consecutive failed calls before a provider is taken out of rotation
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+// Tasks only the providers in their priority list can serve
+const STRICT_TASKS: TaskType[] = ['image_generation'];
+
+const RETRYABLE_ERROR = /429|rate|overload|quota|timeout|timed out|50[0-9]|unavailable|network|fetch|ECONN|empty response/i;
+
+// ============================================
+// USER PREFERENCE (ModelSelector)
+// ============================================
+
+let preferredModel: ModelChoice | null = null;
+
+/** Route every task to this model first; 'auto' restores the task priority order */
+export function setPreferredModel(choice: ModelChoice | 'auto'): void {
+    preferredModel = choice === 'auto' ? null : choice;
+}
+
+export function getPreferredModel(): ModelChoice | null {
+    return preferredModel;
+}
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+interface CircuitState {
+    failures: number;
+    openedAt?: number;
+    probing?: boolean; // A trial call is in flight
+}
+
+const circuits = new Map<ModelProvider, CircuitState>();
+
+export function getCircuitStatus(provider: ModelProvider): CircuitStatus {
+    const state = circuits.get(provider);
+    if (!state?.openedAt) return 'closed';
+    // After the cooldown one trial call is let through; its outcome closes or re-opens the
+    // circuit, and until then the circuit stays open for every other caller
+    if (Date.now() - state.openedAt < CIRCUIT_COOLDOWN_MS || state.probing) return 'open';
+    return 'half_open';
+}
+
+/** Claim the trial call of a half-open circuit */
+const startProbe = (provider: ModelProvider): void => {
+    circuits.get(provider)!.probing = true;
+};
+
+/** Give up the trial call without a verdict (cancelled, or the budget ran out) */
+const endProbe = (provider: ModelProvider): void => {
+    const state = circuits.get(provider);
+    if (state) state.probing = false;
+};
+
+const recordSuccess = (provider: ModelProvider): void => {
+    circuits.delete(provider);
+};
+
+const recordFailure = (provider: ModelProvider): void => {
+    const state = circuits.get(provider) || { failures: 0 };
+    state.probing = false;
+    state.failures++;
+    if (state.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+        if (!state.openedAt || Date.now() - state.openedAt >= CIRCUIT_COOLDOWN_MS) {
+            console.warn(`[Router] Circuit opened for ${provider} after ${state.failures} consecutive failures`);
+        }
+        state.openedAt = Date.now();
+    }
+    circuits.set(provider, state);
+};
+
+/** Close every circuit, e.g. after the user updates API keys */
+export function resetCircuits(): void {
+    circuits.clear();
+}
+
+// ============================================
+// ROUTING
+// ============================================
+
+/**
+ * The model to call on a provider for a prompt needing `required`: the chosen one when it
+ * qualifies, else the provider's best qualifying model, else null (skip the provider).
+ * A long prompt may still go to a standard window; images and PDFs may not.
+ */
+const fitModel = (provider: ModelProvider, taskType: TaskType, modelId: string | undefined, required: ModelCapability[]): string | undefined | null => {
+    if (supportsCapabilities(provider, modelId, required)) return modelId;
+    const capable = selectModelForTask(provider, taskType, required);
+    if (capable) return capable.modelId;
+
+    const attachments = required.filter(c => c !== 'long_context');
+    if (attachments.length === required.length) return null;
+    if (supportsCapabilities(provider, modelId, attachments)) return modelId;
+    return selectModelForTask(provider, taskType, attachments)?.modelId ?? null;
+};
+
+/**
+ * Models to try for a task, one per provider, in order: the project's override for
+ * the task, the user's ModelSelector choice, the task's priority list, then any other
+ * configured provider (with the model that best fits the task). Within the automatic
+ * part, providers the health monitor sees as degraded or down move behind healthy ones.
+ * With `required` capabilities (see requiredCapabilities), each provider's model is
+ * swapped for one that can read the prompt, and providers without one are left out.
+ */
+export function getRouteOrder(taskType: TaskType, taskModels?: GenerateOptions['taskModels'], required: ModelCapability[] = []): RouteTarget[] {
+    const available = getAvailableProviders();
+    const priority = TASK_MODEL_PRIORITY[taskType].filter(p => available.includes(p));
+    const candidates = STRICT_TASKS.includes(taskType) ? priority : available;
+
+    const order: RouteTarget[] = [];
+    const add = (provider: ModelProvider, modelId?: string) => {
+        if (!candidates.includes(provider) || order.some(t => t.provider === provider)) return;
+        const fitted = fitModel(provider, taskType, modelId, required);
+        if (fitted === null) return;
+        order.push({ provider, modelId: fitted });
+    };
+
+    const override = taskModels?.[taskType];
+    if (override) add(override.provider, override.modelId);
+    if (preferredModel) add(preferredModel.provider, preferredModel.modelId);
+    [...priority, ...candidates]
+        .sort((a, b) => healthRank(a) - healthRank(b)) // Stable: equal health keeps the priority order
+        .forEach(p => add(p, selectModelForTask(p, taskType)?.modelId));
+    return order;
+}
+
+/** Whether some configured model can take a task with these capabilities */
+export const canRoute = (taskType: TaskType, required: ModelCapability[], taskModels?: GenerateOptions['taskModels']): boolean =>
+    getRouteOrder(taskType, taskModels, required).length > 0;
+
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+    vision: 'images',
+    pdf: 'PDFs',
+    long_context: 'long prompts'
+};
+
+const describeTarget = (target: RouteTarget): string =>
+    target.modelId ? `${target.provider}/${target.modelId}` : target.provider;
+
+const modelLabel = (provider: ModelProvider, modelId: string): string =>
+    MODEL_REGISTRY.find(m => m.provider === provider && m.modelId === modelId)?.displayName || modelId || provider;
+
+// Exponential backoff with jitter; rejects early when the caller aborts
+const backoff = (attempt: number, signal?: AbortSignal): Promise<void> => {
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS) + Math.random() * BACKOFF_BASE_MS;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Generate for a task type, falling back across providers.
+ * Streams to onChunk when given; each retry restarts the stream from scratch.
+ */
+export async function routeGenerate(
+    prompt: string | ContentPart[],
+    taskType: TaskType,
+    options: GenerateOptions = {},
+    onChunk?: ChunkCallback
+): Promise<RoutedResult> {
+    if (getAvailableProviders().length === 0) {
+        throw new Error('No AI providers configured. Add API keys in Settings or .env.local');
+    }
+
+    const required = requiredCapabilities(prompt, options);
+    const order = getRouteOrder(taskType, options.taskModels, required);
+    if (order.length === 0) {
+        const attachments = required.filter(c => c !== 'long_context');
+        throw new Error(attachments.length > 0
+            ? `No configured model for ${taskType} can read ${attachments.map(c => CAPABILITY_LABELS[c]).join(' or ')}. Add a key for a provider with a vision model (Gemini, Groq, Mistral or OpenRouter) in Settings`
+            : `No configured provider supports task: ${taskType}`);
+    }
+
+    const open = order.filter(t => getCircuitStatus(t.provider) !== 'open');
+    if (open.length === 0) {
+        throw new Error(`Every provider for ${taskType} is cooling down after repeated failures (${order.map(t => t.provider).join(', ')})`);
+    }
+
+    // Fallbacks whose window cannot hold the prompt and reply would truncate or reject it
+    const needed = estimatePromptTokens(prompt, options) + (options.maxTokens ?? DEFAULT_OUTPUT_TOKENS);
+    const fitting = open.filter(t => getContextWindow(t.provider, t.modelId) >= needed);
+    if (fitting.length === 0) {
+        console.warn(`[Router] ${taskType}: ~${needed} tokens exceeds every model's context window; trying anyway`);
+    } else if (fitting.length < open.length) {
+        console.log(`[Router] ${taskType}: skipping ${open.filter(t => !fitting.includes(t)).map(describeTarget).join(', ')} (context window under ~${needed} tokens)`);
+    }
+    const routable = fitting.length > 0 ? fitting : open;
+
+    console.log(`[Router] ${taskType}: ${routable.map(describeTarget).join(' -> ')}`);
+    const errors: string[] = [];
+
+    for (const target of routable) {
+        const name = target.provider;
+        const provider = getProvider(name);
+        if (!provider) continue;
+        const callOptions: GenerateOptions = { ...options, model: target.modelId };
+
+        // The circuit may have changed while earlier targets were tried
+        const status = getCircuitStatus(name);
+        if (status === 'open') {
+            errors.push(`${name}: circuit open`);
+            continue;
+        }
+        const probe = status === 'half_open';
+        if (probe) startProbe(name);
+
+        try {
+            for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PROVIDER; attempt++) {
+                options.signal?.throwIfAborted();
+                let started = 0; // Set once a slot is granted, so queueing is not counted as latency
+                try {
+                    const result = await withProviderSlot(
+                        name,
+                        () => {
+                            started = Date.now();
+                            return generateMetered(provider, prompt, callOptions, onChunk);
+                        },
+                        options.signal
+                    );
+                    if (!result.text.trim()) throw new Error('Empty response');
+
+                    recordProviderCall(name, Date.now() - started);
+                    recordSuccess(name);
+                    return {
+                        text: result.text,
+                        provider: name,
+                        modelId: result.modelId,
+                        modelUsed: modelLabel(name, result.modelId),
+                        usage: result.usage
+                    };
+                } catch (error) {
+                    // Cancellation and a spent budget end the call; they say nothing about the provider
+                    if (options.signal?.aborted || isBudgetExceeded(error)) throw error;
+                    if (started) recordProviderCall(name, Date.now() - started, error);
+
+                    const message = error instanceof Error ? error.message : String(error);
+                    console.warn(`[Router] ${name} attempt ${attempt} failed:`, message);
+                    errors.push(`${name}: ${message}`);
+
+                    if (attempt === MAX_ATTEMPTS_PER_PROVIDER || !RETRYABLE_ERROR.test(message)) break;
+                    await backoff(attempt, options.signal);
+                }
+            }
+
+            recordFailure(name);
+        } finally {
+            // Success and failure settle the circuit themselves; anything else leaves it half-open
+            if (probe) endProbe(name);
+        }
+    }
+
+    throw new Error(`All providers failed:\n${errors.join('\n')}`);
+}
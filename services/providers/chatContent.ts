@@ -0,0 +1,47 @@
+import { ContentPart } from '../modelRegistry';
+
+// ============================================
+// CHAT CONTENT
+// Translate ContentPart prompts into the user-message content of
+// OpenAI-compatible chat APIs (Groq, Mistral, OpenRouter, Local)
+// ============================================
+
+export type ChatContent = string | Array<Record<string, unknown>>;
+
+export interface ChatContentFormat {
+    // Mistral takes `image_url` as a bare string instead of `{ url }`
+    imageUrlAsString?: boolean;
+    // OpenRouter accepts PDFs as `file` parts
+    pdf?: boolean;
+}
+
+const toImagePart = (url: string, format: ChatContentFormat) => ({
+    type: 'image_url',
+    image_url: format.imageUrlAsString ? url : { url }
+});
+
+/**
+ * Message content for a prompt: a plain string when it is all text (the form every
+ * vendor accepts), otherwise an array of text, image and (where supported) file parts.
+ * The router only sends attachments to models flagged as able to read them; any other
+ * attachment becomes a short text note rather than being dropped silently.
+ */
+export function toChatContent(prompt: string | ContentPart[], format: ChatContentFormat = {}): ChatContent {
+    if (typeof prompt === 'string') return prompt;
+    if (prompt.every(p => 'text' in p)) {
+        return prompt.map(p => (p as { text: string }).text).join('\n\n');
+    }
+
+    return prompt.map(part => {
+        if ('text' in part) return { type: 'text', text: part.text };
+
+        const { mimeType } = 'inlineData' in part ? part.inlineData : part.fileData;
+        const url = 'inlineData' in part ? `data:${mimeType};base64,${part.inlineData.data}` : part.fileData.fileUri;
+
+        if (mimeType.startsWith('image/')) return toImagePart(url, format);
+        if (mimeType === 'application/pdf' && format.pdf) {
+            return { type: 'file', file: { filename: 'document.pdf', file_data: url } };
+        }
+        return { type: 'text', text: `[Attachment not supported by this model: ${mimeType}]` };
+    });
+}
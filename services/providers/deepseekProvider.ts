@@ -1,5 +1,6 @@
 import { ModelProvider } from '../../types';
-import { AIProvider, GenerateOptions, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { ChatCompletionResponse, readChatCompletionStream, toTokenUsage } from './streaming';
 
 // ============================================
 // DEEPSEEK PROVIDER (Best reasoning)
@@ -12,11 +13,13 @@ class DeepSeekProvider implements AIProvider {
     displayName = 'DeepSeek V3';
 
     private apiKey: string | null = null;
+    private envKey: string | null = null; // Build-time key; runtime keys from Settings override it
     private defaultModel = 'deepseek-chat';
 
     constructor() {
         // Vite exposes env vars with VITE_ prefix via import.meta.env
-        this.apiKey = (import.meta as any).env?.VITE_DEEPSEEK_API_KEY || null;
+        this.envKey = (import.meta as any).env?.VITE_DEEPSEEK_API_KEY || null;
+        this.apiKey = this.envKey;
         if (this.apiKey && this.apiKey !== '') {
             updateModelAvailability(ModelProvider.DEEPSEEK, true);
         }
@@ -26,6 +29,11 @@ class DeepSeekProvider implements AIProvider {
         return this.apiKey !== null && this.apiKey !== '';
     }
 
+    setCredential(apiKey: string | null): void {
+        this.apiKey = apiKey || this.envKey;
+        updateModelAvailability(ModelProvider.DEEPSEEK, this.isConfigured());
+    }
+
     async checkAvailability(): Promise<boolean> {
         if (!this.apiKey) return false;
 
@@ -48,11 +56,8 @@ class DeepSeekProvider implements AIProvider {
         }
     }
 
-    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('DeepSeek API key not configured. Add VITE_DEEPSEEK_API_KEY to .env.local');
-        }
-
+    // Build the chat completion request body shared by generateText and streamText
+    private buildBody(prompt: string | ContentPart[], options?: GenerateOptions, stream: boolean = false) {
         let textPrompt = '';
         if (typeof prompt === 'string') {
             textPrompt = prompt;
@@ -70,6 +75,25 @@ class DeepSeekProvider implements AIProvider {
         }
         messages.push({ role: 'user', content: textPrompt });
 
+        return {
+            model: options?.model || this.defaultModel,
+            messages,
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            response_format: options?.responseFormat === 'json'
+                ? { type: 'json_object' }
+                : undefined,
+            ...(stream && { stream: true, stream_options: { include_usage: true } })
+        };
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        if (!this.apiKey) {
+            throw new Error('DeepSeek API key not configured. Add VITE_DEEPSEEK_API_KEY to .env.local');
+        }
+
+        const body = this.buildBody(prompt, options);
+
         try {
             const response = await fetch(DEEPSEEK_API_URL, {
                 method: 'POST',
@@ -77,15 +101,8 @@ class DeepSeekProvider implements AIProvider {
                     'Authorization': `Bearer ${this.apiKey}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    model: this.defaultModel,
-                    messages,
-                    temperature: options?.temperature ?? 0.7,
-                    max_tokens: options?.maxTokens ?? 4096,
-                    response_format: options?.responseFormat === 'json'
-                        ? { type: 'json_object' }
-                        : undefined
-                })
+                body: JSON.stringify(body),
+                signal: options?.signal
             });
 
             if (!response.ok) {
@@ -93,13 +110,48 @@ class DeepSeekProvider implements AIProvider {
                 throw new Error(`DeepSeek API error: ${error}`);
             }
 
-            const data = await response.json();
-            return data.choices?.[0]?.message?.content || '';
+            const data: ChatCompletionResponse = await response.json();
+            return {
+                text: data.choices?.[0]?.message?.content || '',
+                modelId: body.model,
+                usage: toTokenUsage(data.usage)
+            };
         } catch (error) {
             console.error('DeepSeek generation error:', error);
             throw error;
         }
     }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        if (!this.apiKey) {
+            throw new Error('DeepSeek API key not configured. Add VITE_DEEPSEEK_API_KEY to .env.local');
+        }
+
+        const body = this.buildBody(prompt, options, true);
+
+        try {
+            const response = await fetch(DEEPSEEK_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(body),
+                signal: options?.signal
+            });
+
+            if (!response.ok) {
+                const error = await response.text();
+                throw new Error(`DeepSeek API error: ${error}`);
+            }
+
+            const usage = yield* readChatCompletionStream(response);
+            return { modelId: body.model, usage };
+        } catch (error) {
+            console.error('DeepSeek streaming error:', error);
+            throw error;
+        }
+    }
 }
 
 // Create and register the provider
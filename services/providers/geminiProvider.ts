@@ -1,43 +1,51 @@
-import { GoogleGenAI } from "@google/genai";
-import { ModelProvider } from '../../types';
-import { AIProvider, GenerateOptions, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { GoogleGenAI, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { ModelProvider, TokenUsage } from '../../types';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
 
 // ============================================
 // GEMINI PROVIDER
 // ============================================
 
+const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+
 class GeminiProvider implements AIProvider {
     name = ModelProvider.GEMINI;
     displayName = 'Google Gemini';
+    embeddingModel = GEMINI_EMBEDDING_MODEL;
 
     private client: GoogleGenAI | null = null;
     private defaultModel = 'gemini-2.5-flash';
+    private envKey: string;
 
     constructor() {
-        this.initClient();
+        // Vite exposes env vars with VITE_ prefix via import.meta.env
+        this.envKey = (import.meta as any).env?.VITE_API_KEY || '';
+        this.initClient(this.envKey);
     }
 
-    private initClient(): void {
+    private initClient(apiKey: string): void {
+        this.client = null;
         try {
-            // Vite exposes env vars with VITE_ prefix via import.meta.env
-            const apiKey = (import.meta as any).env?.VITE_API_KEY || '';
             if (apiKey && apiKey !== '' && !apiKey.includes('your_')) {
                 this.client = new GoogleGenAI({ apiKey });
-                updateModelAvailability(ModelProvider.GEMINI, true);
                 console.log('[Gemini] Provider initialized');
             } else {
                 console.log('[Gemini] No API key configured');
             }
         } catch (error) {
             console.error('[Gemini] Failed to initialize:', error);
-            this.client = null;
         }
+        updateModelAvailability(ModelProvider.GEMINI, this.client !== null);
     }
 
     isConfigured(): boolean {
         return this.client !== null;
     }
 
+    setCredential(apiKey: string | null): void {
+        this.initClient(apiKey || this.envKey);
+    }
+
     async checkAvailability(): Promise<boolean> {
         if (!this.client) return false;
 
@@ -54,75 +62,106 @@ class GeminiProvider implements AIProvider {
         }
     }
 
-    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string> {
-        if (!this.client) {
-            throw new Error('Gemini client not initialized. Check VITE_API_KEY in .env.local');
+    // Build the shared request payload for generateContent / generateContentStream
+    private buildRequest(prompt: string | ContentPart[], options?: GenerateOptions) {
+        let contents: any;
+
+        if (typeof prompt === 'string') {
+            contents = prompt;
+        } else {
+            // Map ContentPart[] to Gemini Part[]
+            contents = [{
+                role: 'user',
+                parts: prompt.map(p => {
+                    if ('text' in p) return { text: p.text };
+                    if ('inlineData' in p) return { inlineData: p.inlineData };
+                    // fileData not supported directly in this simplified flow yet, 
+                    // but logic would go here if using File API
+                    return { text: '' };
+                })
+            }];
         }
 
-        try {
-            let contents: any;
-
-            if (typeof prompt === 'string') {
-                contents = prompt;
-            } else {
-                // Map ContentPart[] to Gemini Part[]
-                contents = [{
-                    role: 'user',
-                    parts: prompt.map(p => {
-                        if ('text' in p) return { text: p.text };
-                        if ('inlineData' in p) return { inlineData: p.inlineData };
-                        // fileData not supported directly in this simplified flow yet, 
-                        // but logic would go here if using File API
-                        return { text: '' };
-                    })
-                }];
+        return {
+            model: options?.model || this.defaultModel,
+            contents: contents,
+            config: {
+                systemInstruction: options?.systemPrompt,
+                temperature: options?.temperature,
+                maxOutputTokens: options?.maxTokens,
+                responseMimeType: options?.responseFormat === 'json' ? 'application/json' : undefined,
+                abortSignal: options?.signal
             }
+        };
+    }
 
-            const response = await this.client.models.generateContent({
-                model: this.defaultModel,
-                contents: contents,
-                config: {
-                    systemInstruction: options?.systemPrompt,
-                    temperature: options?.temperature,
-                    maxOutputTokens: options?.maxTokens,
-                    responseMimeType: options?.responseFormat === 'json' ? 'application/json' : undefined
-                }
-            });
+    private toUsage(metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+        if (!metadata || metadata.promptTokenCount === undefined) return undefined;
+        return {
+            promptTokens: metadata.promptTokenCount,
+            completionTokens: metadata.candidatesTokenCount ?? 0
+        };
+    }
 
-            return response.text || '';
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        if (!this.client) {
+            throw new Error('Gemini client not initialized. Check VITE_API_KEY in .env.local');
+        }
+
+        const request = this.buildRequest(prompt, options);
+
+        try {
+            const response = await this.client.models.generateContent(request);
+            return {
+                text: response.text || '',
+                modelId: request.model,
+                usage: this.toUsage(response.usageMetadata)
+            };
         } catch (error) {
             console.error('Gemini generation error:', error);
             throw error;
         }
     }
 
-    // Special method for image generation (Gemini-specific)
-    async generateImage(prompt: string): Promise<string | null> {
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
         if (!this.client) {
-            throw new Error('Gemini client not initialized');
+            throw new Error('Gemini client not initialized. Check VITE_API_KEY in .env.local');
         }
 
-        try {
-            const response = await this.client.models.generateContent({
-                model: 'gemini-2.5-flash-preview-image-generation',
-                contents: prompt,
-                config: { responseMimeType: 'image/jpeg' }
-            });
+        const request = this.buildRequest(prompt, options);
 
-            const candidates = response.candidates;
-            if (candidates && candidates.length > 0) {
-                for (const part of candidates[0].content.parts) {
-                    if (part.inlineData) {
-                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    }
-                }
+        try {
+            const stream = await this.client.models.generateContentStream(request);
+            // Usage metadata is cumulative; the last chunk carries the totals
+            let usage: TokenUsage | undefined;
+            for await (const chunk of stream) {
+                usage = this.toUsage(chunk.usageMetadata) || usage;
+                if (chunk.text) yield chunk.text;
             }
-            return null;
+            return { modelId: request.model, usage };
         } catch (error) {
-            console.error('Gemini image generation error:', error);
+            console.error('Gemini streaming error:', error);
             throw error;
         }
     }
+
+    // Embeddings for retrieval (one vector per text)
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+        if (!this.client) {
+            throw new Error('Gemini client not initialized. Check VITE_API_KEY in .env.local');
+        }
+
+        const response = await this.client.models.embedContent({
+            model: GEMINI_EMBEDDING_MODEL,
+            contents: texts,
+            config: { outputDimensionality: 768, abortSignal: signal }
+        });
+        const vectors = (response.embeddings || []).map(e => e.values || []);
+        if (vectors.length !== texts.length) {
+            throw new Error(`Gemini returned ${vectors.length} embeddings for ${texts.length} texts`);
+        }
+        return vectors;
+    }
 }
 
 // Create and register the provider
@@ -1,5 +1,5 @@
 import { ModelProvider } from '../../types';
-import { AIProvider, GenerateOptions, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { AIProvider, GenerateOptions, GenerationResult, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
 
 // ============================================
 // HUGGINGFACE PROVIDER (Free Inference API)
@@ -11,20 +11,22 @@ const HF_API_URL = 'https://api-inference.huggingface.co/models';
 const HF_MODELS = {
     text: 'mistralai/Mistral-7B-Instruct-v0.3',
     textAlt: 'meta-llama/Llama-3.2-3B-Instruct',
-    image: 'stabilityai/stable-diffusion-xl-base-1.0',
     embedding: 'sentence-transformers/all-MiniLM-L6-v2'
 };
 
 class HuggingFaceProvider implements AIProvider {
     name = ModelProvider.HUGGINGFACE;
     displayName = 'HuggingFace (Free)';
+    embeddingModel = HF_MODELS.embedding;
 
     private apiKey: string | null = null;
+    private envKey: string | null = null; // Build-time key; runtime keys from Settings override it
     private defaultModel = HF_MODELS.text;
 
     constructor() {
         // Vite exposes env vars with VITE_ prefix via import.meta.env
-        this.apiKey = (import.meta as any).env?.VITE_HUGGINGFACE_API_KEY || null;
+        this.envKey = (import.meta as any).env?.VITE_HUGGINGFACE_API_KEY || null;
+        this.apiKey = this.envKey;
         if (this.apiKey) {
             updateModelAvailability(ModelProvider.HUGGINGFACE, true);
         }
@@ -34,6 +36,11 @@ class HuggingFaceProvider implements AIProvider {
         return this.apiKey !== null && this.apiKey !== '' && this.apiKey !== 'your_huggingface_api_key_here';
     }
 
+    setCredential(apiKey: string | null): void {
+        this.apiKey = apiKey || this.envKey;
+        updateModelAvailability(ModelProvider.HUGGINGFACE, this.isConfigured());
+    }
+
     async checkAvailability(): Promise<boolean> {
         if (!this.isConfigured()) return false;
 
@@ -55,7 +62,8 @@ class HuggingFaceProvider implements AIProvider {
         }
     }
 
-    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string> {
+    // The Inference API reports no token usage; callers estimate it from the text
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
         if (!this.isConfigured()) {
             throw new Error('HuggingFace API key not configured. Add VITE_HUGGINGFACE_API_KEY to .env.local');
         }
@@ -75,8 +83,10 @@ class HuggingFaceProvider implements AIProvider {
             ? `<s>[INST] ${options.systemPrompt}\n\n${textPrompt} [/INST]`
             : `<s>[INST] ${textPrompt} [/INST]`;
 
+        const model = options?.model || this.defaultModel;
+
         try {
-            const response = await fetch(`${HF_API_URL}/${this.defaultModel}`, {
+            const response = await fetch(`${HF_API_URL}/${model}`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
@@ -90,7 +100,8 @@ class HuggingFaceProvider implements AIProvider {
                         return_full_text: false,
                         do_sample: true
                     }
-                })
+                }),
+                signal: options?.signal
             });
 
             if (!response.ok) {
@@ -109,88 +120,42 @@ class HuggingFaceProvider implements AIProvider {
             const data = await response.json();
 
             // Handle different response formats
-            if (Array.isArray(data)) {
-                return data[0]?.generated_text || '';
-            }
-            return data.generated_text || JSON.stringify(data);
+            const text = Array.isArray(data)
+                ? data[0]?.generated_text || ''
+                : data.generated_text || JSON.stringify(data);
+            return { text, modelId: model };
         } catch (error) {
             console.error('HuggingFace generation error:', error);
             throw error;
         }
     }
 
-    // Generate image using Stable Diffusion
-    async generateImage(prompt: string): Promise<string> {
-        if (!this.isConfigured()) {
-            throw new Error('HuggingFace API key not configured');
-        }
-
-        try {
-            const response = await fetch(`${HF_API_URL}/${HF_MODELS.image}`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    inputs: prompt
-                })
-            });
-
-            if (!response.ok) {
-                if (response.status === 503) {
-                    console.log('HuggingFace image model is loading, retrying...');
-                    await new Promise(resolve => setTimeout(resolve, 10000));
-                    return this.generateImage(prompt);
-                }
-                throw new Error(`HuggingFace image error: ${await response.text()}`);
-            }
-
-            // Convert blob to base64
-            const blob = await response.blob();
-            return new Promise((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result as string);
-                reader.onerror = reject;
-                reader.readAsDataURL(blob);
-            });
-        } catch (error) {
-            console.error('HuggingFace image generation error:', error);
-            throw error;
-        }
-    }
-
-    // Generate embeddings for RAG
-    async generateEmbedding(text: string): Promise<number[]> {
+    // Sentence embeddings for retrieval (one vector per text)
+    async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
         if (!this.isConfigured()) {
             throw new Error('HuggingFace API key not configured');
         }
 
-        try {
+        for (let attempt = 0; ; attempt++) {
             const response = await fetch(`${HF_API_URL}/${HF_MODELS.embedding}`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    inputs: text
-                })
+                body: JSON.stringify({ inputs: texts }),
+                signal
             });
 
+            // 503 while the model is loading on a cold free-tier worker
+            if (response.status === 503 && attempt < 2) {
+                await new Promise(resolve => setTimeout(resolve, 5000));
+                continue;
+            }
             if (!response.ok) {
-                if (response.status === 503) {
-                    await new Promise(resolve => setTimeout(resolve, 5000));
-                    return this.generateEmbedding(text);
-                }
                 throw new Error(`HuggingFace embedding error: ${await response.text()}`);
             }
-
-            const data = await response.json();
-            return data;
-        } catch (error) {
-            console.error('HuggingFace embedding error:', error);
-            throw error;
+            return response.json();
         }
     }
 }
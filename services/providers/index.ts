@@ -7,6 +7,7 @@ import './deepseekProvider';
 import './mistralProvider';
 import './huggingfaceProvider';
 import './openrouterProvider';
+import './localProvider';
 
 export { geminiProvider } from './geminiProvider';
 export { groqProvider } from './groqProvider';
@@ -14,13 +15,15 @@ export { deepseekProvider } from './deepseekProvider';
 export { mistralProvider } from './mistralProvider';
 export { huggingFaceProvider } from './huggingfaceProvider';
 export { openRouterProvider } from './openrouterProvider';
+export { localProvider } from './localProvider';
 
 // Re-export registry functions
 export {
     getProvider,
     getAvailableProviders,
     selectBestModel,
-    generateWithBestModel,
+    selectModelForTask,
     getAllModels,
     getModelsByProvider
 } from '../modelRegistry';
+export { routeGenerate, setPreferredModel } from '../providerRouter';
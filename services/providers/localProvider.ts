@@ -0,0 +1,177 @@
+import { ModelProvider, ModelConfig } from '../../types';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, registerProvider, registerModels, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { ChatCompletionResponse, readChatCompletionStream, toTokenUsage } from './streaming';
+import { ChatContent, toChatContent } from './chatContent';
+
+// ============================================
+// LOCAL PROVIDER (OpenAI-compatible server)
+// Ollama, llama.cpp server, LM Studio, vLLM... anything that
+// serves /chat/completions and /models. Runs offline and free.
+// ============================================
+
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+const parseModelList = (value: string | undefined): string[] =>
+    (value || '').split(',').map(m => m.trim()).filter(Boolean);
+
+// Local models are free; strengths stay generic so task selection keeps the configured order
+const toModelConfig = (modelId: string): ModelConfig => ({
+    provider: ModelProvider.LOCAL,
+    modelId,
+    displayName: `${modelId} (Local)`,
+    description: 'Runs on your machine; manuscripts never leave it',
+    strengths: ['local', 'private', 'general'],
+    isAvailable: true,
+    pricing: { input: 0, output: 0 }
+});
+
+class LocalProvider implements AIProvider {
+    name = ModelProvider.LOCAL;
+    displayName = 'Local (OpenAI-compatible)';
+
+    private baseUrl: string | null = null;
+    private apiKey: string | null = null; // Most local servers ignore it; some proxies require one
+    private models: string[] = [];
+    private envUrl: string | null = null;
+
+    constructor() {
+        // Vite exposes env vars with VITE_ prefix via import.meta.env
+        const env = (import.meta as any).env;
+        this.envUrl = env?.VITE_LOCAL_LLM_URL || null;
+        this.configure(this.envUrl, parseModelList(env?.VITE_LOCAL_LLM_MODELS), env?.VITE_LOCAL_LLM_API_KEY || null);
+        if (this.isConfigured() && this.models.length === 0) {
+            void this.checkAvailability();
+        }
+    }
+
+    /** Point the provider at a server (e.g. http://localhost:11434/v1) and set its model list */
+    configure(baseUrl: string | null, models: string[] = [], apiKey: string | null = this.apiKey): void {
+        this.baseUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+        this.apiKey = apiKey;
+        this.models = models;
+        registerModels(ModelProvider.LOCAL, models.map(toModelConfig));
+        updateModelAvailability(ModelProvider.LOCAL, this.isConfigured());
+    }
+
+    isConfigured(): boolean {
+        return this.baseUrl !== null && this.baseUrl !== '';
+    }
+
+    // The Settings credential for a local server is its URL; the model list is rediscovered
+    setCredential(baseUrl: string | null): void {
+        const url = baseUrl || this.envUrl;
+        if (url === this.baseUrl) return;
+        this.configure(url, url === this.envUrl ? parseModelList((import.meta as any).env?.VITE_LOCAL_LLM_MODELS) : []);
+    }
+
+    private get defaultModel(): string {
+        return this.models[0] || DEFAULT_LOCAL_MODEL;
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+        };
+    }
+
+    /**
+     * Ping the server's model list. When no models were configured, the ones it serves are
+     * adopted so they show up in the ModelSelector.
+     */
+    async checkAvailability(): Promise<boolean> {
+        if (!this.isConfigured()) return false;
+
+        try {
+            const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+            if (!response.ok) return false;
+
+            if (this.models.length === 0) {
+                const data = await response.json();
+                const served = (data.data || []).map((m: { id: string }) => m.id).filter(Boolean);
+                if (served.length > 0) {
+                    console.log(`[Local] Discovered models: ${served.join(', ')}`);
+                    this.configure(this.baseUrl, served);
+                }
+            }
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // Build the chat completion request body shared by generateText and streamText
+    private buildBody(prompt: string | ContentPart[], options?: GenerateOptions, stream: boolean = false) {
+        const messages: Array<{ role: string; content: ChatContent }> = [];
+
+        if (options?.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: toChatContent(prompt) });
+
+        return {
+            model: options?.model || this.defaultModel,
+            messages,
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            ...(options?.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+            ...(stream && { stream: true, stream_options: { include_usage: true } })
+        };
+    }
+
+    private async post(body: object, signal?: AbortSignal): Promise<Response> {
+        if (!this.isConfigured()) {
+            throw new Error('Local model server not configured. Set the Local Server URL in Settings or add VITE_LOCAL_LLM_URL to .env.local');
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            signal
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Local model server error (${response.status}): ${error}`);
+        }
+        return response;
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        const body = this.buildBody(prompt, options);
+
+        try {
+            const response = await this.post(body, options?.signal);
+            const data: ChatCompletionResponse = await response.json();
+            return {
+                text: data.choices?.[0]?.message?.content || '',
+                modelId: body.model,
+                usage: toTokenUsage(data.usage)
+            };
+        } catch (error) {
+            console.error('Local generation error:', error);
+            throw error;
+        }
+    }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        const body = this.buildBody(prompt, options, true);
+
+        try {
+            const response = await this.post(body, options?.signal);
+            const usage = yield* readChatCompletionStream(response);
+            return { modelId: body.model, usage };
+        } catch (error) {
+            console.error('Local streaming error:', error);
+            throw error;
+        }
+    }
+}
+
+// Create and register the provider
+const localProvider = new LocalProvider();
+registerProvider(localProvider);
+
+export { localProvider };
+export default LocalProvider;
@@ -1,5 +1,7 @@
 import { ModelProvider } from '../../types';
-import { AIProvider, GenerateOptions, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { ChatCompletionResponse, readChatCompletionStream, toTokenUsage } from './streaming';
+import { ChatContent, toChatContent } from './chatContent';
 
 // ============================================
 // MISTRAL PROVIDER (Quality prose)
@@ -12,11 +14,13 @@ class MistralProvider implements AIProvider {
     displayName = 'Mistral Large';
 
     private apiKey: string | null = null;
+    private envKey: string | null = null; // Build-time key; runtime keys from Settings override it
     private defaultModel = 'mistral-large-latest';
 
     constructor() {
         // Vite exposes env vars with VITE_ prefix via import.meta.env
-        this.apiKey = (import.meta as any).env?.VITE_MISTRAL_API_KEY || null;
+        this.envKey = (import.meta as any).env?.VITE_MISTRAL_API_KEY || null;
+        this.apiKey = this.envKey;
         if (this.apiKey && this.apiKey !== '') {
             updateModelAvailability(ModelProvider.MISTRAL, true);
         }
@@ -26,6 +30,11 @@ class MistralProvider implements AIProvider {
         return this.apiKey !== null && this.apiKey !== '';
     }
 
+    setCredential(apiKey: string | null): void {
+        this.apiKey = apiKey || this.envKey;
+        updateModelAvailability(ModelProvider.MISTRAL, this.isConfigured());
+    }
+
     async checkAvailability(): Promise<boolean> {
         if (!this.apiKey) return false;
 
@@ -48,28 +57,68 @@ class MistralProvider implements AIProvider {
         }
     }
 
-    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string> {
+    // Build the chat completion request body shared by generateText and streamText
+    private buildBody(prompt: string | ContentPart[], options?: GenerateOptions, stream: boolean = false) {
+        const messages: Array<{ role: string; content: ChatContent }> = [];
+
+        if (options?.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+        messages.push({ role: 'user', content: toChatContent(prompt, { imageUrlAsString: true }) });
+
+        return {
+            model: options?.model || this.defaultModel,
+            messages,
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            response_format: options?.responseFormat === 'json'
+                ? { type: 'json_object' }
+                : undefined,
+            ...(stream && { stream: true })
+        };
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
         if (!this.apiKey) {
             throw new Error('Mistral API key not configured. Add VITE_MISTRAL_API_KEY to .env.local');
         }
 
-        let textPrompt = '';
-        if (typeof prompt === 'string') {
-            textPrompt = prompt;
-        } else {
-            // Mistral is text-only (mostly), so we extract text parts
-            textPrompt = prompt
-                .filter(p => 'text' in p)
-                .map(p => (p as any).text)
-                .join('\n\n');
-        }
+        const body = this.buildBody(prompt, options);
 
-        const messages: Array<{ role: string; content: string }> = [];
+        try {
+            const response = await fetch(MISTRAL_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(body),
+                signal: options?.signal
+            });
 
-        if (options?.systemPrompt) {
-            messages.push({ role: 'system', content: options.systemPrompt });
+            if (!response.ok) {
+                const error = await response.text();
+                throw new Error(`Mistral API error: ${error}`);
+            }
+
+            const data: ChatCompletionResponse = await response.json();
+            return {
+                text: data.choices?.[0]?.message?.content || '',
+                modelId: body.model,
+                usage: toTokenUsage(data.usage)
+            };
+        } catch (error) {
+            console.error('Mistral generation error:', error);
+            throw error;
+        }
+    }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        if (!this.apiKey) {
+            throw new Error('Mistral API key not configured. Add VITE_MISTRAL_API_KEY to .env.local');
         }
-        messages.push({ role: 'user', content: textPrompt });
+
+        const body = this.buildBody(prompt, options, true);
 
         try {
             const response = await fetch(MISTRAL_API_URL, {
@@ -78,15 +127,8 @@ class MistralProvider implements AIProvider {
                     'Authorization': `Bearer ${this.apiKey}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    model: this.defaultModel,
-                    messages,
-                    temperature: options?.temperature ?? 0.7,
-                    max_tokens: options?.maxTokens ?? 4096,
-                    response_format: options?.responseFormat === 'json'
-                        ? { type: 'json_object' }
-                        : undefined
-                })
+                body: JSON.stringify(body),
+                signal: options?.signal
             });
 
             if (!response.ok) {
@@ -94,10 +136,10 @@ class MistralProvider implements AIProvider {
                 throw new Error(`Mistral API error: ${error}`);
             }
 
-            const data = await response.json();
-            return data.choices?.[0]?.message?.content || '';
+            const usage = yield* readChatCompletionStream(response);
+            return { modelId: body.model, usage };
         } catch (error) {
-            console.error('Mistral generation error:', error);
+            console.error('Mistral streaming error:', error);
             throw error;
         }
     }
@@ -0,0 +1,306 @@
+import { ModelProvider } from '../../types';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, ContentPart, replaceProviders } from '../modelRegistry';
+import { resetCircuits } from '../providerRouter';
+import { estimateTokens } from '../usageTracker';
+
+// ============================================
+// MOCK PROVIDER
+// Deterministic, scripted responses for exercising the agent
+// workflow, synthesis, KDP and social generators without API keys.
+// Not registered at startup: install it with installMockProvider().
+// ============================================
+
+export interface MockRequest {
+    prompt: string; // Text parts joined; inline data appears as a [mime] placeholder
+    systemPrompt: string;
+    options?: GenerateOptions;
+}
+
+export interface MockRule {
+    name: string;
+    // A regex is tested against the system prompt and prompt together
+    match: RegExp | ((request: MockRequest) => boolean);
+    // Throw from a function to simulate a provider failure
+    respond: string | ((request: MockRequest) => string);
+    times?: number; // Stop matching after this many uses (e.g. fail once, then succeed)
+}
+
+export interface MockCall extends MockRequest {
+    rule: string; // Name of the rule that answered ('fallback' when none matched)
+    text: string;
+}
+
+export interface MockProviderOptions {
+    as?: ModelProvider; // Provider slot to occupy (default LOCAL, which every text task can route to)
+    modelId?: string;
+    rules?: MockRule[]; // Checked before the built-in role rules
+    chapters?: number; // Tasks in the Architect's plan (default 2)
+    criticRejections?: number; // Critic rejects this many drafts before approving (default 0)
+    consistencyIssues?: string[]; // Non-empty makes the Consistency Checker fail with these issues
+    chunkSize?: number; // Characters per streamed chunk (default 64)
+}
+
+const DEFAULT_MOCK_MODEL = 'mock-model';
+const DEFAULT_CHUNK_SIZE = 64;
+const FALLBACK_TEXT = 'Mock response.';
+
+const promptToText = (prompt: string | ContentPart[]): string =>
+    typeof prompt === 'string'
+        ? prompt
+        : prompt.map(p => {
+            if ('text' in p) return p.text;
+            if ('inlineData' in p) return `[${p.inlineData.mimeType}]`;
+            return `[${p.fileData.mimeType}: ${p.fileData.fileUri}]`;
+        }).join('');
+
+const json = (value: unknown): string => JSON.stringify(value);
+
+// First capture of a pattern in the prompt, or a fallback
+const captured = (text: string, pattern: RegExp, fallback: string): string =>
+    text.match(pattern)?.[1]?.trim() || fallback;
+
+// ============================================
+// ROLE RULES
+// Matched on the markers in each agent's system prompt or request
+// ============================================
+
+const buildRoleRules = (options: MockProviderOptions, state: { reviews: number }): MockRule[] => {
+    const chapters = options.chapters ?? 2;
+
+    return [
+        {
+            name: 'architect',
+            match: /You are the Architect Agent/,
+            respond: () => json({
+                tasks: Array.from({ length: chapters }, (_, i) => ({
+                    role: 'WRITER',
+                    description: `Write Chapter ${i + 1}: Mock Chapter ${i + 1}`,
+                    context_script: `Advance the plot in chapter ${i + 1}.`,
+                    title: `Chapter ${i + 1}`
+                }))
+            })
+        },
+        {
+            name: 'visionary',
+            match: /You are the Visionary Agent/,
+            respond: json({
+                style_guide: 'Mock style guide: clear, vivid prose.',
+                sensory_palette: 'Mock palette: grey rain, warm lamplight, the smell of ink.'
+            })
+        },
+        {
+            name: 'writer',
+            match: /You are the Writer Agent/,
+            respond: ({ prompt }) => {
+                const task = captured(prompt, /^Task: (.*)$/m, 'the task');
+                const revision = /REVISION FEEDBACK:/.test(prompt) ? ' (revised)' : '';
+                return json({
+                    content: `Mock draft for ${task}${revision}.\n\nThe second paragraph moves the story forward.\n\nThe third paragraph closes the scene.`,
+                    helper_script: 'Mock pacing notes.'
+                });
+            }
+        },
+        {
+            name: 'editor',
+            match: /You are an Expert Editor/,
+            respond: ({ prompt }) => json({
+                content: `${captured(prompt, /Original Content:\n([\s\S]*?)\n\nAction:/, 'Mock content')} (edited)`,
+                changes: `Mock ${captured(prompt, /^Action: (\S+)/m, 'rewrite')} applied.`
+            })
+        },
+        {
+            name: 'critic',
+            match: /You are a Literary Critic/,
+            respond: () => {
+                const approved = state.reviews++ >= (options.criticRejections ?? 0);
+                return json({
+                    approved,
+                    critique: approved ? 'Mock critique: ready.' : 'Mock critique: tighten the opening and raise the stakes.'
+                });
+            }
+        },
+        {
+            name: 'consistency',
+            match: /You are a Continuity Editor/,
+            respond: () => {
+                const issues = options.consistencyIssues || [];
+                return json({ status: issues.length > 0 ? 'fail' : 'pass', issues });
+            }
+        },
+        {
+            name: 'summarizer',
+            match: /You are the Continuity Archivist/,
+            respond: json({
+                summary: 'Mock summary of the chapter.',
+                open_threads: ['Mock open thread'],
+                character_states: [{ name: 'Mock Protagonist', state: 'Determined' }]
+            })
+        },
+        {
+            name: 'synthesis',
+            match: /You are an expert content synthesizer/,
+            respond: json({
+                themes: ['Mock theme'],
+                keyIdeas: ['Mock key idea'],
+                suggestedStructure: {
+                    title: 'Mock Book',
+                    chapters: Array.from({ length: chapters }, (_, i) => ({
+                        number: i + 1,
+                        title: `Mock Chapter ${i + 1}`,
+                        summary: `Mock summary of chapter ${i + 1}.`,
+                        keyPoints: ['Mock point']
+                    })),
+                    estimatedWordCount: chapters * 3000,
+                    genre: 'Mock Genre',
+                    tone: 'Mock Tone'
+                },
+                characters: [{ name: 'Mock Protagonist', role: 'protagonist', description: 'A mock hero.', traits: ['brave'] }],
+                locations: [{ name: 'Mock City', description: 'A mock city.', sensoryDetails: 'Rain on cobblestones.' }],
+                items: [{ name: 'Mock Key', description: 'Opens a mock door.', usage: 'Plot device' }],
+                guidelines: ['Mock guideline'],
+                contextSummary: 'Mock synthesis of the inputs.'
+            })
+        },
+        {
+            name: 'kdp-keywords',
+            match: /Amazon KDP keywords/,
+            respond: json(Array.from({ length: 7 }, (_, i) => `mock keyword ${i + 1}`))
+        },
+        {
+            name: 'kdp-blurb',
+            match: /Amazon book description \(blurb\)/,
+            respond: '<b>Mock blurb.</b><br>One hook, no spoilers. Read it today.'
+        },
+        {
+            name: 'kdp-categories',
+            match: /BISAC categories/,
+            // Echo the first two categories offered so the answer is always valid
+            respond: ({ prompt }) => {
+                const offered = captured(prompt, /Available categories:\n([\s\S]*?)\n\n/, '').split('\n').filter(Boolean);
+                return json(offered.length >= 2 ? offered.slice(0, 2) : ['FICTION / General', 'FICTION / Literary']);
+            }
+        },
+        {
+            name: 'social-hashtags',
+            match: /hashtags for promoting/,
+            respond: ({ prompt }) => {
+                const count = Number(captured(prompt, /Generate (\d+) hashtags/, '3'));
+                return json(Array.from({ length: count }, (_, i) => `mocktag${i + 1}`));
+            }
+        },
+        {
+            name: 'social-thread',
+            match: /-tweet Twitter thread/,
+            respond: ({ prompt }) => {
+                const count = Number(captured(prompt, /Write a (\d+)-tweet/, '5'));
+                return json(Array.from({ length: count }, (_, i) => `Mock tweet ${i + 1}.`));
+            }
+        },
+        {
+            name: 'social-image-prompt',
+            match: /image generation prompt/,
+            respond: 'A moody mock illustration of a rain-soaked city at dusk.'
+        },
+        {
+            name: 'social-post',
+            match: /Write ONLY the post content/,
+            respond: 'Mock post: the book is out now. Grab your copy!'
+        }
+    ];
+};
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export class MockProvider implements AIProvider {
+    name: ModelProvider;
+    displayName = 'Mock (Deterministic)';
+
+    /** Every request answered, in order */
+    readonly calls: MockCall[] = [];
+
+    private modelId: string;
+    private chunkSize: number;
+    private rules: MockRule[];
+    private uses = new Map<MockRule, number>();
+
+    constructor(private options: MockProviderOptions = {}) {
+        this.name = options.as ?? ModelProvider.LOCAL;
+        this.modelId = options.modelId ?? DEFAULT_MOCK_MODEL;
+        this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+        this.rules = [...(options.rules || []), ...buildRoleRules(options, { reviews: 0 })];
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async checkAvailability(): Promise<boolean> {
+        return true;
+    }
+
+    /** Calls answered by a given rule, e.g. callsFor('critic') */
+    callsFor(rule: string): MockCall[] {
+        return this.calls.filter(c => c.rule === rule);
+    }
+
+    private answer(prompt: string | ContentPart[], options?: GenerateOptions): GenerationResult {
+        options?.signal?.throwIfAborted();
+
+        const request: MockRequest = { prompt: promptToText(prompt), systemPrompt: options?.systemPrompt || '', options };
+        const rule = this.rules.find(r => {
+            if (r.times !== undefined && (this.uses.get(r) || 0) >= r.times) return false;
+            return r.match instanceof RegExp
+                ? r.match.test(`${request.systemPrompt}\n${request.prompt}`)
+                : r.match(request);
+        });
+        if (rule) this.uses.set(rule, (this.uses.get(rule) || 0) + 1);
+
+        const text = !rule
+            ? FALLBACK_TEXT
+            : typeof rule.respond === 'string' ? rule.respond : rule.respond(request);
+        this.calls.push({ ...request, rule: rule?.name || 'fallback', text });
+
+        return {
+            text,
+            modelId: options?.model || this.modelId,
+            usage: {
+                promptTokens: estimateTokens(`${request.systemPrompt}${request.prompt}`),
+                completionTokens: estimateTokens(text)
+            }
+        };
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        return this.answer(prompt, options);
+    }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        const { text, ...summary } = this.answer(prompt, options);
+        for (let i = 0; i < text.length; i += this.chunkSize) {
+            options?.signal?.throwIfAborted();
+            yield text.slice(i, i + this.chunkSize);
+        }
+        return summary;
+    }
+}
+
+/**
+ * Replace every registered provider with a mock, so routed calls never reach a live API.
+ * Call the returned function to restore the real providers.
+ */
+export function installMockProvider(options: MockProviderOptions = {}): { provider: MockProvider; restore: () => void } {
+    const provider = new MockProvider(options);
+    const restoreProviders = replaceProviders([provider]);
+    resetCircuits();
+    return {
+        provider,
+        restore: () => {
+            restoreProviders();
+            resetCircuits();
+        }
+    };
+}
+
+export default MockProvider;
@@ -1,5 +1,7 @@
 import { ModelProvider } from '../../types';
-import { AIProvider, GenerateOptions, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, registerProvider, updateModelAvailability, ContentPart } from '../modelRegistry';
+import { ChatCompletionResponse, readChatCompletionStream, toTokenUsage } from './streaming';
+import { ChatContent, toChatContent } from './chatContent';
 
 // ============================================
 // OPENROUTER PROVIDER
@@ -37,13 +39,15 @@ class OpenRouterProvider implements AIProvider {
     displayName = 'OpenRouter (Multi-Model)';
 
     private apiKey: string | null = null;
+    private envKey: string | null = null; // Build-time key; runtime keys from Settings override it
     private defaultModel = OPENROUTER_MODELS.free.mistral7b;
     private siteUrl = 'https://vibe-creation-studio.app';
     private siteName = 'Vibe Creation Studio';
 
     constructor() {
         // Vite exposes env vars with VITE_ prefix
-        this.apiKey = (import.meta as any).env?.VITE_OPENROUTER_API_KEY || null;
+        this.envKey = (import.meta as any).env?.VITE_OPENROUTER_API_KEY || null;
+        this.apiKey = this.envKey;
         if (this.apiKey && this.apiKey !== '') {
             updateModelAvailability(ModelProvider.OPENROUTER, true);
         }
@@ -53,6 +57,11 @@ class OpenRouterProvider implements AIProvider {
         return this.apiKey !== null && this.apiKey !== '' && !this.apiKey.includes('your_');
     }
 
+    setCredential(apiKey: string | null): void {
+        this.apiKey = apiKey || this.envKey;
+        updateModelAvailability(ModelProvider.OPENROUTER, this.isConfigured());
+    }
+
     async checkAvailability(): Promise<boolean> {
         if (!this.isConfigured()) return false;
 
@@ -77,28 +86,71 @@ class OpenRouterProvider implements AIProvider {
         }
     }
 
-    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<string> {
+    // Build the chat completion request body shared by generateText and streamText
+    private buildBody(prompt: string | ContentPart[], options?: GenerateOptions, stream: boolean = false) {
+        const messages: Array<{ role: string; content: ChatContent }> = [];
+
+        if (options?.systemPrompt) {
+            messages.push({ role: 'system', content: options.systemPrompt });
+        }
+
+        messages.push({ role: 'user', content: toChatContent(prompt, { pdf: true }) });
+
+        return {
+            model: options?.model || this.defaultModel,
+            messages,
+            max_tokens: options?.maxTokens ?? 2048,
+            temperature: options?.temperature ?? 0.7,
+            ...(options?.responseFormat === 'json' && {
+                response_format: { type: 'json_object' }
+            }),
+            ...(stream && { stream: true, stream_options: { include_usage: true } })
+        };
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
         if (!this.isConfigured()) {
             throw new Error('OpenRouter API key not configured. Add VITE_OPENROUTER_API_KEY to .env.local');
         }
 
-        let textPrompt = '';
-        if (typeof prompt === 'string') {
-            textPrompt = prompt;
-        } else {
-            textPrompt = prompt
-                .filter(p => 'text' in p)
-                .map(p => (p as any).text)
-                .join('\n\n');
-        }
+        const body = this.buildBody(prompt, options);
 
-        const messages: Array<{ role: string; content: string }> = [];
+        try {
+            const response = await fetch(OPENROUTER_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json',
+                    'HTTP-Referer': this.siteUrl,
+                    'X-Title': this.siteName
+                },
+                body: JSON.stringify(body),
+                signal: options?.signal
+            });
 
-        if (options?.systemPrompt) {
-            messages.push({ role: 'system', content: options.systemPrompt });
+            if (!response.ok) {
+                const error = await response.json();
+                throw new Error(`OpenRouter API error: ${error.error?.message || JSON.stringify(error)}`);
+            }
+
+            const data: ChatCompletionResponse = await response.json();
+            return {
+                text: data.choices?.[0]?.message?.content || '',
+                modelId: body.model,
+                usage: toTokenUsage(data.usage)
+            };
+        } catch (error) {
+            console.error('OpenRouter generation error:', error);
+            throw error;
+        }
+    }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        if (!this.isConfigured()) {
+            throw new Error('OpenRouter API key not configured. Add VITE_OPENROUTER_API_KEY to .env.local');
         }
 
-        messages.push({ role: 'user', content: textPrompt });
+        const body = this.buildBody(prompt, options, true);
 
         try {
             const response = await fetch(OPENROUTER_API_URL, {
@@ -109,15 +161,8 @@ class OpenRouterProvider implements AIProvider {
                     'HTTP-Referer': this.siteUrl,
                     'X-Title': this.siteName
                 },
-                body: JSON.stringify({
-                    model: this.defaultModel,
-                    messages,
-                    max_tokens: options?.maxTokens ?? 2048,
-                    temperature: options?.temperature ?? 0.7,
-                    ...(options?.responseFormat === 'json' && {
-                        response_format: { type: 'json_object' }
-                    })
-                })
+                body: JSON.stringify(body),
+                signal: options?.signal
             });
 
             if (!response.ok) {
@@ -125,10 +170,10 @@ class OpenRouterProvider implements AIProvider {
                 throw new Error(`OpenRouter API error: ${error.error?.message || JSON.stringify(error)}`);
             }
 
-            const data = await response.json();
-            return data.choices?.[0]?.message?.content || '';
+            const usage = yield* readChatCompletionStream(response);
+            return { modelId: body.model, usage };
         } catch (error) {
-            console.error('OpenRouter generation error:', error);
+            console.error('OpenRouter streaming error:', error);
             throw error;
         }
     }
@@ -0,0 +1,220 @@
+import { ModelProvider } from '../../types';
+import { AIProvider, GenerateOptions, GenerationResult, StreamSummary, ContentPart, getRegisteredProviders, replaceProviders } from '../modelRegistry';
+import { resetCircuits } from '../providerRouter';
+import { fnv1aHex } from '../hash';
+
+// ============================================
+// RECORD / REPLAY
+// Capture real provider exchanges to fixtures, then replay them
+// deterministically (no network, no keys) in automated runs
+// ============================================
+
+export const FIXTURE_VERSION = 1;
+
+export interface Fixture {
+    key: string; // Hash of the request; replay looks responses up by it
+    provider: ModelProvider;
+    request: {
+        prompt: string; // Inline data is replaced by a [mime, size] placeholder
+        systemPrompt?: string;
+        responseFormat?: GenerateOptions['responseFormat'];
+        model?: string;
+    };
+    response: GenerationResult;
+}
+
+export interface FixtureFile {
+    version: number;
+    recordedAt: string; // ISO timestamp
+    fixtures: Fixture[];
+}
+
+export interface ReplayOptions {
+    // When false, requests without a fixture are answered by the real provider (if any)
+    strict?: boolean;
+}
+
+// ============================================
+// REQUEST KEYS
+// ============================================
+
+const promptToText = (prompt: string | ContentPart[]): string =>
+    typeof prompt === 'string'
+        ? prompt
+        : prompt.map(p => {
+            if ('text' in p) return p.text;
+            if ('inlineData' in p) return `[${p.inlineData.mimeType}, ${p.inlineData.data.length} bytes]`;
+            return `[${p.fileData.mimeType}: ${p.fileData.fileUri}]`;
+        }).join('');
+
+const toFixtureRequest = (prompt: string | ContentPart[], options?: GenerateOptions): Fixture['request'] => ({
+    prompt: promptToText(prompt),
+    systemPrompt: options?.systemPrompt,
+    responseFormat: options?.responseFormat,
+    model: options?.model
+});
+
+/**
+ * Key for a request. The provider is left out so a replay still matches when routing
+ * picks a different provider than the recording did.
+ */
+export const fixtureKey = (prompt: string | ContentPart[], options?: GenerateOptions): string => {
+    const { prompt: text, systemPrompt, responseFormat } = toFixtureRequest(prompt, options);
+    return fnv1aHex(JSON.stringify([text, systemPrompt || '', responseFormat || 'text']));
+};
+
+// ============================================
+// RECORDING
+// ============================================
+
+class RecordingProvider implements AIProvider {
+    name: ModelProvider;
+    displayName: string;
+
+    constructor(private inner: AIProvider, private fixtures: Fixture[]) {
+        this.name = inner.name;
+        this.displayName = inner.displayName;
+    }
+
+    isConfigured(): boolean {
+        return this.inner.isConfigured();
+    }
+
+    checkAvailability(): Promise<boolean> {
+        return this.inner.checkAvailability();
+    }
+
+    private record(prompt: string | ContentPart[], options: GenerateOptions | undefined, response: GenerationResult): void {
+        this.fixtures.push({
+            key: fixtureKey(prompt, options),
+            provider: this.name,
+            request: toFixtureRequest(prompt, options),
+            response
+        });
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        const response = await this.inner.generateText(prompt, options);
+        this.record(prompt, options, response);
+        return response;
+    }
+
+    async *streamText(prompt: string | ContentPart[], options?: GenerateOptions): AsyncGenerator<string, StreamSummary> {
+        if (!this.inner.streamText) {
+            const response = await this.generateText(prompt, options);
+            yield response.text;
+            return { modelId: response.modelId, usage: response.usage };
+        }
+
+        // Only completed streams are recorded; a failed or aborted one throws before record()
+        let text = '';
+        const summary = yield* tap(this.inner.streamText(prompt, options), chunk => { text += chunk; });
+        this.record(prompt, options, { text, ...summary });
+        return summary;
+    }
+}
+
+// Re-yield a stream's chunks, observing each one, and pass its return value through
+async function* tap<R>(stream: AsyncGenerator<string, R>, onChunk: (chunk: string) => void): AsyncGenerator<string, R> {
+    while (true) {
+        const next = await stream.next();
+        if (next.done) return next.value as R;
+        const chunk = next.value as string;
+        onChunk(chunk);
+        yield chunk;
+    }
+}
+
+/**
+ * Wrap every registered provider so its exchanges are captured. stop() restores the
+ * providers and returns the fixture file (serialize it with JSON.stringify).
+ */
+export function startRecording(): { fixtures: Fixture[]; stop: () => FixtureFile } {
+    const fixtures: Fixture[] = [];
+    const restore = replaceProviders(getRegisteredProviders().map(p => new RecordingProvider(p, fixtures)));
+    console.log('[Replay] Recording provider exchanges');
+
+    return {
+        fixtures,
+        stop: () => {
+            restore();
+            console.log(`[Replay] Recorded ${fixtures.length} exchange(s)`);
+            return { version: FIXTURE_VERSION, recordedAt: new Date().toISOString(), fixtures };
+        }
+    };
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+class ReplayProvider implements AIProvider {
+    displayName: string;
+
+    constructor(
+        public name: ModelProvider,
+        private responses: Map<string, GenerationResult[]>,
+        private live?: AIProvider
+    ) {
+        this.displayName = `${live?.displayName || name} (Replay)`;
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async checkAvailability(): Promise<boolean> {
+        return true;
+    }
+
+    async generateText(prompt: string | ContentPart[], options?: GenerateOptions): Promise<GenerationResult> {
+        options?.signal?.throwIfAborted();
+
+        const key = fixtureKey(prompt, options);
+        const queue = this.responses.get(key);
+        if (queue?.length) {
+            // Identical requests replay in recorded order; the last answer repeats once they run out
+            return queue.length > 1 ? queue.shift()! : queue[0];
+        }
+
+        if (this.live?.isConfigured()) return this.live.generateText(prompt, options);
+        throw new Error(`No fixture for request ${key} (${this.name}): "${promptToText(prompt).substring(0, 80)}"`);
+    }
+}
+
+/** Check a parsed fixture file before replaying it */
+export function parseFixtureFile(raw: string | FixtureFile): FixtureFile {
+    const file: FixtureFile = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (file?.version !== FIXTURE_VERSION || !Array.isArray(file.fixtures)) {
+        throw new Error(`Unsupported fixture file (expected version ${FIXTURE_VERSION})`);
+    }
+    return file;
+}
+
+/**
+ * Answer every routed call from recorded fixtures instead of the network.
+ * Returns a function that restores the real providers.
+ */
+export function startReplay(raw: string | FixtureFile, options: ReplayOptions = {}): () => void {
+    const file = parseFixtureFile(raw);
+    const strict = options.strict ?? true;
+
+    const responses = new Map<string, GenerationResult[]>();
+    for (const fixture of file.fixtures) {
+        responses.set(fixture.key, [...(responses.get(fixture.key) || []), fixture.response]);
+    }
+
+    // Occupy each recorded provider's slot, so routing matches the recording
+    const live = new Map(getRegisteredProviders().map(p => [p.name, p]));
+    const names = Array.from(new Set(file.fixtures.map(f => f.provider)));
+    const restoreProviders = replaceProviders(
+        names.map(name => new ReplayProvider(name, responses, strict ? undefined : live.get(name)))
+    );
+    resetCircuits();
+    console.log(`[Replay] Replaying ${file.fixtures.length} exchange(s) as ${names.join(', ') || 'no providers'}`);
+
+    return () => {
+        restoreProviders();
+        resetCircuits();
+    };
+}
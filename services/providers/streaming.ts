@@ -0,0 +1,84 @@
+import { TokenUsage } from '../../types';
+
+// ============================================
+// STREAMING HELPERS
+// Server-sent event parsing and usage extraction for
+// OpenAI-compatible chat APIs (Groq, DeepSeek, Mistral, OpenRouter, Local)
+// ============================================
+
+/** OpenAI-style `usage` object, as sent by every OpenAI-compatible vendor */
+export interface ChatCompletionUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+/** Body of a non-streaming chat completion */
+export interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+    usage?: ChatCompletionUsage;
+}
+
+/** Payload of one `data:` event of a streaming chat completion */
+export interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+    usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * Map an OpenAI-style `usage` object to TokenUsage
+ */
+export function toTokenUsage(usage: ChatCompletionUsage | null | undefined): TokenUsage | undefined {
+    if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens ?? 0
+    };
+}
+
+/**
+ * Yield the text deltas of a `stream: true` chat completion response, returning the
+ * usage reported in the final event (when the vendor sends one)
+ */
+export async function* readChatCompletionStream(response: Response): AsyncGenerator<string, TokenUsage | undefined> {
+    if (!response.body) {
+        throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: TokenUsage | undefined;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            // Keep the trailing partial line for the next read
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                const trimmed = line.trim();
+                // Skip blank separators and SSE comments (e.g. ": OPENROUTER PROCESSING")
+                if (!trimmed.startsWith('data:')) continue;
+
+                const data = trimmed.slice(5).trim();
+                if (data === '[DONE]') return usage;
+
+                try {
+                    const json: ChatCompletionChunk = JSON.parse(data);
+                    usage = toTokenUsage(json.usage) || usage;
+                    const delta = json.choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                } catch {
+                    console.warn('[Streaming] Skipping malformed event:', data);
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+    return usage;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './retrieval';
+
+const paragraph = (label: string, length: number): string => `${label} ${'x'.repeat(length - label.length - 1)}`;
+
+describe('chunkText', () => {
+    it('keeps short text in one chunk', () => {
+        expect(chunkText('First paragraph.\n\nSecond paragraph.')).toEqual(['First paragraph.\n\nSecond paragraph.']);
+    });
+
+    it('packs paragraphs up to the size and overlaps the next chunk with the tail', () => {
+        const chunks = chunkText([paragraph('one', 60), paragraph('two', 60), paragraph('three', 60)].join('\n\n'), 130, 20);
+
+        expect(chunks).toHaveLength(2);
+        expect(chunks[0]).toBe(`${paragraph('one', 60)}\n\n${paragraph('two', 60)}`);
+        expect(chunks[1].endsWith(paragraph('three', 60))).toBe(true);
+        expect(chunks[1].length).toBeLessThanOrEqual(20 + 2 + 60);
+    });
+
+    it('splits oversized paragraphs by sentence, then by length', () => {
+        const sentences = 'Short one. Another short one. ' + 'y'.repeat(250);
+
+        const chunks = chunkText(sentences, 100, 0);
+
+        expect(chunks[0]).toContain('Short one.');
+        expect(chunks.every(c => c.length <= 100 + 2)).toBe(true);
+        expect(chunks.join('').replace(/\s/g, '')).toContain('y'.repeat(100));
+    });
+
+    it('returns nothing for blank text', () => {
+        expect(chunkText(' \n\n \n')).toEqual([]);
+    });
+});
@@ -0,0 +1,271 @@
+import { BlockType, ContentBlock, SpendGuard } from '../types';
+import { InputItem, InputType } from '../types/inputs';
+import { ProjectContext, getIndexedFiles } from './folderContext';
+import { Embedder, cosineSimilarity, getEmbedder, localEmbedder } from './embeddings';
+import { EmbedOptions } from './modelRegistry';
+
+// ============================================
+// RETRIEVAL
+// Chunk the project's inputs, folder files and blocks into a vector
+// index so each task can be given only the passages relevant to it.
+// Chunks are embedded lazily, on the first search that needs them.
+// ============================================
+
+export type RetrievalSourceType = 'input' | 'file' | 'block';
+
+export interface RetrievalSource {
+    id: string;
+    type: RetrievalSourceType;
+    title: string;
+    text: string;
+}
+
+export interface RetrievedPassage {
+    sourceId: string;
+    type: RetrievalSourceType;
+    title: string;
+    text: string;
+    score: number; // Cosine similarity to the query
+}
+
+export interface RetrieveOptions {
+    topK?: number;
+    maxChars?: number; // Passages are added best first until the next would exceed this
+    types?: RetrievalSourceType[];
+    excludeSourceIds?: string[];
+    minScore?: number;
+    signal?: AbortSignal;
+    budget?: SpendGuard; // Remote embedding calls are metered against it
+}
+
+interface Chunk {
+    sourceId: string;
+    type: RetrievalSourceType;
+    title: string;
+    text: string; // Embeddings are cached by it
+}
+
+interface ProjectIndex {
+    sources: Map<string, { title: string; text: string; chunks: Chunk[] }>;
+}
+
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const EMBED_BATCH_SIZE = 32;
+const DEFAULT_TOP_K = 6;
+const DEFAULT_MIN_SCORE = 0.1;
+
+const indexes = new Map<string, ProjectIndex>();
+// Per embedder: text -> vector (a promise, so parallel searches share one request).
+// Only texts of indexed chunks are kept; see pruneVectorCache
+const vectorCache = new Map<string, Map<string, Promise<number[]>>>();
+
+// ============================================
+// CHUNKING
+// ============================================
+
+// Last `chars` characters of a chunk, starting at a word boundary
+const tail = (text: string, chars: number): string => {
+    if (chars <= 0) return '';
+    if (text.length <= chars) return text;
+    const cut = text.slice(-chars);
+    const space = cut.indexOf(' ');
+    return space === -1 ? cut : cut.slice(space + 1);
+};
+
+/**
+ * Split text into chunks of about `size` characters, on paragraph and then sentence
+ * boundaries, each starting with the last `overlap` characters of the one before.
+ */
+export function chunkText(text: string, size: number = CHUNK_CHARS, overlap: number = CHUNK_OVERLAP_CHARS): string[] {
+    const pieces = text
+        .split(/\n\s*\n/)
+        .map(p => p.trim())
+        .filter(Boolean)
+        .flatMap(paragraph => {
+            if (paragraph.length <= size) return [paragraph];
+            // Oversized paragraphs split by sentence, and oversized sentences by length
+            return (paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph])
+                .flatMap(sentence => sentence.length <= size
+                    ? [sentence.trim()]
+                    : Array.from({ length: Math.ceil(sentence.length / size) }, (_, i) => sentence.slice(i * size, (i + 1) * size)));
+        });
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 2 > size) {
+            chunks.push(current);
+            const carried = tail(current, overlap);
+            current = carried ? `${carried}\n\n${piece}` : piece;
+        } else {
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+/** InputHub items with readable text (images and un-extracted PDFs carry none) */
+export const sourcesFromInputs = (items: InputItem[]): RetrievalSource[] =>
+    items
+        .filter(item => item.type !== InputType.IMAGE && item.content && !item.content.startsWith('data:') && !item.content.startsWith('[PDF:'))
+        .map(item => ({ id: `input:${item.id}`, type: 'input', title: item.name, text: item.content }));
+
+// Binary formats read as text (.docx, .pdf) come out as NUL bytes and replacement characters
+const looksBinary = (text: string): boolean =>
+    text.includes('\u0000') || (text.match(/\uFFFD/g)?.length || 0) > text.length / 100;
+
+/** Text files of a scanned project folder */
+export const sourcesFromFolder = (context: ProjectContext | null): RetrievalSource[] =>
+    context
+        ? getIndexedFiles(context)
+            .filter(file => !looksBinary(file.content!))
+            .map(file => ({ id: `file:${file.path}`, type: 'file', title: file.path, text: file.content! }))
+        : [];
+
+const blockTitle = (block: ContentBlock): string =>
+    block.metadata?.title
+        ? `${block.metadata.chapterNumber !== undefined ? `Chapter ${block.metadata.chapterNumber}: ` : ''}${block.metadata.title}`
+        : block.metadata?.chapterNumber !== undefined ? `Chapter ${block.metadata.chapterNumber}` : `${block.type} block`;
+
+/** Written blocks of the project (images excluded) */
+export const sourcesFromBlocks = (blocks: ContentBlock[]): RetrievalSource[] =>
+    blocks
+        .filter(block => block.type !== BlockType.IMAGE && block.content?.trim())
+        .map(block => ({ id: `block:${block.id}`, type: 'block', title: blockTitle(block), text: block.content }));
+
+/**
+ * Replace the project's sources. Only sources whose text changed are re-chunked;
+ * embeddings of unchanged chunks are reused.
+ */
+export function setRetrievalSources(projectId: string, sources: RetrievalSource[]): void {
+    const previous = indexes.get(projectId)?.sources;
+    const next: ProjectIndex['sources'] = new Map();
+
+    for (const source of sources) {
+        const existing = previous?.get(source.id);
+        if (existing?.title === source.title && existing.text === source.text) {
+            next.set(source.id, existing);
+            continue;
+        }
+        next.set(source.id, {
+            title: source.title,
+            text: source.text,
+            chunks: chunkText(source.text).map(text => ({
+                sourceId: source.id,
+                type: source.type,
+                title: source.title,
+                text
+            }))
+        });
+    }
+    indexes.set(projectId, { sources: next });
+    pruneVectorCache();
+}
+
+export function clearRetrievalIndex(projectId: string): void {
+    indexes.delete(projectId);
+    pruneVectorCache();
+}
+
+// Drop the vectors of text no index holds any more (edited or removed sources, past queries)
+const pruneVectorCache = (): void => {
+    const live = new Set<string>();
+    for (const index of indexes.values()) {
+        for (const source of index.sources.values()) source.chunks.forEach(chunk => live.add(chunk.text));
+    }
+    for (const cache of vectorCache.values()) {
+        for (const text of cache.keys()) {
+            if (!live.has(text)) cache.delete(text);
+        }
+    }
+};
+
+// ============================================
+// SEARCH
+// ============================================
+
+/** Vectors for the texts under `embedder`, embedding only those not cached yet */
+const embedCached = async (embedder: Embedder, texts: string[], options: EmbedOptions): Promise<number[][]> => {
+    let cache = vectorCache.get(embedder.id);
+    if (!cache) {
+        cache = new Map();
+        vectorCache.set(embedder.id, cache);
+    }
+
+    const missing = Array.from(new Set(texts.filter(text => !cache!.has(text))));
+    for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+        const batch = missing.slice(start, start + EMBED_BATCH_SIZE);
+        const request = embedder.embed(batch, options);
+        batch.forEach((text, i) => {
+            const vector = request.then(vectors => vectors[i]);
+            // A failed batch is dropped so the next search retries it
+            vector.catch(() => {
+                if (cache!.get(text) === vector) cache!.delete(text);
+            });
+            cache!.set(text, vector);
+        });
+    }
+
+    return Promise.all(texts.map(text => cache!.get(text)!));
+};
+
+/**
+ * The indexed passages most similar to the query. Uses the best configured embedder,
+ * falling back to the local one if it fails, so retrieval itself never fails a task.
+ */
+export async function retrieve(projectId: string, query: string, options: RetrieveOptions = {}): Promise<RetrievedPassage[]> {
+    const index = indexes.get(projectId);
+    if (!index || !query.trim()) return [];
+
+    const chunks = Array.from(index.sources.values())
+        .flatMap(source => source.chunks)
+        .filter(chunk => (!options.types || options.types.includes(chunk.type)) && !options.excludeSourceIds?.includes(chunk.sourceId));
+    if (chunks.length === 0) return [];
+
+    const score = async (embedder: Embedder) => {
+        const [queryVector, ...vectors] = await embedCached(embedder, [query, ...chunks.map(chunk => chunk.text)], {
+            signal: options.signal,
+            projectId,
+            budget: options.budget
+        });
+        return chunks.map((chunk, i) => ({ chunk, score: cosineSimilarity(queryVector, vectors[i]) }));
+    };
+
+    let scored: { chunk: Chunk; score: number }[];
+    const embedder = getEmbedder();
+    try {
+        scored = await score(embedder);
+    } catch (error) {
+        options.signal?.throwIfAborted();
+        if (embedder === localEmbedder) throw error;
+        console.warn(`[Retrieval] ${embedder.displayName} embeddings failed, using local: ${(error as Error).message}`);
+        scored = await score(localEmbedder);
+    }
+
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    const passages: RetrievedPassage[] = [];
+    let chars = 0;
+    for (const { chunk, score } of scored.sort((a, b) => b.score - a.score)) {
+        if (passages.length >= topK || score < minScore) break;
+        if (options.maxChars !== undefined && chars + chunk.text.length > options.maxChars) continue;
+        chars += chunk.text.length;
+        passages.push({ sourceId: chunk.sourceId, type: chunk.type, title: chunk.title, text: chunk.text, score });
+    }
+    return passages;
+}
+
+/** Render passages as a prompt section (empty when there are none) */
+export function formatPassages(passages: RetrievedPassage[], heading: string = 'RELEVANT PASSAGES'): string {
+    if (passages.length === 0) return '';
+    return [
+        `${heading}:`,
+        ...passages.map((p, i) => `[${i + 1}] ${p.title}\n${p.text}`)
+    ].join('\n\n');
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { generateContentCalendar, generateImagePrompt, generatePost, generateTwitterThread, validatePost } from './socialMediaGenerator';
+import { BookMetadata } from './workspaceManager';
+import { MockProviderOptions, installMockProvider } from './providers/mockProvider';
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+    restore?.();
+    restore = undefined;
+});
+
+const mock = (options: MockProviderOptions = {}) => {
+    const installed = installMockProvider(options);
+    restore = installed.restore;
+    return installed.provider;
+};
+
+const BOOK: BookMetadata = {
+    title: 'The Lighthouse Letters',
+    author: 'Ada Mock',
+    description: 'A lighthouse keeper finds letters addressed to her future self.',
+    genre: 'Mystery',
+    keywords: [],
+    language: 'en',
+    chapters: []
+};
+
+describe('social generators', () => {
+    it('writes a post with hashtags sized for the platform', async () => {
+        const provider = mock();
+
+        const post = await generatePost(BOOK, 'linkedin', 'announcement');
+
+        expect(post.content).toBe('Mock post: the book is out now. Grab your copy!');
+        expect(post.hashtags).toEqual(['mocktag1', 'mocktag2', 'mocktag3']);
+        expect(validatePost(post).valid).toBe(true);
+        expect(provider.callsFor('social-post')[0].prompt).toContain('Professional but personable tone');
+    });
+
+    it('writes a thread of the requested length', async () => {
+        mock();
+
+        expect(await generateTwitterThread(BOOK, 3)).toEqual(['Mock tweet 1.', 'Mock tweet 2.', 'Mock tweet 3.']);
+    });
+
+    it('writes an image prompt for a post', async () => {
+        mock();
+
+        expect(await generateImagePrompt(BOOK, 'Out now!')).toBe('A moody mock illustration of a rain-soaked city at dusk.');
+    });
+
+    it('schedules a post per day, rotating platforms', async () => {
+        mock();
+
+        const calendar = await generateContentCalendar(BOOK, 3);
+
+        expect(calendar.posts.map(p => p.platform)).toEqual(['twitter', 'instagram', 'linkedin']);
+        expect(calendar.posts.every(p => p.status === 'scheduled' && p.scheduledFor !== undefined)).toBe(true);
+    });
+
+    it('retries a post call that fails once', async () => {
+        const provider = mock({
+            rules: [{
+                name: 'post-outage',
+                match: /Write ONLY the post content/,
+                respond: () => { throw new Error('overloaded'); },
+                times: 1
+            }]
+        });
+
+        const post = await generatePost(BOOK, 'twitter', 'teaser');
+
+        expect(post.content).toBe('Mock post: the book is out now. Grab your copy!');
+        expect(provider.callsFor('social-post')).toHaveLength(1);
+    });
+
+    it('returns no thread when the answer is not a list', async () => {
+        mock({ rules: [{ name: 'prose', match: /-tweet Twitter thread/, respond: 'Tweet one. Tweet two.' }] });
+
+        expect(await generateTwitterThread(BOOK)).toEqual([]);
+    });
+});
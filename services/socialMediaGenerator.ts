@@ -4,7 +4,10 @@
 // ============================================
 
 import { BookMetadata } from './workspaceManager';
-import { generateWithBestModel } from './modelRegistry';
+import { GenerateOptions } from './modelRegistry';
+import { routeGenerate } from './providerRouter';
+import { generateStructured, SCHEMAS, viaRouter } from './structuredOutput';
+import { isBudgetExceeded } from './budget';
 
 export type Platform = 'twitter' | 'instagram' | 'linkedin' | 'tiktok' | 'facebook';
 
@@ -48,7 +51,8 @@ const generateId = () => Math.random().toString(36).substr(2, 9);
 export const generateHashtags = async (
     bookMetadata: BookMetadata,
     platform: Platform,
-    count?: number
+    count?: number,
+    options: GenerateOptions = {}
 ): Promise<string[]> => {
     const limit = PLATFORM_LIMITS[platform];
     const targetCount = count || limit.bestHashtags;
@@ -69,14 +73,16 @@ Return ONLY a JSON array of hashtag strings (without the # symbol).
 Example: ["booktok", "newrelease", "mustread"]`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await generateStructured<string[]>(SCHEMAS.socialHashtags, prompt, viaRouter('writing', {
+            ...options,
             responseFormat: 'json',
             temperature: 0.7
-        });
+        }));
 
-        const hashtags = JSON.parse(result.text);
-        return Array.isArray(hashtags) ? hashtags.slice(0, targetCount) : [];
+        if (!result.data) throw new Error(`Invalid hashtags: ${result.errors.join('; ')}`);
+        return result.data.slice(0, targetCount);
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error generating hashtags:', error);
         return ['books', 'newrelease', 'reading', bookMetadata.genre.toLowerCase().replace(/\s/g, '')];
     }
@@ -88,7 +94,8 @@ Example: ["booktok", "newrelease", "mustread"]`;
 export const generatePost = async (
     bookMetadata: BookMetadata,
     platform: Platform,
-    postType: 'announcement' | 'quote' | 'behind-the-scenes' | 'teaser' | 'review-request' | 'sale'
+    postType: 'announcement' | 'quote' | 'behind-the-scenes' | 'teaser' | 'review-request' | 'sale',
+    options: GenerateOptions = {}
 ): Promise<SocialPost> => {
     const limit = PLATFORM_LIMITS[platform];
 
@@ -121,13 +128,14 @@ ${platform === 'tiktok' ? '- Casual, energetic, authentic voice' : ''}
 Write ONLY the post content, no hashtags or meta text.`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await routeGenerate(prompt, 'writing', {
+            ...options,
             temperature: 0.8,
             maxTokens: 500
         });
 
         const content = result.text.trim();
-        const hashtags = await generateHashtags(bookMetadata, platform);
+        const hashtags = await generateHashtags(bookMetadata, platform, undefined, options);
 
         return {
             id: generateId(),
@@ -148,7 +156,8 @@ Write ONLY the post content, no hashtags or meta text.`;
  */
 export const generateTwitterThread = async (
     bookMetadata: BookMetadata,
-    threadLength: number = 5
+    threadLength: number = 5,
+    options: GenerateOptions = {}
 ): Promise<string[]> => {
     const prompt = `Write a ${threadLength}-tweet Twitter thread promoting this book:
 
@@ -167,14 +176,16 @@ Requirements:
 Return ONLY a JSON array of ${threadLength} tweet strings.`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await generateStructured<string[]>(SCHEMAS.socialThread, prompt, viaRouter('writing', {
+            ...options,
             responseFormat: 'json',
             temperature: 0.8
-        });
+        }));
 
-        const tweets = JSON.parse(result.text);
-        return Array.isArray(tweets) ? tweets.slice(0, threadLength) : [];
+        if (!result.data) throw new Error(`Invalid thread: ${result.errors.join('; ')}`);
+        return result.data.slice(0, threadLength);
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error generating thread:', error);
         return [];
     }
@@ -186,7 +197,8 @@ Return ONLY a JSON array of ${threadLength} tweet strings.`;
 export const generateContentCalendar = async (
     bookMetadata: BookMetadata,
     durationDays: number = 14,
-    postsPerDay: number = 1
+    postsPerDay: number = 1,
+    options: GenerateOptions = {}
 ): Promise<ContentCalendar> => {
     const posts: SocialPost[] = [];
     const startDate = Date.now();
@@ -203,11 +215,12 @@ export const generateContentCalendar = async (
             const postType = postTypes[(day + i) % postTypes.length];
 
             try {
-                const post = await generatePost(bookMetadata, platform, postType);
+                const post = await generatePost(bookMetadata, platform, postType, options);
                 post.scheduledFor = startDate + (day * 24 * 60 * 60 * 1000) + (i * 4 * 60 * 60 * 1000);
                 post.status = 'scheduled';
                 posts.push(post);
             } catch (error) {
+                if (isBudgetExceeded(error)) throw error;
                 console.error(`Error generating post for day ${day}:`, error);
             }
         }
@@ -225,7 +238,8 @@ export const generateContentCalendar = async (
  */
 export const generateImagePrompt = async (
     bookMetadata: BookMetadata,
-    postContent: string
+    postContent: string,
+    options: GenerateOptions = {}
 ): Promise<string> => {
     const prompt = `Create an image generation prompt for a social media post about this book:
 
@@ -242,13 +256,15 @@ Requirements:
 Write ONLY the image generation prompt, 1-2 sentences.`;
 
     try {
-        const result = await generateWithBestModel(prompt, 'writing', {
+        const result = await routeGenerate(prompt, 'writing', {
+            ...options,
             temperature: 0.7,
             maxTokens: 100
         });
 
         return result.text.trim();
     } catch (error) {
+        if (isBudgetExceeded(error)) throw error;
         console.error('Error generating image prompt:', error);
         return `Book cover aesthetic for ${bookMetadata.genre} novel, moody lighting, professional photography`;
     }
@@ -0,0 +1,82 @@
+import { ChapterMemory, WorkflowTaskRecord } from '../types';
+
+// ============================================
+// STORY MEMORY
+// Rolling "story so far" context handed to each Writer task,
+// compressed to fit the context window of the model it is sent to
+// ============================================
+
+// Share of the window the memory section may take; the rest is left for
+// the system prompt, blueprint context and the generated chapter
+const MEMORY_WINDOW_SHARE = 0.2;
+const MAX_MEMORY_TOKENS = 6_000;
+const CHARS_PER_TOKEN = 4;
+
+// Most recent chapters keep their full summary; older ones shrink to one line
+const FULL_SUMMARY_CHAPTERS = 3;
+const MAX_OPEN_THREADS = 12;
+
+/** Character budget for the memory section in a context window of `contextWindow` tokens */
+export function getMemoryBudget(contextWindow: number): number {
+    return Math.min(contextWindow * MEMORY_WINDOW_SHARE, MAX_MEMORY_TOKENS) * CHARS_PER_TOKEN;
+}
+
+const label = (record: Pick<WorkflowTaskRecord, 'chapterNumber' | 'task'>): string => {
+    const chapter = record.chapterNumber !== undefined ? `Chapter ${record.chapterNumber}` : 'Section';
+    return record.task.title ? `${chapter} (${record.task.title})` : chapter;
+};
+
+const firstSentence = (text: string): string => {
+    const match = text.match(/^.*?[.!?](\s|$)/);
+    return (match ? match[0] : text).trim();
+};
+
+/** Latest known state per character, later chapters overriding earlier ones */
+export function mergeCharacterStates(memories: ChapterMemory[]): ChapterMemory['characterStates'] {
+    const states = new Map<string, string>();
+    memories.forEach(m => m.characterStates.forEach(c => states.set(c.name, c.state)));
+    return Array.from(states, ([name, state]) => ({ name, state }));
+}
+
+/**
+ * Build the "previously" context for the task at `index` from the earlier tasks of the run.
+ * Earlier tasks still in flight (parallel drafting) are represented by their planned outline.
+ */
+export function buildStoryContext(tasks: WorkflowTaskRecord[], index: number, budgetChars: number): string {
+    const earlier = tasks.filter(t => t.index < index && (t.memory || t.status !== 'completed'));
+    if (earlier.length === 0) return '';
+
+    const memories = earlier.filter(t => t.memory).map(t => t.memory!);
+    const latest = memories[memories.length - 1];
+    const recentCutoff = memories.length - FULL_SUMMARY_CHAPTERS;
+
+    let summaryLines: string[] = [];
+    let memoryIndex = 0;
+    for (const record of earlier) {
+        if (record.memory) {
+            const text = memoryIndex >= recentCutoff ? record.memory.summary : firstSentence(record.memory.summary);
+            summaryLines.push(`- ${label(record)}: ${text}`);
+            memoryIndex++;
+        } else {
+            summaryLines.push(`- ${label(record)} [still being written]: ${record.task.description}`);
+        }
+    }
+
+    const threads = (latest?.openThreads || []).slice(0, MAX_OPEN_THREADS);
+    const characters = mergeCharacterStates(memories);
+
+    const render = () => [
+        'STORY SO FAR (previously):',
+        ...summaryLines,
+        threads.length ? `\nOPEN THREADS:\n${threads.map(t => `- ${t}`).join('\n')}` : '',
+        characters.length ? `\nCHARACTER STATES:\n${characters.map(c => `- ${c.name}: ${c.state}`).join('\n')}` : ''
+    ].filter(Boolean).join('\n');
+
+    // Drop the oldest chapter lines until the context fits; the latest one always stays
+    let context = render();
+    while (context.length > budgetChars && summaryLines.length > 1) {
+        summaryLines = summaryLines.slice(1);
+        context = render();
+    }
+    return context.length > budgetChars ? context.substring(0, budgetChars) : context;
+}
@@ -0,0 +1,333 @@
+import { TaskType, UsageTotals } from '../types';
+import { ChunkCallback, ContentPart, GenerateOptions } from './modelRegistry';
+import { routeGenerate } from './providerRouter';
+import { addUsage } from './usageTracker';
+
+// ============================================
+// STRUCTURED OUTPUT
+// JSON schemas for agent outputs, validation, and a repair
+// re-prompt that feeds validation errors back to the model
+// ============================================
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// The subset of JSON Schema the agents need
+export interface JsonSchema {
+    type: JsonType | JsonType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: (string | number | boolean)[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+}
+
+export interface StructuredResult<T> {
+    data: T | null; // null when the output was still invalid after repair
+    raw: string;
+    provider: string;
+    repaired: boolean; // A repair re-prompt was needed
+    errors: string[]; // Validation errors of the final attempt
+    usage?: UsageTotals; // Summed over the first attempt and any repairs
+}
+
+export type StructuredGenerate = (prompt: string | ContentPart[], attempt: number) => Promise<{ text: string; provider: string; usage?: UsageTotals }>;
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+export const SCHEMAS = {
+    architectPlan: {
+        type: 'object',
+        required: ['tasks'],
+        properties: {
+            tasks: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    required: ['role', 'description', 'context_script'],
+                    properties: {
+                        role: { type: 'string', minLength: 1 },
+                        description: { type: 'string', minLength: 1 },
+                        context_script: { type: 'string' },
+                        title: { type: 'string' }
+                    }
+                }
+            }
+        }
+    },
+    visionaryOutput: {
+        type: 'object',
+        required: ['style_guide', 'sensory_palette'],
+        properties: {
+            style_guide: { type: 'string' },
+            sensory_palette: { type: 'string' }
+        }
+    },
+    writerOutput: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+            content: { type: ['string', 'array'], minLength: 1, items: { type: 'string' } },
+            helper_script: { type: 'string' }
+        }
+    },
+    editorOutput: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+            content: { type: 'string', minLength: 1 },
+            changes: { type: 'string' }
+        }
+    },
+    criticOutput: {
+        type: 'object',
+        required: ['approved', 'critique'],
+        properties: {
+            approved: { type: 'boolean' },
+            critique: { type: 'string' }
+        }
+    },
+    consistencyOutput: {
+        type: 'object',
+        required: ['status'],
+        properties: {
+            status: { type: 'string', enum: ['pass', 'fail'] },
+            issues: stringArray
+        }
+    },
+    summarizerOutput: {
+        type: 'object',
+        required: ['summary', 'open_threads', 'character_states'],
+        properties: {
+            summary: { type: 'string', minLength: 1 },
+            open_threads: stringArray,
+            character_states: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['name', 'state'],
+                    properties: { name: { type: 'string' }, state: { type: 'string' } }
+                }
+            }
+        }
+    },
+    synthesisResult: {
+        type: 'object',
+        required: ['themes', 'keyIdeas', 'suggestedStructure', 'contextSummary'],
+        properties: {
+            themes: stringArray,
+            keyIdeas: stringArray,
+            suggestedStructure: {
+                type: 'object',
+                required: ['chapters'],
+                properties: {
+                    title: { type: 'string' },
+                    chapters: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['number', 'title', 'summary'],
+                            properties: {
+                                number: { type: 'integer' },
+                                title: { type: 'string' },
+                                summary: { type: 'string' },
+                                keyPoints: stringArray
+                            }
+                        }
+                    },
+                    estimatedWordCount: { type: 'number' },
+                    genre: { type: 'string' },
+                    tone: { type: 'string' }
+                }
+            },
+            characters: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['name'],
+                    properties: {
+                        name: { type: 'string' },
+                        role: { type: 'string' },
+                        description: { type: 'string' },
+                        traits: stringArray
+                    }
+                }
+            },
+            locations: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['name'],
+                    properties: {
+                        name: { type: 'string' },
+                        description: { type: 'string' },
+                        sensoryDetails: { type: 'string' }
+                    }
+                }
+            },
+            items: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['name'],
+                    properties: {
+                        name: { type: 'string' },
+                        description: { type: 'string' },
+                        usage: { type: 'string' }
+                    }
+                }
+            },
+            guidelines: stringArray,
+            contextSummary: { type: 'string', minLength: 1 }
+        }
+    },
+    kdpKeywords: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    kdpCategories: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    socialHashtags: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    socialThread: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+} satisfies Record<string, JsonSchema>;
+
+// ============================================
+// PARSING & VALIDATION
+// ============================================
+
+/**
+ * Parse the JSON payload of a model response, tolerating code fences and surrounding prose
+ */
+export function extractJSON(text: string): unknown {
+    const cleaned = text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+    try {
+        return JSON.parse(cleaned);
+    } catch {
+        // Fall back to the outermost object/array in the text
+        const start = cleaned.search(/[[{]/);
+        const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw new Error('No JSON found in response');
+        return JSON.parse(cleaned.slice(start, end + 1));
+    }
+}
+
+const typeOf = (value: unknown): JsonType | 'null' => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonType;
+};
+
+/**
+ * Validate a value against a schema, returning human-readable errors (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = allowed.includes(actual as JsonType) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) {
+        return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+    }
+
+    const errors: string[] = [];
+
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path}: must not be empty`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: expected at most ${schema.maxItems} item(s), got ${value.length}`);
+        }
+        if (schema.items) {
+            value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+        }
+    }
+
+    if (actual === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+        }
+        for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+            if (record[key] !== undefined) {
+                errors.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+            }
+        }
+    }
+
+    return errors;
+}
+
+const parseAndValidate = (text: string, schema: JsonSchema): { value: unknown; errors: string[] } => {
+    try {
+        const value = extractJSON(text);
+        return { value, errors: validateSchema(value, schema) };
+    } catch (error) {
+        return { value: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+};
+
+// ============================================
+// GENERATE WITH REPAIR
+// ============================================
+
+const buildRepairPrompt = (
+    original: string | ContentPart[],
+    raw: string,
+    errors: string[],
+    schema: JsonSchema
+): string | ContentPart[] => {
+    const repair = `\n\nYOUR PREVIOUS RESPONSE:\n${raw.substring(0, 8000)}\n\nIt failed validation with these errors:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReturn corrected raw JSON only, matching this JSON schema:\n${JSON.stringify(schema)}`;
+    return typeof original === 'string' ? `${original}${repair}` : [...original, { text: repair }];
+};
+
+/**
+ * Generate, validate against the schema, and re-prompt with the validation errors when the output is invalid
+ */
+export async function generateStructured<T>(
+    schema: JsonSchema,
+    prompt: string | ContentPart[],
+    generate: StructuredGenerate,
+    maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<StructuredResult<T>> {
+    let result = await generate(prompt, 0);
+    let { value, errors } = parseAndValidate(result.text, schema);
+    let usage = result.usage;
+    let repaired = false;
+
+    for (let attempt = 1; errors.length > 0 && attempt <= maxRepairs; attempt++) {
+        console.warn(`[StructuredOutput] Invalid output, requesting repair (${errors.length} error(s)):`, errors);
+        repaired = true;
+        result = await generate(buildRepairPrompt(prompt, result.text, errors, schema), attempt);
+        ({ value, errors } = parseAndValidate(result.text, schema));
+        usage = usage ? addUsage(usage, result.usage) : result.usage;
+    }
+
+    return {
+        data: errors.length === 0 ? value as T : null,
+        raw: result.text,
+        provider: result.provider,
+        repaired,
+        errors,
+        usage
+    };
+}
+
+/** Generator that sends each attempt through the provider router. Only the first attempt streams. */
+export const viaRouter = (taskType: TaskType, options?: GenerateOptions, onChunk?: ChunkCallback): StructuredGenerate =>
+    async (prompt, attempt) => {
+        const { text, modelUsed, usage } = await routeGenerate(prompt, taskType, options, attempt === 0 ? onChunk : undefined);
+        return { text, provider: modelUsed, usage };
+    };
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { InputItem, InputStatus, InputType } from '../types/inputs';
+import { synthesizeInputs } from './synthesizer';
+import { MockProviderOptions, installMockProvider } from './providers/mockProvider';
+
+let restore: (() => void) | undefined;
+
+afterEach(() => {
+    restore?.();
+    restore = undefined;
+});
+
+const mock = (options: MockProviderOptions = {}) => {
+    const installed = installMockProvider(options);
+    restore = installed.restore;
+    return installed.provider;
+};
+
+const input = (type: InputType, name: string, content: string): InputItem => ({
+    id: `input-${name}`,
+    type,
+    name,
+    content,
+    metadata: {},
+    status: InputStatus.READY,
+    createdAt: Date.now()
+});
+
+const INPUTS = [
+    input(InputType.NOTE, 'premise', 'A lighthouse keeper finds a letter addressed to her future self.'),
+    input(InputType.GUIDELINE, 'voice', 'Write in close third person.')
+];
+
+describe('synthesizeInputs', () => {
+    it('returns the model synthesis with the guideline inputs appended', async () => {
+        const provider = mock({ chapters: 3 });
+
+        const result = await synthesizeInputs(INPUTS);
+
+        expect(result.summary).toBe('Mock synthesis of the inputs.');
+        expect(result.suggestedStructure.chapters).toHaveLength(3);
+        expect(result.characters[0].name).toBe('Mock Protagonist');
+        expect(result.guidelines).toEqual(['Mock guideline', 'Write in close third person.']);
+        expect(result.sourceCount).toBe(2);
+
+        const [call] = provider.callsFor('synthesis');
+        expect(call.prompt).toContain('--- Input premise ---\n[NOTE]\nA lighthouse keeper');
+        expect(call.prompt).toContain('[GUIDELINE]\nWrite in close third person.');
+    });
+
+    it('retries after a transient provider failure', async () => {
+        const provider = mock({
+            rules: [{
+                name: 'rate-limited',
+                match: /expert content synthesizer/,
+                respond: () => { throw new Error('429 Too Many Requests'); },
+                times: 1
+            }]
+        });
+
+        const result = await synthesizeInputs(INPUTS);
+
+        expect(result.summary).toBe('Mock synthesis of the inputs.');
+        expect(provider.callsFor('synthesis')).toHaveLength(1);
+    });
+
+    it('falls back to the raw inputs when the output never validates', async () => {
+        mock({ rules: [{ name: 'garbled', match: /expert content synthesizer/, respond: 'Sorry, I cannot help with that.' }] });
+
+        const result = await synthesizeInputs(INPUTS);
+
+        expect(result.summary).toBe('Synthesis failed. Using raw inputs.');
+        expect(result.keyIdeas).toEqual(['A lighthouse keeper finds a letter addressed to her future self.']);
+        expect(result.guidelines).toEqual(['Write in close third person.']);
+    });
+
+    it('makes no call without inputs', async () => {
+        const provider = mock();
+
+        const result = await synthesizeInputs([]);
+
+        expect(result.sourceCount).toBe(0);
+        expect(provider.calls).toHaveLength(0);
+    });
+});
@@ -1,7 +1,14 @@
 import { InputItem, InputType, SynthesisResult, StructureSuggestion, ChapterSuggestion, SynthesisCharacter, SynthesisLocation, SynthesisItem } from '../types/inputs';
-import { generateWithBestModel, ContentPart } from './modelRegistry';
+import { ContentPart, GenerateOptions } from './modelRegistry';
+import { generateStructured, SCHEMAS, viaRouter } from './structuredOutput';
+import { canRoute } from './providerRouter';
+import { isBudgetExceeded } from './budget';
+import { assemblePrompt, getPromptBudget, PromptSection } from './promptAssembler';
 import { ModelProvider } from '../types';
 
+// Rough prompt cost of an attached image or short PDF, held back from the text budget
+const ATTACHMENT_TOKENS = 1_500;
+
 const SYNTHESIS_PROMPT = `
 You are an expert content synthesizer. Analyze all the provided inputs and extract:
 
@@ -46,7 +53,7 @@ OUTPUT FORMAT (JSON):
 Return ONLY valid JSON. Be thorough in your analysis.
 `;
 
-export async function synthesizeInputs(items: InputItem[]): Promise<SynthesisResult> {
+export async function synthesizeInputs(items: InputItem[], options: GenerateOptions = {}): Promise<SynthesisResult> {
     if (items.length === 0) {
         return {
             summary: 'No inputs provided.',
@@ -70,59 +77,89 @@ export async function synthesizeInputs(items: InputItem[]): Promise<SynthesisRes
     // Add instruction text as the first part
     contentParts.push({ text: SYNTHESIS_PROMPT.replace('{INPUTS}', '[See attached content]') });
 
+    // Text inputs are filled in once all are known, fitted to the synthesis model's window
+    const textInputs: { part: { text: string }; header: string; section: PromptSection }[] = [];
+
+    // Attach images and PDFs only when a configured model can read them
+    const canReadImages = canRoute('synthesis', ['vision'], options.taskModels);
+    const canReadPdfs = canRoute('synthesis', ['pdf'], options.taskModels);
+
     for (const item of items) {
-        if (item.type === InputType.IMAGE && item.rawContent) {
+        const isPdf = item.type === InputType.DOCUMENT && item.metadata.fileType === 'application/pdf';
+        if ((item.type === InputType.IMAGE && !canReadImages) || (isPdf && !canReadPdfs)) {
+            // Their content is base64 or a placeholder, so there is no text to fall back on
+            const kind = isPdf ? 'PDF' : 'Image';
+            console.warn(`[Synthesizer] Skipping ${item.name}: no configured model reads ${kind === 'PDF' ? 'PDFs' : 'images'}`);
+            contentParts.push({ text: `\n\n--- Input (${kind}): ${item.name} ---\n[Not analysed: no configured model can read this file]` });
+        } else if (item.type === InputType.IMAGE && item.rawContent) {
             // Add image directly
             const base64Data = (item.rawContent as string).split(',')[1];
             const mimeType = item.metadata.fileType || 'image/jpeg';
             contentParts.push({ text: `\n\n--- Input (Image): ${item.name} ---\n` });
             contentParts.push({ inlineData: { mimeType, data: base64Data } });
-        } else if (item.type === InputType.DOCUMENT && item.rawContent && item.metadata.fileType === 'application/pdf') {
+        } else if (isPdf && item.rawContent) {
             // Add PDF directly
             const base64Data = (item.rawContent as string).split(',')[1];
             const mimeType = 'application/pdf';
             contentParts.push({ text: `\n\n--- Input (PDF): ${item.name} ---\n` });
             contentParts.push({ inlineData: { mimeType, data: base64Data } });
         } else {
-            // Text content
-            let textContent = '';
+            // Text content; guidelines and notes are kept whole before documents and pages are trimmed
+            let header = '';
+            let priority = 1;
             switch (item.type) {
                 case InputType.DOCUMENT:
-                    textContent = `[DOCUMENT: ${item.name}]\n${item.content.substring(0, 5000)}`;
+                    header = `[DOCUMENT: ${item.name}]\n`;
                     break;
                 case InputType.URL:
-                    textContent = `[URL: ${item.metadata.url}]\nTitle: ${item.metadata.title || 'N/A'}\nContent: ${item.content.substring(0, 3000)}`;
+                    header = `[URL: ${item.metadata.url}]\nTitle: ${item.metadata.title || 'N/A'}\nContent: `;
                     break;
                 case InputType.GUIDELINE:
-                    textContent = `[GUIDELINE]\n${item.content}`;
+                    header = '[GUIDELINE]\n';
+                    priority = 2;
                     break;
                 case InputType.NOTE:
-                    textContent = `[NOTE]\n${item.content}`;
+                    header = '[NOTE]\n';
+                    priority = 2;
                     break;
                 default:
-                    textContent = `[${item.type}]\n${item.content.substring(0, 2000)}`;
+                    header = `[${item.type}]\n`;
             }
-            contentParts.push({ text: `\n\n--- Input ${item.name} ---\n${textContent}` });
+            const part = { text: '' };
+            contentParts.push(part);
+            textInputs.push({
+                part,
+                header: `\n\n--- Input ${item.name} ---\n${header}`,
+                section: { name: item.id, text: item.content, priority }
+            });
         }
     }
 
+    const attachments = contentParts.filter(part => !('text' in part)).length;
+    const budget = getPromptBudget('synthesis', { taskModels: options.taskModels, systemPrompt: SYNTHESIS_PROMPT });
+    const fitted = assemblePrompt(textInputs.map(input => input.section), budget - attachments * ATTACHMENT_TOKENS);
+    textInputs.forEach(({ part, header, section }) => {
+        part.text = `${header}${fitted.sections[section.name] || '[Omitted to fit the context window]'}`;
+    });
+
     prompt = contentParts;
 
     try {
         // Use DeepSeek for synthesis (best reasoning) via registry auto-selection
-        const response = await generateWithBestModel(
+        const response = await generateStructured<Partial<SynthesisResult>>(
+            SCHEMAS.synthesisResult,
             prompt,
-            'synthesis',
-            { responseFormat: 'json' }
+            viaRouter('synthesis', { ...options, responseFormat: 'json' })
         );
 
-        // Parse the response
-        const cleanedResponse = response.text
-            .replace(/```json\s */g, '')
-            .replace(/```\s*/g, '')
-            .trim();
+        if (!response.data) {
+            throw new Error(`Synthesis output failed validation: ${response.errors.join('; ')}`);
+        }
+        if (response.repaired) {
+            console.log('[Synthesizer] Output repaired after schema validation');
+        }
 
-        const parsed = JSON.parse(cleanedResponse);
+        const parsed = response.data;
 
         // Calculate metadata
         const totalWordCount = items.reduce((sum, item) => {
@@ -147,6 +184,8 @@ export async function synthesizeInputs(items: InputItem[]): Promise<SynthesisRes
         };
 
     } catch (error) {
+        // A spent budget must stop the caller, not degrade to the basic extraction
+        if (isBudgetExceeded(error)) throw error;
         console.error('Synthesis error:', error);
 
         // Return a basic synthesis from guidelines and notes
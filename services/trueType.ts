@@ -0,0 +1,167 @@
+// ============================================
+// TRUETYPE
+// Just enough of a TrueType (glyf-outline) font file to embed it in
+// a PDF: metrics, the Unicode cmap and glyph advance widths
+// ============================================
+
+export interface TrueTypeFont {
+    data: Uint8Array; // The whole file, embedded as-is
+    postScriptName: string;
+    unitsPerEm: number;
+    // Metrics below are in PDF glyph space (1000 units per em)
+    ascent: number;
+    descent: number; // Negative
+    capHeight: number;
+    bbox: [number, number, number, number];
+    italicAngle: number;
+    bold: boolean;
+    glyphId(codePoint: number): number; // 0 (.notdef) when the font has no glyph
+    advance(glyphId: number): number;
+}
+
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+const tag = (view: DataView, offset: number): string =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Format 4 (BMP) and format 12 (full Unicode) subtables of the cmap table
+const parseCmap = (view: DataView, start: number): Map<number, number> => {
+    const map = new Map<number, number>();
+    const count = view.getUint16(start + 2);
+    const subtables: { platform: number; encoding: number; offset: number }[] = [];
+    for (let i = 0; i < count; i++) {
+        const record = start + 4 + i * 8;
+        subtables.push({ platform: view.getUint16(record), encoding: view.getUint16(record + 2), offset: start + view.getUint32(record + 4) });
+    }
+    // Prefer full Unicode (3,10), then BMP (3,1), then any Unicode-platform table
+    const pick = subtables.find(s => s.platform === 3 && s.encoding === 10)
+        ?? subtables.find(s => s.platform === 3 && s.encoding === 1)
+        ?? subtables.find(s => s.platform === 0);
+    if (!pick) throw new Error('Font has no Unicode character map');
+
+    const format = view.getUint16(pick.offset);
+    if (format === 4) {
+        const segCount = view.getUint16(pick.offset + 6) / 2;
+        const ends = pick.offset + 14;
+        const starts = ends + segCount * 2 + 2;
+        const deltas = starts + segCount * 2;
+        const rangeOffsets = deltas + segCount * 2;
+        for (let s = 0; s < segCount; s++) {
+            const end = view.getUint16(ends + s * 2);
+            const first = view.getUint16(starts + s * 2);
+            const delta = view.getInt16(deltas + s * 2);
+            const rangeOffset = view.getUint16(rangeOffsets + s * 2);
+            for (let c = first; c <= end && c !== 0xffff; c++) {
+                let glyph: number;
+                if (rangeOffset === 0) {
+                    glyph = (c + delta) & 0xffff;
+                } else {
+                    const at = rangeOffsets + s * 2 + rangeOffset + (c - first) * 2;
+                    glyph = view.getUint16(at);
+                    if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+                }
+                if (glyph !== 0) map.set(c, glyph);
+            }
+        }
+    } else if (format === 12) {
+        const groups = view.getUint32(pick.offset + 12);
+        for (let g = 0; g < groups; g++) {
+            const group = pick.offset + 16 + g * 12;
+            const first = view.getUint32(group);
+            const last = view.getUint32(group + 4);
+            const glyph = view.getUint32(group + 8);
+            for (let c = first; c <= last; c++) map.set(c, glyph + (c - first));
+        }
+    } else {
+        throw new Error(`Unsupported cmap format ${format}`);
+    }
+    return map;
+};
+
+// PostScript name (name ID 6), Windows Unicode or Mac Roman record
+const parsePostScriptName = (view: DataView, start: number): string | undefined => {
+    const count = view.getUint16(start + 2);
+    const strings = start + view.getUint16(start + 4);
+    for (let i = 0; i < count; i++) {
+        const record = start + 6 + i * 12;
+        if (view.getUint16(record + 6) !== 6) continue;
+        const platform = view.getUint16(record);
+        const length = view.getUint16(record + 8);
+        const offset = strings + view.getUint16(record + 10);
+        let name = '';
+        if (platform === 3 || platform === 0) {
+            for (let j = 0; j < length; j += 2) name += String.fromCharCode(view.getUint16(offset + j));
+        } else {
+            for (let j = 0; j < length; j++) name += String.fromCharCode(view.getUint8(offset + j));
+        }
+        if (name) return name.replace(/[^\x21-\x7e]|[()<>[\]{}/%#]/g, '');
+    }
+    return undefined;
+};
+
+/** Parse a TrueType font file (OpenType fonts with CFF outlines are not supported) */
+export function parseTrueType(data: Uint8Array): TrueTypeFont {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const version = view.getUint32(0);
+    if (version === 0x4f54544f) throw new Error('CFF-based OpenType fonts cannot be embedded; use a TrueType (.ttf) font');
+    if (version !== 0x00010000 && version !== 0x74727565) throw new Error('Not a TrueType font file');
+
+    const tables = new Map<string, TableRecord>();
+    const numTables = view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+        const record = 12 + i * 16;
+        tables.set(tag(view, record), { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+    }
+    const table = (name: string): TableRecord => {
+        const found = tables.get(name);
+        if (!found) throw new Error(`Font is missing its ${name} table`);
+        return found;
+    };
+
+    const head = table('head').offset;
+    const unitsPerEm = view.getUint16(head + 18);
+    const scale = (units: number) => Math.round(units * 1000 / unitsPerEm);
+    const bbox: [number, number, number, number] = [
+        scale(view.getInt16(head + 36)), scale(view.getInt16(head + 38)),
+        scale(view.getInt16(head + 40)), scale(view.getInt16(head + 42))
+    ];
+
+    const hhea = table('hhea').offset;
+    const ascent = scale(view.getInt16(hhea + 4));
+    const descent = scale(view.getInt16(hhea + 6));
+    const numberOfHMetrics = view.getUint16(hhea + 34);
+
+    const hmtx = table('hmtx').offset;
+    const numGlyphs = view.getUint16(table('maxp').offset + 4);
+    const advances = new Uint16Array(numGlyphs);
+    for (let g = 0; g < numGlyphs; g++) {
+        // Glyphs past numberOfHMetrics share the last advance
+        advances[g] = view.getUint16(hmtx + Math.min(g, numberOfHMetrics - 1) * 4);
+    }
+
+    const os2 = tables.get('OS/2');
+    const capHeight = os2 && view.getUint16(os2.offset) >= 2 ? scale(view.getInt16(os2.offset + 88)) : Math.round(ascent * 0.7);
+    const bold = os2 ? view.getUint16(os2.offset + 4) >= 600 : false;
+    const post = tables.get('post');
+    const italicAngle = post ? view.getInt32(post.offset + 4) / 65536 : 0;
+
+    const cmap = parseCmap(view, table('cmap').offset);
+    const name = tables.get('name');
+
+    return {
+        data,
+        postScriptName: (name && parsePostScriptName(view, name.offset)) || 'EmbeddedFont',
+        unitsPerEm,
+        ascent,
+        descent,
+        capHeight,
+        bbox,
+        italicAngle,
+        bold,
+        glyphId: (codePoint) => cmap.get(codePoint) ?? 0,
+        advance: (glyphId) => scale(advances[glyphId] ?? 0)
+    };
+}
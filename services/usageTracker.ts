@@ -0,0 +1,95 @@
+import { ModelProvider, ProjectUsage, UsageTotals } from '../types';
+
+// ============================================
+// USAGE TRACKER
+// Token and cost ledger for every metered provider call
+// ============================================
+
+export interface UsageEntry {
+    provider: ModelProvider;
+    modelId: string;
+    usage: UsageTotals;
+    projectId?: string; // Unset when the caller did not attribute the call
+    timestamp: number;
+}
+
+export type UsageListener = (entry: UsageEntry) => void;
+
+// Subword tokenizers split long words and numbers into several tokens
+const CHARS_PER_WORD_TOKEN = 6;
+const DIGITS_PER_TOKEN = 3;
+const TOKEN_PATTERN = /(\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul})|([\p{L}\p{M}]+)|(\p{N}+)|[^\s\p{L}\p{M}\p{N}]/gu;
+
+export const emptyUsage = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, cost: 0, calls: 0 });
+
+export const addUsage = (a: UsageTotals, b?: UsageTotals): UsageTotals => {
+    if (!b) return a;
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        cost: a.cost + b.cost,
+        calls: a.calls + b.calls,
+        ...((a.estimated || b.estimated) && { estimated: true })
+    };
+};
+
+export const totalTokens = (usage: UsageTotals): number => usage.promptTokens + usage.completionTokens;
+
+/**
+ * Approximate token count, for providers that report no usage and for fitting prompts
+ * into context windows: one token per short word, more for long words and numbers,
+ * one per punctuation mark and one per CJK character. Within about 10% of BPE
+ * tokenizers on English prose; whitespace is not counted.
+ */
+export const estimateTokens = (text: string): number => {
+    let tokens = 0;
+    for (const [, cjk, word, number] of text.matchAll(TOKEN_PATTERN)) {
+        if (cjk) tokens += 1;
+        else if (word) tokens += Math.ceil(word.length / CHARS_PER_WORD_TOKEN);
+        else if (number) tokens += Math.ceil(number.length / DIGITS_PER_TOKEN);
+        else tokens += 1;
+    }
+    return tokens;
+};
+
+/** Fold a ledger entry into a project's running totals */
+export const applyUsageEntry = (current: ProjectUsage | undefined, entry: UsageEntry): ProjectUsage => {
+    const key = `${entry.provider}/${entry.modelId}`;
+    const byModel = current?.byModel || {};
+    return {
+        total: addUsage(current?.total || emptyUsage(), entry.usage),
+        byModel: { ...byModel, [key]: addUsage(byModel[key] || emptyUsage(), entry.usage) }
+    };
+};
+
+// ============================================
+// LEDGER EVENTS
+// ============================================
+
+const listeners = new Set<UsageListener>();
+
+export const recordUsage = (entry: UsageEntry): void => {
+    listeners.forEach(listener => listener(entry));
+};
+
+export const subscribeUsage = (listener: UsageListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export const formatCost = (cost: number): string => {
+    if (cost === 0) return '$0.00';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number): string => {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+    return String(tokens);
+};
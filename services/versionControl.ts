@@ -1,8 +1,9 @@
 import { Project, ProjectVersion } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, isQuotaError } from './persistence';
 
-const STORAGE_PREFIX = 'vibe_versions_';
+const MAX_AUTO_VERSIONS = 10;
 
-export const saveVersion = (project: Project, type: 'auto' | 'manual', label: string = 'Checkpoint'): ProjectVersion => {
+export const saveVersion = async (project: Project, type: 'auto' | 'manual', label: string = 'Checkpoint'): Promise<ProjectVersion> => {
     const versionId = Math.random().toString(36).substr(2, 9);
     const version: ProjectVersion = {
         id: versionId,
@@ -14,44 +15,41 @@ export const saveVersion = (project: Project, type: 'auto' | 'manual', label: st
     };
 
     try {
-        const key = `${STORAGE_PREFIX}${project.id}`;
-        const existing = getVersions(project.id);
+        await putRecord(STORES.versions, version);
 
         // Limit auto-saves to last 10 to prevent storage overflow
-        let updated = [version, ...existing];
         if (type === 'auto') {
-            const manual = updated.filter(v => v.type === 'manual');
-            const auto = updated.filter(v => v.type === 'auto').slice(0, 10);
-            updated = [...manual, ...auto].sort((a, b) => b.timestamp - a.timestamp);
+            const existing = await getVersions(project.id);
+            const stale = existing.filter(v => v.type === 'auto').slice(MAX_AUTO_VERSIONS);
+            await Promise.all(stale.map(v => deleteRecord(STORES.versions, v.id)));
         }
 
-        localStorage.setItem(key, JSON.stringify(updated));
         console.log(`[VersionControl] Saved version: ${label} (${versionId})`);
         return version;
     } catch (error) {
-        console.error('[VersionControl] Failed to save version (likely storage limit):', error);
+        console.error(`[VersionControl] Failed to save version${isQuotaError(error) ? ' (storage limit reached)' : ''}:`, error);
         throw error;
     }
 };
 
-export const getVersions = (projectId: string): ProjectVersion[] => {
+export const getVersions = async (projectId: string): Promise<ProjectVersion[]> => {
     try {
-        const key = `${STORAGE_PREFIX}${projectId}`;
-        const raw = localStorage.getItem(key);
-        if (!raw) return [];
-        return JSON.parse(raw) as ProjectVersion[];
+        const versions = await getAllRecords<ProjectVersion>(STORES.versions, 'projectId', projectId);
+        return versions.sort((a, b) => b.timestamp - a.timestamp);
     } catch (error) {
         console.error('[VersionControl] Failed to load versions:', error);
         return [];
     }
 };
 
-export const deleteVersion = (projectId: string, versionId: string): void => {
-    const versions = getVersions(projectId);
-    const updated = versions.filter(v => v.id !== versionId);
-    localStorage.setItem(`${STORAGE_PREFIX}${projectId}`, JSON.stringify(updated));
+export const deleteVersion = async (projectId: string, versionId: string): Promise<void> => {
+    const versions = await getVersions(projectId);
+    if (versions.some(v => v.id === versionId)) {
+        await deleteRecord(STORES.versions, versionId);
+    }
 };
 
-export const clearHistory = (projectId: string): void => {
-    localStorage.removeItem(`${STORAGE_PREFIX}${projectId}`);
+export const clearHistory = async (projectId: string): Promise<void> => {
+    const versions = await getVersions(projectId);
+    await Promise.all(versions.map(v => deleteRecord(STORES.versions, v.id)));
 };
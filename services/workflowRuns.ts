@@ -0,0 +1,90 @@
+import { ArchitectPlan, WorkflowRun, WorkflowTaskRecord } from '../types';
+import { STORES, getRecord, getAllRecords, putRecord, deleteRecord } from './persistence';
+
+// ============================================
+// WORKFLOW RUN CHECKPOINTS
+// Each multi-agent run is persisted after every task so a failed
+// or interrupted run can resume without redoing finished chapters
+// ============================================
+
+export const createRun = async (
+    projectId: string,
+    userRequest: string,
+    plan: ArchitectPlan,
+    styleContext: string,
+    tasks: Omit<WorkflowTaskRecord, 'status'>[]
+): Promise<WorkflowRun> => {
+    const now = Date.now();
+    const run: WorkflowRun = {
+        id: Math.random().toString(36).substr(2, 9),
+        projectId,
+        userRequest,
+        status: 'running',
+        plan,
+        styleContext,
+        tasks: tasks.map(t => ({ ...t, status: 'pending' })),
+        createdAt: now,
+        updatedAt: now
+    };
+    await saveRun(run);
+    return run;
+};
+
+/** Persist the run. Checkpoint failures are logged, never fatal to the workflow */
+export const saveRun = async (run: WorkflowRun): Promise<void> => {
+    run.updatedAt = Date.now();
+    try {
+        await putRecord(STORES.runs, run);
+    } catch (error) {
+        console.error(`[WorkflowRuns] Failed to checkpoint run ${run.id}:`, error);
+    }
+};
+
+/** Update one task record and checkpoint the run */
+export const updateTask = async (
+    run: WorkflowRun,
+    index: number,
+    patch: Partial<WorkflowTaskRecord>
+): Promise<void> => {
+    run.tasks = run.tasks.map(t => (t.index === index ? { ...t, ...patch } : t));
+    await saveRun(run);
+};
+
+export const getRun = async (runId: string): Promise<WorkflowRun | undefined> => {
+    return getRecord<WorkflowRun>(STORES.runs, runId);
+};
+
+export const getRuns = async (projectId: string): Promise<WorkflowRun[]> => {
+    try {
+        const runs = await getAllRecords<WorkflowRun>(STORES.runs, 'projectId', projectId);
+        return runs.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+        console.error('[WorkflowRuns] Failed to load runs:', error);
+        return [];
+    }
+};
+
+/**
+ * Most recent run with unfinished tasks. A run still marked 'running' after a
+ * reload was interrupted mid-flight and is treated the same as a failed one.
+ */
+export const getResumableRun = async (projectId: string): Promise<WorkflowRun | null> => {
+    const runs = await getRuns(projectId);
+    const latest = runs[0];
+    if (!latest || latest.status === 'completed') return null;
+    return latest.tasks.some(t => t.status !== 'completed') ? latest : null;
+};
+
+export const getRunProgress = (run: WorkflowRun): { completed: number; total: number } => ({
+    completed: run.tasks.filter(t => t.status === 'completed').length,
+    total: run.tasks.length
+});
+
+export const deleteRun = async (runId: string): Promise<void> => {
+    await deleteRecord(STORES.runs, runId);
+};
+
+export const clearRuns = async (projectId: string): Promise<void> => {
+    const runs = await getRuns(projectId);
+    await Promise.all(runs.map(r => deleteRecord(STORES.runs, r.id)));
+};
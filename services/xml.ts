@@ -0,0 +1,15 @@
+// ============================================
+// XML
+// ============================================
+
+// Characters XML 1.0 does not allow anywhere in a document
+const INVALID_XML_CHARS = /[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/** Escape for XML text and attribute values, dropping characters XML 1.0 does not allow */
+export const escapeXml = (text: string): string =>
+    text
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zipWriter';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+});
+
+describe('createZip', () => {
+    const modified = new Date(2024, 5, 15, 12, 30, 10);
+    const zip = createZip([
+        { path: 'mimetype', data: 'application/epub+zip' },
+        { path: 'OEBPS/café.xhtml', data: new Uint8Array([1, 2, 3]) }
+    ], modified);
+    const view = new DataView(zip.buffer);
+
+    it('stores the first entry uncompressed at the start, as EPUB requires', () => {
+        expect(view.getUint32(0, true)).toBe(LOCAL_HEADER);
+        expect(view.getUint16(8, true)).toBe(0); // Stored
+        expect(decoder.decode(zip.subarray(30, 38))).toBe('mimetype');
+        expect(decoder.decode(zip.subarray(38, 58))).toBe('application/epub+zip');
+        expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('application/epub+zip')));
+    });
+
+    it('writes UTF-8 names and MS-DOS timestamps', () => {
+        const second = 58;
+        const nameLength = view.getUint16(second + 26, true);
+
+        expect(view.getUint16(second + 6, true) & 0x0800).toBe(0x0800);
+        expect(decoder.decode(zip.subarray(second + 30, second + 30 + nameLength))).toBe('OEBPS/café.xhtml');
+        expect(view.getUint16(second + 10, true)).toBe((12 << 11) | (30 << 5) | 5);
+        expect(view.getUint16(second + 12, true)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+    });
+
+    it('ends with a central directory listing every entry', () => {
+        const end = zip.length - 22;
+        const centralOffset = view.getUint32(end + 16, true);
+
+        expect(view.getUint32(end, true)).toBe(END_OF_CENTRAL_DIRECTORY);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        expect(view.getUint32(centralOffset, true)).toBe(CENTRAL_HEADER);
+        expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+    });
+});
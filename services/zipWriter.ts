@@ -0,0 +1,111 @@
+// ============================================
+// ZIP WRITER
+// Minimal store-only (uncompressed) ZIP archives, enough for the
+// container formats the exporters produce (EPUB, DOCX)
+// ============================================
+
+export interface ZipEntry {
+    path: string; // Forward slashes, no leading slash
+    data: Uint8Array | string; // Strings are written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/** CRC-32, as used by ZIP entries and PNG chunks */
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields (2-second resolution, years from 1980)
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const UTF8_NAMES_FLAG = 0x0800;
+
+/**
+ * Build a ZIP archive with every entry stored uncompressed, in the order given
+ * (EPUB needs its `mimetype` entry first and uncompressed, which this guarantees).
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+
+    const files = entries.map(entry => {
+        const name = encoder.encode(entry.path);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        return { name, data, crc: crc32(data) };
+    });
+
+    const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+    const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+    const out = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(out.buffer);
+    let offset = 0;
+
+    // Fields shared by the local and central headers: version, flags, method, time, date, crc, sizes, name length
+    const writeCommon = (f: typeof files[number]) => {
+        view.setUint16(offset, 20, true);
+        view.setUint16(offset + 2, UTF8_NAMES_FLAG, true);
+        view.setUint16(offset + 4, 0, true); // Stored
+        view.setUint16(offset + 6, time, true);
+        view.setUint16(offset + 8, date, true);
+        view.setUint32(offset + 10, f.crc, true);
+        view.setUint32(offset + 14, f.data.length, true);
+        view.setUint32(offset + 18, f.data.length, true);
+        view.setUint16(offset + 22, f.name.length, true);
+        view.setUint16(offset + 24, 0, true); // No extra field
+        offset += 26;
+    };
+
+    const localOffsets: number[] = [];
+    for (const f of files) {
+        localOffsets.push(offset);
+        view.setUint32(offset, 0x04034b50, true);
+        offset += 4;
+        writeCommon(f);
+        out.set(f.name, offset);
+        offset += f.name.length;
+        out.set(f.data, offset);
+        offset += f.data.length;
+    }
+
+    const centralStart = offset;
+    files.forEach((f, i) => {
+        view.setUint32(offset, 0x02014b50, true);
+        view.setUint16(offset + 4, 20, true); // Made by
+        offset += 6;
+        writeCommon(f);
+        view.setUint16(offset, 0, true); // Comment length
+        view.setUint16(offset + 2, 0, true); // Disk number
+        view.setUint16(offset + 4, 0, true); // Internal attributes
+        view.setUint32(offset + 6, 0, true); // External attributes
+        view.setUint32(offset + 10, localOffsets[i], true);
+        offset += 14;
+        out.set(f.name, offset);
+        offset += f.name.length;
+    });
+
+    // End of central directory
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint16(offset + 6, 0, true);
+    view.setUint16(offset + 8, files.length, true);
+    view.setUint16(offset + 10, files.length, true);
+    view.setUint32(offset + 12, offset - centralStart, true);
+    view.setUint32(offset + 16, centralStart, true);
+    view.setUint16(offset + 20, 0, true);
+
+    return out;
+}
@@ -20,6 +20,11 @@ export interface GenerateOptions {
   temperature?: number;
   maxTokens?: number;
   responseFormat?: 'json' | 'text';
+  signal?: AbortSignal; // Aborts the in-flight request when the caller cancels
+  projectId?: string; // Attributes metered usage to a project
+  budget?: SpendGuard; // Checked before each call; refuses calls past the cap
+  model?: string; // Model id to call instead of the provider's default
+  taskModels?: Partial<Record<TaskType, ModelChoice>>; // Per-task overrides, applied by the router
 }
 
 export interface ArchitectPlan {
@@ -46,16 +51,76 @@ export enum ModelProvider {
   DEEPSEEK = 'deepseek',
   MISTRAL = 'mistral',
   OPENROUTER = 'openrouter',
-  HUGGINGFACE = 'huggingface'
+  HUGGINGFACE = 'huggingface',
+  LOCAL = 'local' // Any OpenAI-compatible server (Ollama, llama.cpp)
 }
 
+// Inputs beyond short plain text that a model accepts
+export type ModelCapability = 'vision' | 'pdf' | 'long_context';
+
 export interface ModelConfig {
   provider: ModelProvider;
   modelId: string;
   displayName: string;
   description: string;
   strengths: string[];
+  capabilities?: ModelCapability[]; // Omitted = text only, standard context
+  contextWindow?: number; // Tokens, prompt and reply together; omitted = the provider default
   isAvailable: boolean; // Based on API key presence
+  pricing?: ModelPricing;
+}
+
+// A specific model picked by the user (ModelSelector or a per-task override)
+export interface ModelChoice {
+  provider: ModelProvider;
+  modelId?: string; // Unset = the provider's default model
+}
+
+// ============================================
+// USAGE & COST
+// ============================================
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // Provider reported no usage; counted from text length
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  calls: number;
+  estimated?: boolean; // At least one call was estimated
+}
+
+export interface ProjectUsage {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>; // Keyed by "provider/modelId"
+}
+
+// Spend caps; unset limits are unbounded
+export interface ProjectBudget {
+  maxRunCost?: number; // USD per workflow run / generator action
+  maxRunTokens?: number;
+  maxProjectCost?: number; // USD over the project's lifetime
+  maxProjectTokens?: number;
+  warnAt?: number; // Fraction of a cap that triggers a warning (default 0.8)
+}
+
+export interface SpendGuard {
+  // Throws when a cap has been reached (calls in flight included); else holds the estimate against the caps
+  reserve(estimate: UsageTotals): SpendReservation;
+}
+
+export interface SpendReservation {
+  settle(usage?: UsageTotals): void; // Replace the estimate with the actual usage (none when the call failed)
 }
 
 export type TaskType =
@@ -89,11 +154,44 @@ export enum BlockStatus {
   NEEDS_REVISION = 'needs_revision'
 }
 
+// ============================================
+// IMAGE GENERATION TYPES
+// ============================================
+
+export enum ImageProviderName {
+  GEMINI = 'gemini',
+  HUGGINGFACE = 'huggingface',
+  SD_WEBUI = 'sd_webui' // Local Stable Diffusion WebUI (AUTOMATIC1111 / Forge API)
+}
+
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9';
+
+// How an IMAGE block was made, enough to reproduce it
+export interface ImageGenerationMetadata {
+  provider: ImageProviderName;
+  modelId: string;
+  aspectRatio: AspectRatio;
+  negativePrompt?: string;
+  seed?: number; // Unset when the provider does not take seeds
+  width?: number;
+  height?: number;
+  generatedAt: number;
+}
+
+// Project defaults for /image requests; flags on the command override them
+export interface ImageDefaults {
+  provider?: ImageProviderName; // Unset = first configured by priority
+  aspectRatio?: AspectRatio;
+  negativePrompt?: string;
+}
+
 export interface RevisionEntry {
   id: string;
   content: string;
   timestamp: number;
   feedback?: string; // User feedback that triggered this revision
+  agent?: AgentRole; // Set when an automatic review round triggered it
+  round?: number; // Automatic revision round (1-based)
 }
 
 export interface ContentBlock {
@@ -110,6 +208,8 @@ export interface ContentBlock {
     modelUsed?: string; // Which AI model generated this
     chapterNumber?: number; // For chapter blocks
     title?: string; // Block title (e.g., chapter title)
+    usage?: UsageTotals; // All agent calls that produced this block
+    image?: ImageGenerationMetadata; // IMAGE blocks: generation parameters
   };
 }
 
@@ -120,11 +220,19 @@ export interface ContentBlock {
 export interface ProjectSettings {
   preferredProvider?: ModelProvider;
   autoSelectModel: boolean;
+  maxConcurrentTasks?: number; // Workflow tasks drafted in parallel (default 2)
+  maxRevisionRounds?: number; // Automatic Critic/Consistency rewrites per draft (0 = off)
+  revisionAgent?: AgentRole.WRITER | AgentRole.EDITOR; // Who rewrites drafts that fail review
+  budget?: ProjectBudget;
+  taskModels?: Partial<Record<TaskType, ModelChoice>>; // Per-task model overrides
+  imageDefaults?: ImageDefaults;
   bookMetadata?: {
     author?: string;
     genre?: string;
     targetAudience?: string;
     tone?: string;
+    language?: string; // BCP 47 tag, e.g. 'en' or 'pt-BR'
+    isbn?: string;
   };
 }
 
@@ -137,6 +245,7 @@ export interface Project {
   settings: ProjectSettings;
   workflowPhase: WorkflowPhase;
   blueprint?: Blueprint;
+  usage?: ProjectUsage;
 }
 
 export interface Blueprint {
@@ -221,6 +330,46 @@ export interface AgentLog {
   metadata?: string; // The "helper/describer script"
   status: 'thinking' | 'working' | 'success' | 'failed' | 'warning';
   modelUsed?: string;
+  repaired?: boolean; // Agent JSON failed schema validation and needed a repair re-prompt
+  usage?: UsageTotals; // Tokens and cost of the call(s) behind this entry
+}
+
+// ============================================
+// WORKFLOW RUNS (checkpointing)
+// ============================================
+
+export type WorkflowTaskStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Compact continuity record of a finished chapter, fed to later Writer tasks
+export interface ChapterMemory {
+  summary: string;
+  openThreads: string[];
+  characterStates: { name: string; state: string }[];
+}
+
+export interface WorkflowTaskRecord {
+  index: number;
+  task: ArchitectPlan['tasks'][number];
+  sectionId?: string; // BlueprintSection the task was derived from
+  chapterNumber?: number; // Assigned at plan time so resumed runs keep numbering
+  status: WorkflowTaskStatus;
+  block?: ContentBlock;
+  provider?: string;
+  memory?: ChapterMemory;
+  error?: string;
+  completedAt?: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  projectId: string;
+  userRequest: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  plan: ArchitectPlan;
+  styleContext: string;
+  tasks: WorkflowTaskRecord[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 // ============================================